@@ -0,0 +1,149 @@
+import { fipsToStateMap } from "@/lib/utils";
+import { metricRegistry, moeSuffix } from "@/lib/metrics";
+import { AcsTable, parseAcsNumber, stateFipsForRow } from "./tables";
+import {
+  MetricSource,
+  checkSourceCoverage,
+  countSources,
+  metricSources,
+  requiredTables,
+} from "./sources";
+
+export interface IngestResult {
+  columns: string[];
+  rows: Record<string, string>[];
+  problems: string[]; // Fatal: nothing should be written
+  warnings: string[];
+}
+
+// Check that every variable a source needs exists with the expected label
+function checkVariables(tables: Map<string, AcsTable>): string[] {
+  const problems: string[] = [];
+  const sources = [
+    ...Object.values(metricSources),
+    ...Object.values(countSources),
+  ];
+
+  requiredTables()
+    .filter((id) => !tables.has(id))
+    .forEach((id) => problems.push(`Table ${id} was not found in the input`));
+
+  sources
+    .flatMap((source) => source.variables)
+    .forEach((variable) => {
+      const table = tables.get(variable.table);
+      if (!table) return;
+
+      if (!table.columns.includes(variable.id)) {
+        problems.push(`${variable.id} is not in ${table.file}`);
+        return;
+      }
+      const label = table.labels?.[variable.id];
+      if (
+        label !== undefined &&
+        !label.toLowerCase().includes(variable.label.toLowerCase())
+      ) {
+        problems.push(
+          `${variable.id} in ${table.file} is labelled "${label}", ` +
+            `expected "${variable.label}". The table layout may have ` +
+            `changed; update scripts/acs/sources.ts.`
+        );
+      }
+    });
+
+  return problems;
+}
+
+// Round to two decimals and leave missing values blank
+function formatCell(value: number): string {
+  return isNaN(value) ? "" : String(Math.round(value * 100) / 100);
+}
+
+function moeVariableId(estimateId: string): string {
+  return estimateId.replace(/E$/, "M");
+}
+
+// Compute the dashboard CSV from raw ACS tables
+export function buildDashboardRows(tableList: AcsTable[]): IngestResult {
+  const tables = new Map(tableList.map((t) => [t.id, t]));
+  const problems = [...checkSourceCoverage(), ...checkVariables(tables)];
+  const warnings: string[] = [];
+  if (problems.length) return { columns: [], rows: [], problems, warnings };
+
+  // Index each table's rows by state FIPS
+  const rowsByTable = new Map<string, Map<string, Record<string, string>>>();
+  const names = new Map<string, string>();
+  tables.forEach((table, id) => {
+    const byFips = new Map<string, Record<string, string>>();
+    table.rows.forEach((row) => {
+      const fips = stateFipsForRow(row);
+      if (!fips) return;
+      if (!fipsToStateMap[fips]) {
+        warnings.push(`Skipping unknown state FIPS ${fips} in ${table.file}`);
+        return;
+      }
+      byFips.set(fips, row);
+      if (row.NAME) names.set(fips, row.NAME);
+    });
+    rowsByTable.set(id, byFips);
+  });
+
+  const compute = (source: MetricSource, fips: string): number => {
+    const inputs = source.variables.map((variable) =>
+      parseAcsNumber(rowsByTable.get(variable.table)?.get(fips)?.[variable.id])
+    );
+    return inputs.some(isNaN) ? NaN : source.compute(inputs);
+  };
+
+  // A single published estimate keeps its published margin of error
+  const moeOf = (source: MetricSource, fips: string): string | null => {
+    if (!source.moe) return null;
+    const [variable] = source.variables;
+    const moeId = moeVariableId(variable.id);
+    if (!tables.get(variable.table)!.columns.includes(moeId)) return null;
+    return formatCell(
+      parseAcsNumber(rowsByTable.get(variable.table)?.get(fips)?.[moeId])
+    );
+  };
+
+  const allFips = Array.from(names.keys()).sort();
+  const rows = allFips.map((fips) => {
+    const row: Record<string, string> = {
+      Geo_ID: `0400000US${fips}`,
+      State: names.get(fips)!,
+    };
+    metricRegistry.forEach(({ key }) => {
+      const source = metricSources[key];
+      row[key] = formatCell(compute(source, fips));
+      const moe = moeOf(source, fips);
+      if (moe !== null) row[key + moeSuffix] = moe;
+    });
+    Object.entries(countSources).forEach(([key, source]) => {
+      row[key] = formatCell(compute(source, fips));
+    });
+    row.state_id = fipsToStateMap[fips];
+
+    tables.forEach((table, id) => {
+      if (!rowsByTable.get(id)!.has(fips)) {
+        warnings.push(`${names.get(fips)} is missing from ${table.file}`);
+      }
+    });
+    return row;
+  });
+
+  // Same column order as the dashboard CSV: identifiers, each metric
+  // followed by its margin of error, then the totals
+  const columns = [
+    "Geo_ID",
+    "State",
+    ...metricRegistry.flatMap(({ key }) =>
+      rows.some((row) => key + moeSuffix in row)
+        ? [key, key + moeSuffix]
+        : [key]
+    ),
+    ...Object.keys(countSources),
+    "state_id",
+  ];
+
+  return { columns, rows, problems, warnings };
+}
@@ -0,0 +1,141 @@
+import { countColumns, metricRegistry } from "@/lib/metrics";
+
+// One published ACS estimate. The label fragment is checked against the
+// label row of data.census.gov exports, so a variable that the Census
+// Bureau has renumbered fails the ingest instead of filling a column with
+// the wrong figure.
+export interface AcsVariable {
+  table: string; // e.g. "S2801"
+  id: string; // Estimate variable, e.g. "S2801_C02_011E"
+  label: string; // Fragment of its published label
+}
+
+export interface MetricSource {
+  variables: AcsVariable[];
+  compute: (values: number[]) => number;
+  // Publish the estimate's own margin of error; only meaningful when the
+  // metric is a single published estimate
+  moe?: boolean;
+}
+
+function direct(table: string, id: string, label: string): MetricSource {
+  return {
+    variables: [{ table, id, label }],
+    compute: ([value]) => value,
+    moe: true,
+  };
+}
+
+function v(table: string, id: string, label: string): AcsVariable {
+  return { table, id, label };
+}
+
+// How each dashboard column is computed, keyed by registry metric
+export const metricSources: Record<string, MetricSource> = {
+  "% Households Without Computer": direct(
+    "S2801",
+    "S2801_C02_011E",
+    "No computer"
+  ),
+  "% Smartphone-Only Households": direct(
+    "S2801",
+    "S2801_C02_006E",
+    "Smartphone with no other type of computing device"
+  ),
+  "% Households with Broadband": direct(
+    "S2801",
+    "S2801_C02_014E",
+    "Broadband of any type"
+  ),
+  "% Households Using Internet at Home": direct(
+    "S2801",
+    "S2801_C02_012E",
+    "With an Internet subscription"
+  ),
+  "% Without High School Diploma": {
+    variables: [v("S1501", "S1501_C02_014E", "High school graduate or higher")],
+    compute: ([graduates]) => 100 - graduates,
+  },
+  "% With Bachelor's or Higher": direct(
+    "S1501",
+    "S1501_C02_015E",
+    "Bachelor's degree or higher"
+  ),
+  // B28005 publishes internet access for everyone under 18, the closest
+  // age band to school age
+  "% School-Age (5–17) No Internet": {
+    variables: [
+      v("B28005", "B28005_002E", "Under 18 years"),
+      v("B28005", "B28005_006E", "Without an Internet subscription"),
+      v("B28005", "B28005_007E", "No computer"),
+    ],
+    compute: ([total, noSubscription, noComputer]) =>
+      ((noSubscription + noComputer) / total) * 100,
+  },
+  "% School-Age (5–17) Not Enrolled": {
+    variables: [
+      v("S1401", "S1401_C01_012E", "Population 5 to 9 years"),
+      v("S1401", "S1401_C01_013E", "5 to 9 year olds enrolled in school"),
+      v("S1401", "S1401_C01_014E", "Population 10 to 14 years"),
+      v("S1401", "S1401_C01_015E", "10 to 14 year olds enrolled in school"),
+      v("S1401", "S1401_C01_016E", "Population 15 to 17"),
+      v("S1401", "S1401_C01_017E", "15 to 17 year olds enrolled in school"),
+    ],
+    compute: ([pop5, enrolled5, pop10, enrolled10, pop15, enrolled15]) =>
+      100 *
+      (1 - (enrolled5 + enrolled10 + enrolled15) / (pop5 + pop10 + pop15)),
+  },
+  "Median Household Income": direct(
+    "S1901",
+    "S1901_C01_012E",
+    "Median income (dollars)"
+  ),
+  "% Below Poverty Line": direct(
+    "S1701",
+    "S1701_C03_001E",
+    "Percent below poverty level"
+  ),
+  "Unemployment Rate (%)": direct(
+    "S2301",
+    "S2301_C04_001E",
+    "Unemployment rate"
+  ),
+  "% With Public Assistance": {
+    variables: [
+      v("B19057", "B19057_001E", "Total"),
+      v("B19057", "B19057_002E", "With public assistance income"),
+    ],
+    compute: ([total, withAssistance]) => (withAssistance / total) * 100,
+  },
+};
+
+// Totals used to weight regional aggregates
+export const countSources: Record<string, MetricSource> = {
+  Households: direct("S2801", "S2801_C01_001E", "Total households"),
+  Population: direct("B01003", "B01003_001E", "Total"),
+};
+
+// Every registry metric needs a source and every source needs a registry
+// metric, so the CSV's column names can only come from the registry
+export function checkSourceCoverage(): string[] {
+  const registryKeys = metricRegistry.map((m) => m.key);
+  return [
+    ...registryKeys
+      .filter((key) => !metricSources[key])
+      .map((key) => `No ACS source is configured for "${key}"`),
+    ...Object.keys(metricSources)
+      .filter((key) => !registryKeys.includes(key))
+      .map((key) => `"${key}" has a source but is not in the metric registry`),
+    ...Object.keys(countSources)
+      .filter((key) => !countColumns.includes(key))
+      .map((key) => `"${key}" is not a known count column`),
+  ];
+}
+
+export function requiredTables(): string[] {
+  const tables = [
+    ...Object.values(metricSources),
+    ...Object.values(countSources),
+  ].flatMap((source) => source.variables.map((variable) => variable.table));
+  return Array.from(new Set(tables)).sort();
+}
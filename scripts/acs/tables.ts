@@ -0,0 +1,75 @@
+import * as d3 from "d3";
+
+// A raw ACS table as exported from data.census.gov (CSV) or returned by the
+// Census API (JSON)
+export interface AcsTable {
+  id: string; // e.g. "S2801"
+  file: string;
+  columns: string[];
+  labels: Record<string, string> | null; // Variable -> label, CSV only
+  rows: Record<string, string>[];
+}
+
+// "ACSST1Y2023.S2801-Data.csv" -> "S2801", "B28005.json" -> "B28005"
+export function tableIdFromFileName(fileName: string): string | null {
+  const match = fileName.match(/(?:^|[._-])([BS]\d{4,5}[A-Z]?)(?=[._-]|$)/i);
+  return match ? match[1].toUpperCase() : null;
+}
+
+// data.census.gov exports have a row of variable codes followed by a row
+// of labels ("Geography", "Estimate!!Total!!...")
+export function parseAcsCsv(text: string, id: string, file: string): AcsTable {
+  const rows = d3.csvParse(text);
+  const columns = rows.columns.filter(Boolean);
+
+  let labels: Record<string, string> | null = null;
+  if (rows[0]?.GEO_ID === "Geography") {
+    const labelRow = rows.shift()!;
+    labels = Object.fromEntries(columns.map((c) => [c, labelRow[c] ?? ""]));
+  }
+
+  return { id, file, columns, labels, rows: rows as Record<string, string>[] };
+}
+
+// Census API responses are an array of rows, the first holding the
+// variable codes
+export function parseAcsJson(text: string, id: string, file: string): AcsTable {
+  const [header, ...body] = JSON.parse(text) as (string | number | null)[][];
+  if (!Array.isArray(header)) {
+    throw new Error(`${file} is not a Census API response`);
+  }
+
+  const columns = header.map(String);
+  const rows = body.map((row) =>
+    Object.fromEntries(
+      columns.map((column, i) => [
+        column,
+        row[i] === null ? "" : String(row[i]),
+      ])
+    )
+  );
+  return { id, file, columns, labels: null, rows };
+}
+
+// Cell values as published: "1,234", "250,000+" (top-coded), "2,500-"
+// (bottom-coded) and annotations such as "(X)", "N" or "*****" that mean
+// there is no estimate. The API reports missing values as large negative
+// sentinels like -666666666.
+export function parseAcsNumber(raw: string | undefined): number {
+  const cleaned = (raw ?? "").trim().replace(/,/g, "").replace(/[+-]$/, "");
+  if (!cleaned) return NaN;
+
+  const value = Number(cleaned);
+  return isNaN(value) || value <= -222222222 ? NaN : value;
+}
+
+// Two-digit state FIPS code of a row, from GEO_ID (0400000US01) or the API's
+// "state" column. Null for rows that aren't a state-level geography.
+export function stateFipsForRow(row: Record<string, string>): string | null {
+  const geoId = row.GEO_ID ?? "";
+  if (geoId) {
+    const match = geoId.match(/^0400000US(\d{2})$/);
+    return match ? match[1] : null;
+  }
+  return row.state ? row.state.padStart(2, "0") : null;
+}
@@ -0,0 +1,173 @@
+// Build the dashboard CSV from raw ACS tables and register it as a vintage.
+//
+//   npm run ingest:acs -- --year 2024 --input data/raw/acs-2024
+//
+// The input directory holds one export per table, either the "-Data.csv"
+// file from data.census.gov (e.g. ACSST1Y2024.S2801-Data.csv) or a Census
+// API JSON response named after its table (e.g. S2801.json). Run with
+// --help for the list of tables and options.
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import * as d3 from "d3";
+import { checkDataQuality } from "@/lib/dataQuality";
+import { currentVersion, getVersion } from "@/lib/vintages";
+import { DatasetManifest, VintageSource } from "@/types";
+import {
+  AcsTable,
+  parseAcsCsv,
+  parseAcsJson,
+  tableIdFromFileName,
+} from "./acs/tables";
+import { buildDashboardRows } from "./acs/build";
+import { requiredTables } from "./acs/sources";
+
+const publicDir = path.join(process.cwd(), "public");
+const manifestPath = path.join(publicDir, "data", "vintages.json");
+const topologyPath = path.join(publicDir, "data", "states-albers-10m.json");
+
+const usage = `Usage: npm run ingest:acs -- --year <year> --input <dir> [options]
+
+Options:
+  --output <file>     CSV to write (default: public/data/acs-<year>.csv)
+  --retrieved <date>  Date the raw tables were downloaded (default: today)
+  --version <name>    Add the CSV as a named version instead of replacing
+                      the current data for the year
+  --no-manifest       Don't add the CSV to public/data/vintages.json
+  --force             Write the CSV even if validation finds errors
+  --help              Show this message
+
+Tables read from <dir>: ${requiredTables().join(", ")}`;
+
+function readTables(dir: string): AcsTable[] {
+  return fs
+    .readdirSync(dir)
+    .filter((file) => /\.(csv|json)$/i.test(file))
+    .flatMap((file) => {
+      const id = tableIdFromFileName(file);
+      if (!id) {
+        console.warn(`Skipping ${file}: no table ID in its name`);
+        return [];
+      }
+      const text = fs.readFileSync(path.join(dir, file), "utf8");
+      return [
+        file.toLowerCase().endsWith(".json")
+          ? parseAcsJson(text, id, file)
+          : parseAcsCsv(text, id, file),
+      ];
+    });
+}
+
+// Add the new file to the manifest. A previous current file for the same
+// year is tagged with a version name rather than dropped, so it stays
+// selectable in the dashboard.
+function updateManifest(entry: VintageSource) {
+  const manifest = JSON.parse(
+    fs.readFileSync(manifestPath, "utf8")
+  ) as DatasetManifest;
+
+  const version = getVersion(entry);
+  const previous = manifest.vintages.find(
+    (v) =>
+      v.year === entry.year &&
+      getVersion(v) === currentVersion &&
+      v.url !== entry.url
+  );
+  if (version === currentVersion && previous) {
+    previous.version = previous.retrieved
+      ? `retrieved ${previous.retrieved}`
+      : path.basename(previous.url, ".csv");
+  }
+
+  manifest.vintages = [
+    ...manifest.vintages.filter(
+      (v) => !(v.year === entry.year && getVersion(v) === version)
+    ),
+    entry,
+  ].sort((a, b) => (a.year ?? 0) - (b.year ?? 0));
+
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+}
+
+function main(): number {
+  const { values: args } = parseArgs({
+    options: {
+      year: { type: "string" },
+      input: { type: "string" },
+      output: { type: "string" },
+      retrieved: { type: "string" },
+      version: { type: "string" },
+      "no-manifest": { type: "boolean", default: false },
+      force: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (args.help) {
+    console.log(usage);
+    return 0;
+  }
+
+  const year = Number(args.year);
+  if (!args.input || !Number.isInteger(year)) {
+    console.error(usage);
+    return 1;
+  }
+
+  const tables = readTables(args.input);
+  const result = buildDashboardRows(tables);
+  result.warnings.forEach((warning) => console.warn(`warning: ${warning}`));
+  if (result.problems.length) {
+    result.problems.forEach((problem) => console.error(`error: ${problem}`));
+    return 1;
+  }
+
+  // Run the same checks as the /data-quality page on the output
+  const fileName = `acs-${year}.csv`;
+  const csv = d3.csvFormat(result.rows, result.columns);
+  const topology = JSON.parse(fs.readFileSync(topologyPath, "utf8"));
+  const issues = checkDataQuality(fileName, d3.csvParse(csv), topology);
+  issues.forEach((issue) =>
+    console[issue.severity === "error" ? "error" : "warn"](
+      `${issue.severity}: ${issue.stateId ?? ""} ${issue.column ?? ""} ${
+        issue.message
+      }`.replace(/\s+/g, " ")
+    )
+  );
+
+  const errorCount = issues.filter((i) => i.severity === "error").length;
+  if (errorCount && !args.force) {
+    console.error(`${errorCount} error(s); nothing written (use --force)`);
+    return 1;
+  }
+
+  const output = args.output ?? path.join(publicDir, "data", fileName);
+  const contents = csv + "\n";
+  fs.writeFileSync(output, contents);
+  console.log(`Wrote ${result.rows.length} rows to ${output}`);
+
+  // The manifest can only reference files the app serves from public/
+  const relative = path.relative(publicDir, path.resolve(output));
+  if (!args["no-manifest"]) {
+    if (relative.startsWith("..")) {
+      console.warn("Output is outside public/; the manifest was not updated");
+    } else {
+      updateManifest({
+        year,
+        url: "/" + relative.split(path.sep).join("/"),
+        version: args.version,
+        source:
+          "U.S. Census Bureau, American Community Survey 1-Year Estimates",
+        tables: requiredTables(),
+        retrieved: args.retrieved ?? new Date().toISOString().slice(0, 10),
+        license: "Public domain (U.S. Government work)",
+        sha256: createHash("sha256").update(contents).digest("hex"),
+      });
+      console.log(`Registered the ${year} vintage in ${manifestPath}`);
+    }
+  }
+  return 0;
+}
+
+process.exitCode = main();
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { queryInequality } from "@/lib/api";
+import { toApiProvenance } from "@/lib/provenance";
+import { loadVintage } from "@/lib/server/dataset";
+import { errorResponse } from "@/lib/server/http";
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const { vintage, years, version } = await loadVintage(params);
+
+    // Measures that cannot be computed (NaN) are serialized as null
+    return NextResponse.json({
+      year: vintage.year,
+      years,
+      version,
+      source: toApiProvenance(vintage),
+      data: queryInequality(vintage.data, params),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ApiQueryError,
+  decodeParam,
+  parseChoiceParam,
+  parseLimitParam,
+  rankStates,
+} from "@/lib/api";
+import { regions } from "@/lib/geography";
+import { toApiProvenance } from "@/lib/provenance";
+import { getMetrics } from "@/lib/utils";
+import { loadVintage } from "@/lib/server/dataset";
+import { errorResponse } from "@/lib/server/http";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ metric: string }> }
+) {
+  try {
+    const metric = decodeParam((await params).metric);
+    const searchParams = request.nextUrl.searchParams;
+    const { vintage } = await loadVintage(searchParams);
+
+    if (!getMetrics(vintage.data).includes(metric)) {
+      return NextResponse.json(
+        { error: `Unknown metric "${metric}"` },
+        { status: 404 }
+      );
+    }
+
+    let data = vintage.data;
+    const region = searchParams.get("region");
+    if (region) {
+      if (!regions[region]) {
+        throw new ApiQueryError(`Unknown region "${region}"`);
+      }
+      data = data.filter((d) => regions[region].includes(d.state_id));
+    }
+
+    const order = parseChoiceParam(searchParams, "order", [
+      "best",
+      "worst",
+    ] as const);
+    let ranking = rankStates(data, metric, order);
+
+    const limit = parseLimitParam(searchParams);
+    if (limit !== undefined) ranking = ranking.slice(0, limit);
+
+    return NextResponse.json({
+      year: vintage.year,
+      source: toApiProvenance(vintage),
+      metric: metric,
+      order,
+      data: ranking,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { summarizeMetrics } from "@/lib/api";
+import { toApiProvenance } from "@/lib/provenance";
+import { loadVintage } from "@/lib/server/dataset";
+import { errorResponse } from "@/lib/server/http";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { vintage, years } = await loadVintage(request.nextUrl.searchParams);
+    return NextResponse.json({
+      year: vintage.year,
+      years,
+      source: toApiProvenance(vintage),
+      data: summarizeMetrics(vintage.data),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  decodeParam,
+  findState,
+  parseFieldsParam,
+  toApiState,
+} from "@/lib/api";
+import { toApiProvenance } from "@/lib/provenance";
+import { loadVintage } from "@/lib/server/dataset";
+import { errorResponse } from "@/lib/server/http";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = decodeParam((await params).id);
+    const searchParams = request.nextUrl.searchParams;
+    const { vintage } = await loadVintage(searchParams);
+
+    const state = findState(vintage.data, id);
+    if (!state) {
+      return NextResponse.json(
+        { error: `Unknown state "${id}"` },
+        { status: 404 }
+      );
+    }
+
+    const fields = parseFieldsParam(vintage.data, searchParams);
+    return NextResponse.json({
+      year: vintage.year,
+      source: toApiProvenance(vintage),
+      data: toApiState(state, fields),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiStatesResponse } from "@/types";
+import { queryStates } from "@/lib/api";
+import { toApiProvenance } from "@/lib/provenance";
+import { loadVintage } from "@/lib/server/dataset";
+import { errorResponse } from "@/lib/server/http";
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const { vintage, years, version } = await loadVintage(params);
+    const data = queryStates(vintage.data, params);
+
+    return NextResponse.json<ApiStatesResponse>({
+      year: vintage.year,
+      years,
+      version,
+      source: toApiProvenance(vintage),
+      count: data.length,
+      data,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
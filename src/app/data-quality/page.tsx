@@ -0,0 +1,5 @@
+import DataQualityReport from "@/components/DataQualityReport";
+
+export default function DataQualityPage() {
+  return <DataQualityReport />;
+}
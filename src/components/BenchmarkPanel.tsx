@@ -0,0 +1,156 @@
+"use client";
+
+import React from "react";
+import * as d3 from "d3";
+import { Benchmark, BenchmarkKind, StateData } from "@/types";
+import { formatValue } from "@/lib/utils";
+import { formatMetricChange, getMetricLabel } from "@/lib/metrics";
+import { BenchmarkAnalysis, benchmarkKindLabels } from "@/lib/benchmarks";
+
+interface BenchmarkPanelProps {
+  metric: string;
+  metrics: string[];
+  onMetricChange: (metric: string) => void;
+  benchmark: Benchmark;
+  onBenchmarkChange: (benchmark: Benchmark) => void;
+  analysis: BenchmarkAnalysis | null;
+  selectedStates: { id: string; data: StateData }[];
+}
+
+const BenchmarkPanel: React.FC<BenchmarkPanelProps> = ({
+  metric,
+  metrics,
+  onMetricChange,
+  benchmark,
+  onBenchmarkChange,
+  analysis,
+  selectedStates,
+}) => {
+  const kinds = Object.keys(benchmarkKindLabels) as BenchmarkKind[];
+  const isSelected = (state: StateData) =>
+    selectedStates.some((s) => s.data.state_id === state.state_id);
+
+  return (
+    <div className="text-sm text-gray-800 space-y-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-1">
+          Metric:
+          <select
+            className="border border-gray-300 rounded px-1 py-0.5 text-sm"
+            value={metric}
+            onChange={(e) => onMetricChange(e.target.value)}
+          >
+            {metrics.map((m) => (
+              <option key={m} value={m}>
+                {getMetricLabel(m)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-center gap-1">
+          Target:
+          <div className="inline-flex rounded-md shadow-sm" role="group">
+            {kinds.map((kind, i) => (
+              <button
+                key={kind}
+                className={`px-2 py-0.5 text-xs font-medium border border-gray-300 ${
+                  i === 0 ? "rounded-l-lg" : "border-l-0"
+                } ${i === kinds.length - 1 ? "rounded-r-lg" : ""} ${
+                  benchmark.kind === kind
+                    ? "bg-blue-500 text-white"
+                    : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+                onClick={() => onBenchmarkChange({ ...benchmark, kind })}
+              >
+                {benchmarkKindLabels[kind]}
+              </button>
+            ))}
+          </div>
+        </div>
+        {benchmark.kind === "goal" && (
+          <label className="flex items-center gap-1">
+            Goal value:
+            <input
+              type="number"
+              value={benchmark.goal ?? ""}
+              onChange={(e) =>
+                onBenchmarkChange({
+                  ...benchmark,
+                  goal: e.target.value === "" ? null : +e.target.value,
+                })
+              }
+              className="w-24 border border-gray-300 rounded px-1 py-0.5"
+            />
+          </label>
+        )}
+      </div>
+      <div className="text-xs text-gray-600">
+        Targets are saved in this browser for each metric. The map can color
+        states by their gap, and the state bar chart lists the gap for every
+        metric.
+      </div>
+
+      {!analysis ? (
+        <div className="text-gray-600">
+          {benchmark.kind === "goal"
+            ? "Enter a goal value to measure the gaps."
+            : `No state has a value for ${getMetricLabel(metric)}.`}
+        </div>
+      ) : (
+        <>
+          <div>
+            <strong>{analysis.metCount}</strong> of {analysis.gaps.length}{" "}
+            states meet the target of{" "}
+            <strong>{formatValue(analysis.target, metric)}</strong> (
+            {benchmarkKindLabels[analysis.benchmark.kind].toLowerCase()}).
+            Median gap among the rest:{" "}
+            {formatMetricChange(
+              d3.median(
+                analysis.gaps.filter((g) => !g.met),
+                (g) => g.difference
+              ) ?? NaN,
+              metric
+            )}
+          </div>
+          <div className="max-h-[420px] overflow-y-auto space-y-1 pr-1">
+            {analysis.gaps.map((g, i) => (
+              <div
+                key={g.state.state_id}
+                className={`flex items-center gap-2 text-xs ${
+                  isSelected(g.state) ? "font-bold" : ""
+                }`}
+              >
+                <span className="w-6 text-right text-gray-500">{i + 1}</span>
+                <span className="w-32 truncate">{g.state.State}</span>
+                <div className="flex-1 h-3 bg-gray-100 rounded">
+                  <div
+                    className={`h-3 rounded ${
+                      g.met ? "bg-green-500" : "bg-red-400"
+                    }`}
+                    style={{ width: `${g.progress * 100}%` }}
+                  />
+                </div>
+                <span className="w-20 text-right">
+                  {formatValue(g.value, metric)}
+                </span>
+                <span
+                  className={`w-24 text-right ${
+                    g.met ? "text-green-700" : "text-red-700"
+                  }`}
+                >
+                  {g.met ? "Met" : formatMetricChange(g.difference, metric)}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="text-xs text-gray-500">
+            Bars show the share of the target each state has reached; states
+            furthest from the target are listed first.
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BenchmarkPanel;
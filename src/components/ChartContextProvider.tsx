@@ -0,0 +1,27 @@
+"use client";
+
+import React from "react";
+import { DataProvenance } from "@/lib/provenance";
+import { NormalizationContext, Normalizer } from "@/lib/normalization";
+import { ProvenanceContext } from "./ChartFooter";
+
+interface ChartContextProviderProps {
+  provenance: DataProvenance | null;
+  normalizer: Normalizer;
+  children: React.ReactNode;
+}
+
+// Dashboard-wide settings that every chart reads
+const ChartContextProvider: React.FC<ChartContextProviderProps> = ({
+  provenance,
+  normalizer,
+  children,
+}) => (
+  <ProvenanceContext.Provider value={provenance}>
+    <NormalizationContext.Provider value={normalizer}>
+      {children}
+    </NormalizationContext.Provider>
+  </ProvenanceContext.Provider>
+);
+
+export default ChartContextProvider;
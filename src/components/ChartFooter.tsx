@@ -0,0 +1,25 @@
+"use client";
+
+import React, { createContext, useContext } from "react";
+import { DataProvenance, formatProvenance } from "@/lib/provenance";
+
+// Provided by the dashboard so every chart can cite its data
+export const ProvenanceContext = createContext<DataProvenance | null>(null);
+
+const ChartFooter: React.FC = () => {
+  const provenance = useContext(ProvenanceContext);
+  if (!provenance) return null;
+
+  return (
+    <div className="mt-1 text-[10px] leading-tight text-gray-500">
+      {formatProvenance(provenance)}
+      {provenance.checksum === "mismatch" && (
+        <span className="ml-1 text-red-500">
+          (file does not match the checksum in its manifest)
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ChartFooter;
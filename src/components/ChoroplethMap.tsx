@@ -4,12 +4,35 @@ import React, { useEffect, useRef, useState } from "react";
 import * as d3 from "d3";
 import * as topojson from "topojson-client";
 import { StateData, TopoJSONFeature } from "@/types";
-import { getStateColor, fipsToStateMap } from "@/lib/utils";
+import { formatValue, getStateColor, stateToFipsMap } from "@/lib/utils";
+import { formatMetricChange, getMetricDefinition } from "@/lib/metrics";
+import { computeChange } from "@/lib/vintages";
+import {
+  CaribbeanInset,
+  caribbeanInsetExtent,
+  createStateMapPath,
+  fetchCaribbeanInset,
+} from "@/lib/geography";
+import { formatWithMoe, getMoe } from "@/lib/uncertainty";
+import { StateClustering } from "@/lib/stateClusters";
+import { normalizationModeLabels, useNormalizer } from "@/lib/normalization";
+import {
+  SpatialAutocorrelation,
+  lisaCategories,
+  lisaColors,
+} from "@/lib/spatial";
+import {
+  ScenarioResult,
+  scenarioColor,
+  scenarioConfidence,
+} from "@/lib/scenario";
+import { BenchmarkAnalysis } from "@/lib/benchmarks";
 import {
   chartColors,
   chartContainerClass,
   chartSvgClass,
 } from "@/lib/chartStyles";
+import ChartFooter from "./ChartFooter";
 
 interface ChoroplethMapProps {
   width?: number;
@@ -22,6 +45,12 @@ interface ChoroplethMapProps {
   multipleSelectionMode: boolean;
   toggleSelectionMode: () => void;
   clearSelection: () => void;
+  baseData?: StateData[] | null; // When set, color by change since this vintage
+  baseYear?: number;
+  clustering?: StateClustering | null; // Enables coloring states by profile
+  spatial?: SpatialAutocorrelation | null; // Enables coloring by LISA cluster
+  scenario?: ScenarioResult | null; // Previews one state's predicted values
+  benchmark?: BenchmarkAnalysis | null; // Enables coloring by gap to a target
 }
 
 const ChoroplethMap: React.FC<ChoroplethMapProps> = ({
@@ -35,9 +64,20 @@ const ChoroplethMap: React.FC<ChoroplethMapProps> = ({
   multipleSelectionMode,
   toggleSelectionMode,
   clearSelection,
+  baseData = null,
+  baseYear,
+  clustering = null,
+  spatial = null,
+  scenario = null,
+  benchmark = null,
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const zoomTransformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
+  const normalizer = useNormalizer();
+  const [insetGeo, setInsetGeo] = useState<CaribbeanInset | null>(null);
+  const [colorMode, setColorMode] = useState<
+    "metric" | "profile" | "lisa" | "gap"
+  >("metric");
   const [tooltip, setTooltip] = useState<{
     visible: boolean;
     x: number;
@@ -51,10 +91,35 @@ const ChoroplethMap: React.FC<ChoroplethMapProps> = ({
   });
 
   const dataByFips = new Map<string, StateData>();
+  const changeByFips = new Map<string, StateData>();
+
+  useEffect(() => {
+    fetchCaribbeanInset().then(setInsetGeo);
+  }, []);
 
   useEffect(() => {
     if (!data || !topoData || !svgRef.current) return;
 
+    const isClusterMode = colorMode === "profile" && !!clustering;
+    const isLisaMode =
+      colorMode === "lisa" && spatial?.metric === selectedMetric;
+    const isGapMode =
+      colorMode === "gap" && benchmark?.metric === selectedMetric;
+    const isChangeMode =
+      !!baseData && !isClusterMode && !isLisaMode && !isGapMode;
+    // Changes and gaps are shown in the metric's units; levels follow the
+    // dashboard's normalization
+    const isNormalized =
+      normalizer.mode !== "raw" && !isChangeMode && !isGapMode;
+    const mapValue = (value: number) =>
+      isNormalized ? normalizer.normalize(value, selectedMetric) : value;
+    const mapData =
+      baseData && isChangeMode ? computeChange(data, baseData) : data;
+    mapData.forEach((d) => {
+      const fips = stateToFipsMap[d.state_id];
+      if (fips) changeByFips.set(fips, d);
+    });
+
     // Populate the data map
     data.forEach((d) => {
       const stateId = d.state_id;
@@ -73,18 +138,47 @@ const ChoroplethMap: React.FC<ChoroplethMapProps> = ({
 
     const g = svg.append("g");
 
+    // The scenario state is drawn at its predicted value, on the same scale
+    const prediction =
+      isClusterMode || isLisaMode || isChangeMode || isGapMode
+        ? undefined
+        : scenario?.predictions[selectedMetric];
+    const scenarioFips = prediction && stateToFipsMap[scenario!.state.state_id];
+
     // Create color scale
-    const values = data
-      .map((d) => parseFloat(d[selectedMetric]))
+    const values = [
+      ...mapData.map((d) => d.values[selectedMetric]),
+      ...(prediction ? [prediction.predicted] : []),
+    ]
+      .map(mapValue)
       .filter((v) => !isNaN(v));
 
-    const colorScale = d3
-      .scaleQuantize<string>()
-      .domain([d3.min(values) || 0, d3.max(values) || 100])
-      .range(d3.schemeBlues[9]);
+    const colorScale = d3.scaleQuantize<string>();
+    if (isGapMode) {
+      // Diverging around the target: red short of it, blue ahead of it
+      const extent = d3.max(benchmark.gaps, (g) => Math.abs(g.gap)) || 1;
+      colorScale
+        .domain([-extent, extent])
+        .range([...d3.schemeRdBu[9]].reverse());
+    } else if (isChangeMode) {
+      // Diverging around zero, with improvement always shown in blue
+      const extent = d3.max(values, (v) => Math.abs(v)) || 1;
+      const scheme = [...d3.schemeRdBu[9]];
+      colorScale
+        .domain([-extent, extent])
+        .range(
+          getMetricDefinition(selectedMetric).direction === "higher-is-worse"
+            ? scheme.reverse()
+            : scheme
+        );
+    } else {
+      colorScale
+        .domain([d3.min(values) || 0, d3.max(values) || 100])
+        .range(d3.schemeBlues[9]);
+    }
 
     // Create path generator
-    const path = d3.geoPath();
+    const path = createStateMapPath(insetGeo);
 
     // Extract states features from topojson
     const states = topojson.feature(
@@ -92,15 +186,56 @@ const ChoroplethMap: React.FC<ChoroplethMapProps> = ({
       topoData.objects.states
     ) as unknown as { features: TopoJSONFeature[] };
 
+    // Puerto Rico and the Virgin Islands get their own projection in an
+    // inset, when the data has rows for them
+    const insetFeatures: TopoJSONFeature[] = (insetGeo?.features ?? []).filter(
+      (f) => dataByFips.has(f.id)
+    );
+
+    if (insetFeatures.length) {
+      const [[x0, y0], [x1, y1]] = caribbeanInsetExtent;
+      g.append("rect")
+        .attr("x", x0 - 5)
+        .attr("y", y0 - 15)
+        .attr("width", x1 - x0 + 10)
+        .attr("height", y1 - y0 + 20)
+        .attr("fill", "none")
+        .attr("stroke", chartColors.axis)
+        .attr("stroke-dasharray", "3,3");
+
+      g.append("text")
+        .attr("x", x0)
+        .attr("y", y0 - 4)
+        .attr("font-size", "9px")
+        .attr("fill", chartColors.text)
+        .text("Puerto Rico & USVI");
+    }
+
     // Draw states
     g.selectAll("path")
-      .data(states.features)
+      .data([...states.features, ...insetFeatures])
       .join("path")
-      .attr("d", path as any)
+      .attr("d", path)
       .attr("fill", (d) => {
-        const stateData = dataByFips.get(d.id);
+        const stateData = changeByFips.get(d.id);
         if (!stateData) return "#e5e7eb"; // Light gray for unknown states
-        const value = parseFloat(stateData[selectedMetric]);
+        if (isClusterMode) {
+          const id = clustering.assignments[stateData.state_id];
+          return id === undefined ? "#e5e7eb" : clustering.clusters[id].color;
+        }
+        if (isLisaMode) {
+          const local = spatial.byState[stateData.state_id];
+          return local ? lisaColors[local.category] : "#e5e7eb";
+        }
+        if (isGapMode) {
+          const gap = benchmark.byState[stateData.state_id];
+          return gap ? getStateColor(gap.gap, colorScale) : "#e5e7eb";
+        }
+        const value = mapValue(
+          d.id === scenarioFips
+            ? prediction!.predicted
+            : stateData.values[selectedMetric]
+        );
         return isNaN(value) ? "#e5e7eb" : getStateColor(value, colorScale);
       })
       .attr("stroke", "#ffffff")
@@ -111,7 +246,22 @@ const ChoroplethMap: React.FC<ChoroplethMapProps> = ({
       })
       .on("mouseover", (event, d) => {
         const stateData = dataByFips.get(d.id);
-        if (!stateData) return;
+        if (!stateData) {
+          // Jurisdictions on the map without a row, e.g. DC in older files
+          setTooltip({
+            visible: true,
+            x: event.pageX,
+            y: event.pageY,
+            content: (
+              <>
+                <strong>{d.properties?.name ?? d.id}</strong>
+                <br />
+                Not in the loaded dataset
+              </>
+            ),
+          });
+          return;
+        }
 
         setTooltip({
           visible: true,
@@ -121,7 +271,73 @@ const ChoroplethMap: React.FC<ChoroplethMapProps> = ({
             <>
               <strong>{stateData.State}</strong>
               <br />
-              <strong>{selectedMetric}:</strong> {stateData[selectedMetric]}
+              <strong>{selectedMetric}:</strong>{" "}
+              {formatWithMoe(
+                stateData.values[selectedMetric],
+                getMoe(stateData, selectedMetric),
+                selectedMetric
+              )}
+              {isNormalized && (
+                <>
+                  <br />
+                  <strong>
+                    {normalizationModeLabels[normalizer.mode]}:
+                  </strong>{" "}
+                  {normalizer.format(
+                    mapValue(stateData.values[selectedMetric])
+                  )}
+                </>
+              )}
+              {clustering && stateData.state_id in clustering.assignments && (
+                <>
+                  <br />
+                  <strong>Profile:</strong>{" "}
+                  {
+                    clustering.clusters[
+                      clustering.assignments[stateData.state_id]
+                    ].label
+                  }
+                </>
+              )}
+              {isLisaMode && stateData.state_id in spatial.byState && (
+                <>
+                  <br />
+                  <strong>LISA:</strong>{" "}
+                  {spatial.byState[stateData.state_id].category}
+                </>
+              )}
+              {isGapMode && stateData.state_id in benchmark.byState && (
+                <>
+                  <br />
+                  <strong>Gap to {benchmark.label}:</strong>{" "}
+                  {benchmark.byState[stateData.state_id].met
+                    ? "Met"
+                    : formatMetricChange(
+                        benchmark.byState[stateData.state_id].difference,
+                        selectedMetric
+                      )}
+                </>
+              )}
+              {d.id === scenarioFips && (
+                <>
+                  <br />
+                  <strong>Scenario:</strong>{" "}
+                  {formatValue(prediction!.predicted, selectedMetric)} (
+                  {d3.format(".0%")(scenarioConfidence)} range{" "}
+                  {formatValue(prediction!.low, selectedMetric)} –{" "}
+                  {formatValue(prediction!.high, selectedMetric)})
+                </>
+              )}
+              {isChangeMode && (
+                <>
+                  <br />
+                  <strong>Change since {baseYear}:</strong>{" "}
+                  {formatMetricChange(
+                    changeByFips.get(d.id)?.values[selectedMetric] ?? NaN,
+                    selectedMetric
+                  )}
+                </>
+              )}
             </>
           ),
         });
@@ -143,6 +359,30 @@ const ChoroplethMap: React.FC<ChoroplethMapProps> = ({
         onStateSelect(d.id, stateData);
       });
 
+    // Hatch the scenario state so the prediction isn't mistaken for data
+    const scenarioFeature = states.features.find((f) => f.id === scenarioFips);
+    if (scenarioFeature) {
+      svg
+        .append("defs")
+        .append("pattern")
+        .attr("id", "scenario-hatch")
+        .attr("patternUnits", "userSpaceOnUse")
+        .attr("width", 6)
+        .attr("height", 6)
+        .attr("patternTransform", "rotate(45)")
+        .append("line")
+        .attr("y2", 6)
+        .attr("stroke", scenarioColor)
+        .attr("stroke-width", 1.5);
+      g.append("path")
+        .attr("d", path(scenarioFeature))
+        .attr("fill", "url(#scenario-hatch)")
+        .attr("stroke", scenarioColor)
+        .attr("stroke-width", 2)
+        .attr("stroke-dasharray", "4,2")
+        .attr("pointer-events", "none");
+    }
+
     // Create zoom behavior
     const zoom = d3
       .zoom<SVGSVGElement, unknown>()
@@ -254,6 +494,55 @@ const ChoroplethMap: React.FC<ChoroplethMapProps> = ({
       zoomTransformRef.current = initialTransform;
     }
 
+    // Profiles get one swatch each instead of the value scale
+    if (isClusterMode) {
+      const legend = svg
+        .append("g")
+        .attr("class", "legend")
+        .attr("transform", `translate(30,${height - 20})`);
+      clustering.clusters.forEach((cluster, i) => {
+        legend
+          .append("rect")
+          .attr("x", i * 80)
+          .attr("width", 10)
+          .attr("height", 10)
+          .attr("fill", cluster.color);
+        legend
+          .append("text")
+          .attr("x", i * 80 + 14)
+          .attr("y", 9)
+          .attr("fill", chartColors.text)
+          .style("font-size", "11px")
+          .text(cluster.label);
+      });
+      return;
+    }
+
+    if (isLisaMode) {
+      const legend = svg
+        .append("g")
+        .attr("class", "legend")
+        .attr("transform", `translate(30,${height - 20})`);
+      lisaCategories.forEach((category, i) => {
+        legend
+          .append("rect")
+          .attr("x", i * 110)
+          .attr("width", 10)
+          .attr("height", 10)
+          .attr("fill", lisaColors[category])
+          .attr("stroke", chartColors.axis)
+          .attr("stroke-width", 0.5);
+        legend
+          .append("text")
+          .attr("x", i * 110 + 14)
+          .attr("y", 9)
+          .attr("fill", chartColors.text)
+          .style("font-size", "11px")
+          .text(category);
+      });
+      return;
+    }
+
     // Create legend
     const legendHeight = 20;
     const legendWidth = 300;
@@ -299,9 +588,62 @@ const ChoroplethMap: React.FC<ChoroplethMapProps> = ({
       .select(".domain")
       .remove();
 
+    if (isGapMode) {
+      legend
+        .append("text")
+        .attr("x", legendWidth / 2)
+        .attr("y", -4)
+        .attr("text-anchor", "middle")
+        .style("font-size", "11px")
+        .text(`Shortfall from ${benchmark.label}`);
+    }
+
+    if (isChangeMode) {
+      legend
+        .append("text")
+        .attr("x", legendWidth / 2)
+        .attr("y", -4)
+        .attr("text-anchor", "middle")
+        .style("font-size", "11px")
+        .text(`Change since ${baseYear}`);
+    }
+
+    if (isNormalized) {
+      legend
+        .append("text")
+        .attr("x", legendWidth / 2)
+        .attr("y", -4)
+        .attr("text-anchor", "middle")
+        .style("font-size", "11px")
+        .text(normalizer.axisLabel);
+    }
+
+    if (scenarioFeature) {
+      legend
+        .append("text")
+        .attr("x", legendWidth + 10)
+        .attr("y", 9)
+        .style("font-size", "11px")
+        .text(`Hatched: scenario for ${scenario!.state.State}`);
+    }
+
     // Ensure legend text is visible
     legend.selectAll("text").attr("fill", chartColors.text);
-  }, [data, topoData, selectedMetric, selectedStates]);
+  }, [
+    data,
+    topoData,
+    selectedMetric,
+    selectedStates,
+    baseData,
+    baseYear,
+    insetGeo,
+    clustering,
+    spatial,
+    scenario,
+    benchmark,
+    colorMode,
+    normalizer,
+  ]);
 
   return (
     <div className="relative bg-white p-4 rounded border border-gray-200">
@@ -318,6 +660,34 @@ const ChoroplethMap: React.FC<ChoroplethMapProps> = ({
         >
           Clear Selection
         </button>
+        {clustering && (
+          <button
+            onClick={() =>
+              setColorMode(colorMode === "profile" ? "metric" : "profile")
+            }
+            className="px-2 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+          >
+            {colorMode === "profile" ? "Color by Metric" : "Color by Profile"}
+          </button>
+        )}
+        {spatial && (
+          <button
+            onClick={() =>
+              setColorMode(colorMode === "lisa" ? "metric" : "lisa")
+            }
+            className="px-2 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+          >
+            {colorMode === "lisa" ? "Color by Metric" : "Color by LISA Cluster"}
+          </button>
+        )}
+        {benchmark && (
+          <button
+            onClick={() => setColorMode(colorMode === "gap" ? "metric" : "gap")}
+            className="px-2 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+          >
+            {colorMode === "gap" ? "Color by Metric" : "Color by Gap to Target"}
+          </button>
+        )}
       </div>
 
       <svg
@@ -327,6 +697,8 @@ const ChoroplethMap: React.FC<ChoroplethMapProps> = ({
         className={chartSvgClass}
       />
 
+      <ChartFooter />
+
       {tooltip.visible && (
         <div
           className="absolute bg-white border border-gray-300 rounded p-2 shadow-md text-sm pointer-events-none z-10 text-gray-800"
@@ -342,12 +714,4 @@ const ChoroplethMap: React.FC<ChoroplethMapProps> = ({
   );
 };
 
-// Convert FIPS to state abbreviation map to state abbreviation to FIPS map
-const stateToFipsMap: Record<string, string> = Object.entries(
-  fipsToStateMap
-).reduce((acc, [fips, state]) => {
-  acc[state] = fips;
-  return acc;
-}, {} as Record<string, string>);
-
 export default ChoroplethMap;
@@ -0,0 +1,182 @@
+"use client";
+
+import React, { useMemo } from "react";
+import * as d3 from "d3";
+import { ClusterMethod, ClusterSettings, StateData } from "@/types";
+import { getMetricLabel } from "@/lib/metrics";
+import {
+  StateClustering,
+  centroidsAsStates,
+  clusterMethodLabels,
+  silhouetteByK,
+} from "@/lib/stateClusters";
+import RadarChart from "./RadarChart";
+
+interface ClusterPanelProps {
+  data: StateData[];
+  metrics: string[];
+  settings: ClusterSettings;
+  onSettingsChange: (settings: ClusterSettings) => void;
+  clustering: StateClustering | null;
+}
+
+const ClusterPanel: React.FC<ClusterPanelProps> = ({
+  data,
+  metrics,
+  settings,
+  onSettingsChange,
+  clustering,
+}) => {
+  const candidates = useMemo(
+    () => silhouetteByK(data, settings.metrics, settings.method),
+    [data, settings.metrics, settings.method]
+  );
+  const bestK = d3.greatest(candidates, (c) => c.silhouette)?.k;
+
+  const centroids = useMemo(
+    () => (clustering ? centroidsAsStates(clustering) : []),
+    [clustering]
+  );
+
+  const toggleMetric = (metric: string) => {
+    onSettingsChange({
+      ...settings,
+      metrics: settings.metrics.includes(metric)
+        ? settings.metrics.filter((m) => m !== metric)
+        : [...settings.metrics, metric],
+    });
+  };
+
+  return (
+    <div className="text-sm text-gray-800 space-y-3">
+      <div>
+        <h3 className="text-base font-medium mb-1">Clustering Metrics</h3>
+        <div className="flex flex-wrap gap-1">
+          {metrics.map((metric) => (
+            <div
+              key={metric}
+              className={`px-2 py-0.5 text-xs border rounded cursor-pointer ${
+                settings.metrics.includes(metric)
+                  ? "bg-blue-100 border-blue-300 text-blue-800"
+                  : "bg-gray-100 border-gray-300 hover:bg-gray-200 text-gray-800"
+              }`}
+              onClick={() => toggleMetric(metric)}
+            >
+              {getMetricLabel(metric)}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-1">
+          Method:
+          <select
+            value={settings.method}
+            onChange={(e) =>
+              onSettingsChange({
+                ...settings,
+                method: e.target.value as ClusterMethod,
+              })
+            }
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            {Object.entries(clusterMethodLabels).map(([method, label]) => (
+              <option key={method} value={method}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-center gap-1">
+          Clusters:
+          <div className="inline-flex rounded-md shadow-sm" role="group">
+            {candidates.map((c, i) => (
+              <button
+                key={c.k}
+                className={`px-2 py-0.5 text-xs font-medium border border-gray-300 ${
+                  i === 0 ? "rounded-l-lg" : "border-l-0"
+                } ${i === candidates.length - 1 ? "rounded-r-lg" : ""} ${
+                  settings.k === c.k
+                    ? "bg-blue-500 text-white"
+                    : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+                onClick={() => onSettingsChange({ ...settings, k: c.k })}
+                title={`Mean silhouette ${d3.format(".2f")(c.silhouette)}`}
+              >
+                {c.k}
+                <span className="ml-1 opacity-75">
+                  ({d3.format(".2f")(c.silhouette)})
+                </span>
+                {c.k === bestK && " ★"}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="text-xs text-gray-600">
+        Metrics are standardized to z-scores so each counts equally. The number
+        after each choice of k is its mean silhouette score, from -1 to 1;
+        higher means states sit more clearly in their own profile. ★ marks the
+        best score.
+      </div>
+
+      {!clustering ? (
+        <div className="text-gray-600">
+          Choose at least one metric, with more states than clusters, to build
+          profiles.
+        </div>
+      ) : (
+        <div className="flex flex-col lg:flex-row gap-3">
+          <div className="lg:w-1/2">
+            <RadarChart
+              statesData={centroids}
+              metrics={settings.metrics}
+              title={`Profile Centroids: ${centroids.length} Profiles`}
+              width={500}
+              height={420}
+            />
+          </div>
+          <div className="lg:w-1/2 space-y-2">
+            <div>
+              Mean silhouette:{" "}
+              <strong>{d3.format(".2f")(clustering.silhouette)}</strong>
+            </div>
+            {clustering.clusters.map((cluster) => (
+              <div
+                key={cluster.id}
+                className="border border-gray-200 rounded px-2 py-1"
+              >
+                <div className="flex items-center gap-2 font-medium">
+                  <span
+                    className="inline-block w-3 h-3 rounded-sm"
+                    style={{ backgroundColor: cluster.color }}
+                  />
+                  {cluster.label}
+                  <span className="text-xs font-normal text-gray-500">
+                    {cluster.states.length} states · silhouette{" "}
+                    {d3.format(".2f")(cluster.silhouette)}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-700">
+                  {cluster.states
+                    .map((s) => s.State)
+                    .sort()
+                    .join(", ")}
+                </div>
+              </div>
+            ))}
+            {clustering.unclustered.length > 0 && (
+              <div className="text-xs text-gray-500">
+                Not clustered (missing a metric):{" "}
+                {clustering.unclustered.map((s) => s.State).join(", ")}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClusterPanel;
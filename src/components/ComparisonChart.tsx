@@ -3,12 +3,20 @@
 import React, { useEffect, useRef, useState } from "react";
 import * as d3 from "d3";
 import { StateData } from "@/types";
-import { formatValue } from "@/lib/utils";
+import { formatValue, getMetrics } from "@/lib/utils";
+import {
+  formatMetricChange,
+  getMetricLabel,
+  isChartScaled,
+} from "@/lib/metrics";
+import { normalizationModeLabels, useNormalizer } from "@/lib/normalization";
+import { compareEstimates, formatWithMoe, getMoe } from "@/lib/uncertainty";
 import {
   chartColors,
   chartContainerClass,
   chartSvgClass,
 } from "@/lib/chartStyles";
+import ChartFooter from "./ChartFooter";
 
 interface ComparisonChartProps {
   width?: number;
@@ -28,6 +36,8 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({
   simpleMode = false,
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const normalizer = useNormalizer();
+  const isRaw = normalizer.mode === "raw";
   const [tooltip, setTooltip] = useState<{
     visible: boolean;
     x: number;
@@ -43,32 +53,14 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({
   // Function to shorten metric names for display
   const shortenMetricName = (metricName: string): string => {
     if (metricName.length <= 20 || simpleMode) return metricName;
-
-    const shortenedMap: Record<string, string> = {
-      "% Households Without Computer": "% No Computer",
-      "% Smartphone-Only Households": "% Smartphone-Only",
-      "% Households with Broadband": "% With Broadband",
-      "% Households Using Internet at Home": "% Use Internet at Home",
-      "% Without High School Diploma": "% No HS Diploma",
-      "% With Bachelor's or Higher": "% Bachelor's+",
-      "% School-Age (5–17) No Internet": "% School-Age No Internet",
-      "% School-Age (5–17) Not Enrolled": "% School-Age Not Enrolled",
-      "Median Household Income": "Median HH Income",
-      "% Below Poverty Line": "% Below Poverty",
-      "Unemployment Rate (%)": "Unemployment %",
-      "% With Public Assistance": "% Public Assistance",
-    };
-
-    return shortenedMap[metricName] || metricName.substring(0, 17) + "...";
+    return getMetricLabel(metricName);
   };
 
   const drawGroupedBarChart = () => {
     if (!statesData.length || !svgRef.current) return;
 
     // Extract metrics for display (either all or top 5 in simple mode)
-    const allMetrics = Object.keys(statesData[0]).filter(
-      (key) => !["Geo_ID", "State", "state_id"].includes(key)
-    );
+    const allMetrics = getMetrics(statesData);
 
     const metricsToShow = simpleMode
       ? allMetrics.slice(0, 3) // Show only top 3 in simple mode
@@ -100,23 +92,23 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({
       .range([0, xScale.bandwidth()])
       .padding(0.05);
 
-    // Find max value for y scale
-    const maxValue =
-      d3.max(
-        statesData.flatMap((state) =>
-          metricsToShow.map((metric) => {
-            // Special handling for income
-            if (metric === "Median Household Income") {
-              return parseFloat(state[metric]) / 1000; // Scale down income
-            }
-            return parseFloat(state[metric]);
-          })
-        )
-      ) || 0;
+    // Find the value range for the y scale, including the error bars.
+    // Z-scores can be negative, so bars grow from zero.
+    const extremes = statesData.flatMap((state) =>
+      metricsToShow.flatMap((metric) => {
+        const moe = getMoe(state, metric) || 0;
+        return [
+          normalizer.chartValue(state.values[metric] + moe, metric),
+          normalizer.chartValue(state.values[metric] - moe, metric),
+        ];
+      })
+    );
+    const maxValue = d3.max(extremes) || 0;
+    const minValue = isRaw ? 0 : Math.min(0, d3.min(extremes) || 0);
 
     const yScale = d3
       .scaleLinear()
-      .domain([0, maxValue * 1.1]) // Add 10% padding
+      .domain([minValue * 1.1, maxValue * 1.1]) // Add 10% padding
       .range([height - margin.bottom, margin.top]);
 
     // Color scale for states
@@ -156,28 +148,55 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({
       .attr("class", "metric-group")
       .attr("transform", (d) => `translate(${xScale(d)},0)`);
 
+    // With exactly two states, test each gap against the margins of error
+    const comparisons = new Map(
+      statesData.length === 2
+        ? metricsToShow.map((metric) => [
+            metric,
+            compareEstimates(statesData[0], statesData[1], metric),
+          ])
+        : []
+    );
+
+    const barData = (metric: string) =>
+      statesData.map((state) => ({
+        state: state.State,
+        metric,
+        value: normalizer.chartValue(state.values[metric], metric),
+        // Ends of the 90% interval, normalized like the value
+        low: normalizer.chartValue(
+          state.values[metric] - getMoe(state, metric),
+          metric
+        ),
+        high: normalizer.chartValue(
+          state.values[metric] + getMoe(state, metric),
+          metric
+        ),
+        displayValue: state.values[metric],
+        displayMoe: getMoe(state, metric),
+        isScaled: isRaw && isChartScaled(metric),
+      }));
+
     bars
       .selectAll(".bar")
-      .data((metric) =>
-        statesData.map((state) => ({
-          state: state.State,
-          metric,
-          value:
-            metric === "Median Household Income"
-              ? parseFloat(state[metric]) / 1000 // Scale down income
-              : parseFloat(state[metric]),
-          displayValue: state[metric],
-          isIncome: metric === "Median Household Income",
-        }))
-      )
+      .data(barData)
       .join("rect")
       .attr("class", "bar")
       .attr("x", (d) => stateScale(d.state) || 0)
-      .attr("y", (d) => yScale(d.value))
+      .attr("y", (d) => yScale(Math.max(0, d.value)))
       .attr("width", stateScale.bandwidth())
-      .attr("height", (d) => height - margin.bottom - yScale(d.value))
+      .attr("height", (d) => Math.abs(yScale(0) - yScale(d.value)))
       .attr("fill", (d) => colorScale(d.state))
       .on("mouseover", (event, d) => {
+        // Differences are reported from the hovered state's point of view
+        const pairComparison = comparisons.get(d.metric);
+        const isFirst = d.state === statesData[0].State;
+        const otherState = statesData[isFirst ? 1 : 0]?.State;
+        const comparison = pairComparison && {
+          ...pairComparison,
+          difference: (isFirst ? 1 : -1) * pairComparison.difference,
+        };
+
         setTooltip({
           visible: true,
           x: event.pageX,
@@ -187,8 +206,26 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({
               <strong>{d.state}</strong>
               <br />
               <strong>{d.metric}:</strong>{" "}
-              {formatValue(d.displayValue, d.metric)}
-              {d.isIncome && (
+              {isNaN(d.displayMoe)
+                ? formatValue(d.displayValue, d.metric)
+                : formatWithMoe(d.displayValue, d.displayMoe, d.metric)}
+              {!isRaw && (
+                <div className="text-xs">
+                  {normalizationModeLabels[normalizer.mode]}:{" "}
+                  {normalizer.format(d.value)}
+                </div>
+              )}
+              {comparison && (
+                <div className="text-xs">
+                  {`Difference vs ${otherState}: ${formatMetricChange(
+                    comparison.difference,
+                    d.metric
+                  )} (${
+                    comparison.significant ? "significant" : "not significant"
+                  } at 90%)`}
+                </div>
+              )}
+              {d.isScaled && (
                 <div className="text-xs italic">
                   (scaled in chart for comparison)
                 </div>
@@ -211,6 +248,49 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({
         onMetricSelect(d.metric);
       });
 
+    // Draw 90% confidence intervals as whiskers
+    bars
+      .selectAll(".error-bar")
+      .data((metric) => barData(metric).filter((d) => !isNaN(d.high)))
+      .join("line")
+      .attr("class", "error-bar")
+      .attr(
+        "x1",
+        (d) => (stateScale(d.state) || 0) + stateScale.bandwidth() / 2
+      )
+      .attr(
+        "x2",
+        (d) => (stateScale(d.state) || 0) + stateScale.bandwidth() / 2
+      )
+      .attr("y1", (d) => yScale(isRaw ? Math.max(0, d.low) : d.low))
+      .attr("y2", (d) => yScale(d.high))
+      .attr("stroke", chartColors.text)
+      .attr("stroke-width", 1)
+      .attr("pointer-events", "none");
+
+    // Mark whether the two states differ beyond sampling error
+    bars
+      .filter((metric) => !!comparisons.get(metric))
+      .append("text")
+      .attr("class", "significance")
+      .attr("x", xScale.bandwidth() / 2)
+      .attr("y", (metric) => {
+        const top = d3.max(barData(metric), (d) =>
+          isNaN(d.high) ? d.value : d.high
+        );
+        return yScale(top || 0) - 6;
+      })
+      .attr("text-anchor", "middle")
+      .attr("font-size", "10px")
+      .attr("fill", (metric) =>
+        comparisons.get(metric)!.significant
+          ? chartColors.accent2
+          : chartColors.axis
+      )
+      .text((metric) =>
+        comparisons.get(metric)!.significant ? "≠ significant" : "≈ n.s."
+      );
+
     // Add legend if not in simple mode
     if (!simpleMode) {
       const legend = svg
@@ -259,13 +339,15 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({
         .attr("text-anchor", "middle")
         .attr("font-size", "12px")
         .attr("fill", chartColors.text)
-        .text("Value");
+        .text(normalizer.axisLabel);
     }
   };
 
   useEffect(() => {
     drawGroupedBarChart();
-  }, [statesData, currentMetric, width, height, simpleMode]);
+  }, [statesData, currentMetric, width, height, simpleMode, normalizer]);
+
+  const hasAnyMoe = statesData.some((s) => Object.keys(s.moe).length > 0);
 
   if (!statesData.length) {
     return (
@@ -287,6 +369,14 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({
         className={chartSvgClass}
       />
 
+      {!hasAnyMoe && (
+        <div className="mt-1 text-xs text-gray-500">
+          This dataset has no margins of error, so the differences shown are not
+          tested for significance.
+        </div>
+      )}
+      <ChartFooter />
+
       {tooltip.visible && (
         <div
           className="absolute bg-white border border-gray-300 rounded p-2 shadow-md text-sm pointer-events-none z-10 text-gray-800"
@@ -0,0 +1,357 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import * as d3 from "d3";
+import {
+  CompositeIndex,
+  IndexNormalization,
+  MetricDirection,
+  StateData,
+} from "@/types";
+import {
+  componentLabel,
+  computeCompositeIndex,
+  defaultCompositeIndex,
+  normalizationLabels,
+  validateCompositeIndex,
+} from "@/lib/compositeIndex";
+import { formatValue, getMetrics } from "@/lib/utils";
+import { getMetricDefinition, getMetricLabel } from "@/lib/metrics";
+import { chartColors } from "@/lib/chartStyles";
+
+interface CompositeIndexBuilderProps {
+  data: StateData[];
+  compositeIndex: CompositeIndex | null;
+  onChange: (index: CompositeIndex | null) => void;
+  onClose: () => void;
+}
+
+const CompositeIndexBuilder: React.FC<CompositeIndexBuilderProps> = ({
+  data,
+  compositeIndex,
+  onChange,
+  onClose,
+}) => {
+  // The applied index is one of the data's columns; it can't be its own
+  // component
+  const columns = useMemo(
+    () => getMetrics(data).filter((c) => c !== compositeIndex?.name),
+    [data, compositeIndex]
+  );
+  const [draft, setDraft] = useState<CompositeIndex>(
+    () => compositeIndex ?? defaultCompositeIndex(columns)
+  );
+  const [expandedState, setExpandedState] = useState<string | null>(null);
+
+  // Offer every column, keeping the draft's settings for those it has
+  useEffect(() => {
+    setDraft((prev) => ({
+      ...prev,
+      components: columns.map(
+        (metric) =>
+          prev.components.find((c) => c.metric === metric) ?? {
+            metric,
+            weight: 0,
+            direction: getMetricDefinition(metric).direction,
+          }
+      ),
+    }));
+  }, [columns]);
+
+  const error = validateCompositeIndex(draft, columns);
+  const scores = useMemo(
+    () => (error ? [] : computeCompositeIndex(data, draft)),
+    [data, draft, error]
+  );
+
+  const active = draft.components.filter((c) => c.weight > 0);
+  const totalWeight = d3.sum(active, (c) => c.weight);
+  const componentColor = d3
+    .scaleOrdinal<string>()
+    .domain(active.map((c) => c.metric))
+    .range(chartColors.colorScale);
+
+  // Bars share one scale so lengths are comparable across states
+  const maxTotal =
+    d3.max(scores, (s) =>
+      Math.max(
+        d3.sum(Object.values(s.contributions), (v) => Math.max(v, 0)),
+        d3.sum(Object.values(s.contributions), (v) => Math.max(-v, 0))
+      )
+    ) || 1;
+  const diverging = draft.normalization === "z-score";
+
+  const updateComponent = (
+    metric: string,
+    change: { weight?: number; direction?: MetricDirection }
+  ) => {
+    setDraft({
+      ...draft,
+      components: draft.components.map((c) =>
+        c.metric === metric ? { ...c, ...change } : c
+      ),
+    });
+  };
+
+  const renderBar = (contributions: Record<string, number>, sign: number) =>
+    active
+      .filter((c) => sign * contributions[c.metric] > 0)
+      .map((c) => (
+        <div
+          key={c.metric}
+          style={{
+            width: `${
+              ((sign * contributions[c.metric]) / maxTotal) *
+              (diverging ? 50 : 100)
+            }%`,
+            backgroundColor: componentColor(c.metric),
+          }}
+          title={`${componentLabel(c.metric, c.direction)}: ${d3.format("+.2f")(
+            contributions[c.metric]
+          )}`}
+        />
+      ));
+
+  return (
+    <div className="bg-white p-3 rounded-lg border border-gray-200 shadow text-sm text-gray-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold">Composite Index</h2>
+        <button
+          onClick={onClose}
+          className="px-2 py-1 text-sm bg-gray-500 text-white rounded hover:bg-gray-600"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="grid gap-2 md:grid-cols-2">
+        <label className="flex flex-col gap-1">
+          <span className="font-medium">Name</span>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="border border-gray-300 rounded px-1 py-0.5"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-medium">Normalization</span>
+          <select
+            value={draft.normalization}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                normalization: e.target.value as IndexNormalization,
+              })
+            }
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            {Object.entries(normalizationLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <table className="w-full border border-gray-300">
+        <thead className="bg-gray-100">
+          <tr>
+            <th className="p-1 text-left">Component</th>
+            <th className="p-1 text-left">Direction</th>
+            <th className="p-1 text-left">Weight</th>
+            <th className="p-1 text-right">Share</th>
+          </tr>
+        </thead>
+        <tbody>
+          {draft.components.map((c) => (
+            <tr
+              key={c.metric}
+              className={`border-t border-gray-200 ${
+                c.weight > 0 ? "" : "text-gray-400"
+              }`}
+            >
+              <td className="p-1">
+                {c.weight > 0 && (
+                  <span
+                    className="inline-block w-2 h-2 mr-1 rounded-sm"
+                    style={{ backgroundColor: componentColor(c.metric) }}
+                  />
+                )}
+                {getMetricLabel(c.metric)}
+              </td>
+              <td className="p-1">
+                <select
+                  value={c.direction}
+                  onChange={(e) =>
+                    updateComponent(c.metric, {
+                      direction: e.target.value as MetricDirection,
+                    })
+                  }
+                  className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+                >
+                  <option value="higher-is-better">Counts for</option>
+                  <option value="higher-is-worse">Counts against</option>
+                </select>
+              </td>
+              <td className="p-1">
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={c.weight}
+                  onChange={(e) =>
+                    updateComponent(c.metric, {
+                      weight: Math.max(0, Number(e.target.value) || 0),
+                    })
+                  }
+                  className="w-16 border border-gray-300 rounded px-1 py-0.5"
+                />
+              </td>
+              <td className="p-1 text-right">
+                {c.weight > 0 && totalWeight
+                  ? d3.format(".0%")(c.weight / totalWeight)
+                  : "–"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="text-xs text-gray-600">
+        Each component is normalized across states and oriented so that higher
+        is better, then combined as a weighted average. Higher index scores mean
+        better digital access. States missing any component are not scored.
+      </div>
+
+      {error && <div className="text-red-500">{error}</div>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onChange({ ...draft, name: draft.name.trim() })}
+          disabled={!!error}
+          className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+        >
+          {compositeIndex ? "Update Index" : "Add Index"}
+        </button>
+        {compositeIndex && (
+          <button
+            onClick={() => onChange(null)}
+            className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600"
+          >
+            Remove Index
+          </button>
+        )}
+      </div>
+
+      {scores.length > 0 && (
+        <div>
+          <h3 className="text-base font-medium mb-1">Rankings</h3>
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full border border-gray-300">
+              <thead className="bg-gray-100 sticky top-0">
+                <tr>
+                  <th className="p-1 text-right">Rank</th>
+                  <th className="p-1 text-left">State</th>
+                  <th className="p-1 text-right">Index</th>
+                  <th className="p-1 text-left w-1/2">Contributions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scores.map((s) => (
+                  <React.Fragment key={s.state.state_id}>
+                    <tr
+                      className="border-t border-gray-200 cursor-pointer hover:bg-gray-50"
+                      onClick={() =>
+                        setExpandedState(
+                          expandedState === s.state.state_id
+                            ? null
+                            : s.state.state_id
+                        )
+                      }
+                    >
+                      <td className="p-1 text-right">{s.rank ?? "–"}</td>
+                      <td className="p-1">{s.state.State}</td>
+                      <td className="p-1 text-right">
+                        {isNaN(s.value) ? "N/A" : d3.format(".1f")(s.value)}
+                      </td>
+                      <td className="p-1">
+                        {!isNaN(s.value) && (
+                          <div className="flex h-3">
+                            {diverging && (
+                              <div className="flex w-1/2 justify-end">
+                                {renderBar(s.contributions, -1).reverse()}
+                              </div>
+                            )}
+                            <div
+                              className={`flex ${
+                                diverging
+                                  ? "w-1/2 border-l border-gray-400"
+                                  : "w-full"
+                              }`}
+                            >
+                              {renderBar(s.contributions, 1)}
+                            </div>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedState === s.state.state_id && (
+                      <tr className="bg-gray-50">
+                        <td />
+                        <td colSpan={3} className="p-1">
+                          <table className="w-full text-xs">
+                            <thead>
+                              <tr className="text-gray-600">
+                                <th className="text-left">Component</th>
+                                <th className="text-right">Value</th>
+                                <th className="text-right">Score</th>
+                                <th className="text-right">Contribution</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {active.map((c) => (
+                                <tr key={c.metric}>
+                                  <td>
+                                    {componentLabel(c.metric, c.direction)}
+                                  </td>
+                                  <td className="text-right">
+                                    {formatValue(
+                                      s.state.values[c.metric],
+                                      c.metric
+                                    )}
+                                  </td>
+                                  <td className="text-right">
+                                    {isNaN(s.scores[c.metric])
+                                      ? "N/A"
+                                      : d3.format(".1f")(s.scores[c.metric])}
+                                  </td>
+                                  <td className="text-right">
+                                    {isNaN(s.contributions[c.metric])
+                                      ? "N/A"
+                                      : d3.format("+.2f")(
+                                          s.contributions[c.metric]
+                                        )}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-1 text-xs text-gray-500">
+            Click a state to see how each component adds to its score.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompositeIndexBuilder;
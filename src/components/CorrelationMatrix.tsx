@@ -0,0 +1,305 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import * as d3 from "d3";
+import { CorrelationMethod, StateData } from "@/types";
+import { getMetricLabel } from "@/lib/metrics";
+import {
+  computeCorrelationMatrix,
+  correlationMethodLabels,
+  getCorrelationDrivers,
+  orderCorrelationMatrix,
+} from "@/lib/correlation";
+import { formatPValue } from "@/lib/statistics";
+import { chartColors, chartSvgClass } from "@/lib/chartStyles";
+import ChartFooter from "./ChartFooter";
+
+type MatrixOrder = "clustered" | "original";
+
+interface CorrelationMatrixProps {
+  width?: number;
+  height?: number;
+  statesData: StateData[];
+  metrics: string[];
+  selectedMetric?: string;
+  // Called with the metric to map, the other metric of the pair and the
+  // states that drive their relationship
+  onCellSelect?: (metric: string, other: string, states: StateData[]) => void;
+}
+
+const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({
+  width = 700,
+  height = 600,
+  statesData,
+  metrics,
+  selectedMetric,
+  onCellSelect,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [method, setMethod] = useState<CorrelationMethod>("pearson");
+  const [order, setOrder] = useState<MatrixOrder>("clustered");
+  const [tooltip, setTooltip] = useState<{
+    visible: boolean;
+    x: number;
+    y: number;
+    content: React.ReactNode;
+  }>({
+    visible: false,
+    x: 0,
+    y: 0,
+    content: null,
+  });
+
+  const matrix = useMemo(() => {
+    const computed = computeCorrelationMatrix(statesData, metrics, method);
+    return order === "clustered" ? orderCorrelationMatrix(computed) : computed;
+  }, [statesData, metrics, method, order]);
+
+  useEffect(() => {
+    if (!matrix.metrics.length || !svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+    svg.attr("style", "background-color: white;");
+
+    const margin = { top: 130, right: 70, bottom: 10, left: 150 };
+    const n = matrix.metrics.length;
+    const cellSize = Math.max(
+      4,
+      Math.min(
+        (width - margin.left - margin.right) / n,
+        (height - margin.top - margin.bottom) / n
+      )
+    );
+    const size = cellSize * n;
+
+    const color = d3.scaleSequential(d3.interpolateRdBu).domain([-1, 1]);
+    const g = svg
+      .append("g")
+      .attr("transform", `translate(${margin.left}, ${margin.top})`);
+
+    // Row and column labels; the mapped metric is shown in bold
+    const labelWeight = (metric: string) =>
+      metric === selectedMetric ? "bold" : "normal";
+
+    g.selectAll(".row-label")
+      .data(matrix.metrics)
+      .join("text")
+      .attr("class", "row-label")
+      .attr("x", -6)
+      .attr("y", (_, i) => i * cellSize + cellSize / 2)
+      .attr("text-anchor", "end")
+      .attr("dominant-baseline", "middle")
+      .attr("font-size", "10px")
+      .attr("font-weight", labelWeight)
+      .attr("fill", chartColors.text)
+      .text((d) => getMetricLabel(d));
+
+    g.selectAll(".column-label")
+      .data(matrix.metrics)
+      .join("text")
+      .attr("class", "column-label")
+      .attr(
+        "transform",
+        (_, i) => `translate(${i * cellSize + cellSize / 2}, -6) rotate(-45)`
+      )
+      .attr("text-anchor", "start")
+      .attr("dominant-baseline", "middle")
+      .attr("font-size", "10px")
+      .attr("font-weight", labelWeight)
+      .attr("fill", chartColors.text)
+      .text((d) => getMetricLabel(d));
+
+    const cells = matrix.cells.flatMap((row, i) =>
+      row.map((cell, j) => ({ ...cell, i, j }))
+    );
+
+    const cell = g
+      .selectAll(".cell")
+      .data(cells)
+      .join("g")
+      .attr("class", "cell")
+      .attr(
+        "transform",
+        (d) => `translate(${d.j * cellSize}, ${d.i * cellSize})`
+      )
+      .style("cursor", (d) =>
+        onCellSelect && d.i !== d.j && !isNaN(d.r) ? "pointer" : "default"
+      );
+
+    cell
+      .append("rect")
+      .attr("width", cellSize)
+      .attr("height", cellSize)
+      .attr("fill", (d) => (isNaN(d.r) ? chartColors.grid : color(d.r)))
+      .attr("stroke", "white")
+      .attr("stroke-width", 1);
+
+    // Print the coefficient when the cells are large enough to hold it
+    if (cellSize >= 28) {
+      cell
+        .append("text")
+        .attr("x", cellSize / 2)
+        .attr("y", cellSize / 2)
+        .attr("text-anchor", "middle")
+        .attr("dominant-baseline", "middle")
+        .attr("font-size", "9px")
+        .attr("pointer-events", "none")
+        .attr("fill", (d) => (Math.abs(d.r) > 0.6 ? "white" : chartColors.text))
+        .text((d) => (isNaN(d.r) ? "" : d3.format(".2f")(d.r)));
+    }
+
+    cell
+      .on("mouseover", (event, d) => {
+        const a = matrix.metrics[d.i];
+        const b = matrix.metrics[d.j];
+        d3.select(event.currentTarget)
+          .select("rect")
+          .attr("stroke", chartColors.text)
+          .attr("stroke-width", 2);
+        setTooltip({
+          visible: true,
+          x: event.pageX,
+          y: event.pageY,
+          content: (
+            <>
+              <strong>{getMetricLabel(a)}</strong> vs{" "}
+              <strong>{getMetricLabel(b)}</strong>
+              <br />
+              {method === "spearman" ? "ρ" : "r"} ={" "}
+              {isNaN(d.r) ? "N/A" : d3.format(".3f")(d.r)}
+              <br />n = {d.n} states
+              <br />p = {formatPValue(d.p)}
+              {onCellSelect && d.i !== d.j && !isNaN(d.r) && (
+                <div className="text-xs text-gray-500 mt-1">
+                  Click to map {getMetricLabel(a)} and select the states driving
+                  this relationship
+                </div>
+              )}
+            </>
+          ),
+        });
+      })
+      .on("mousemove", (event) => {
+        setTooltip((prev) => ({
+          ...prev,
+          x: event.pageX + 10,
+          y: event.pageY + 10,
+        }));
+      })
+      .on("mouseout", (event) => {
+        d3.select(event.currentTarget)
+          .select("rect")
+          .attr("stroke", "white")
+          .attr("stroke-width", 1);
+        setTooltip((prev) => ({ ...prev, visible: false }));
+      })
+      .on("click", (_, d) => {
+        if (!onCellSelect || d.i === d.j || isNaN(d.r)) return;
+        const a = matrix.metrics[d.i];
+        const b = matrix.metrics[d.j];
+        onCellSelect(a, b, getCorrelationDrivers(statesData, a, b, method));
+      });
+
+    // Color legend
+    const legendHeight = Math.min(size, 200);
+    const legendScale = d3
+      .scaleLinear()
+      .domain([1, -1])
+      .range([0, legendHeight]);
+    const legend = g
+      .append("g")
+      .attr("transform", `translate(${size + 20}, 0)`);
+
+    const gradientId = "correlation-gradient";
+    const gradient = svg
+      .append("defs")
+      .append("linearGradient")
+      .attr("id", gradientId)
+      .attr("x1", 0)
+      .attr("y1", 0)
+      .attr("x2", 0)
+      .attr("y2", 1);
+    d3.range(0, 1.01, 0.1).forEach((t) => {
+      gradient
+        .append("stop")
+        .attr("offset", `${t * 100}%`)
+        .attr("stop-color", color(1 - 2 * t));
+    });
+
+    legend
+      .append("rect")
+      .attr("width", 12)
+      .attr("height", legendHeight)
+      .attr("fill", `url(#${gradientId})`);
+
+    legend
+      .append("g")
+      .attr("transform", "translate(12, 0)")
+      .call(d3.axisRight(legendScale).ticks(5).tickFormat(d3.format(".1f")))
+      .call((axis) => axis.select(".domain").remove())
+      .call((axis) => axis.selectAll("text").attr("fill", chartColors.text));
+  }, [matrix, statesData, method, selectedMetric, width, height, onCellSelect]);
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center justify-end gap-3 mb-2 text-sm text-gray-800">
+        <div className="inline-flex rounded-md shadow-sm" role="group">
+          {(["pearson", "spearman"] as CorrelationMethod[]).map((m, i) => (
+            <button
+              key={m}
+              className={`px-2 py-0.5 text-xs font-medium border border-gray-300 ${
+                i === 0 ? "rounded-l-lg" : "border-l-0 rounded-r-lg"
+              } ${
+                method === m
+                  ? "bg-blue-500 text-white"
+                  : "bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+              onClick={() => setMethod(m)}
+            >
+              {correlationMethodLabels[m]}
+            </button>
+          ))}
+        </div>
+        <div className="inline-flex rounded-md shadow-sm" role="group">
+          {(["clustered", "original"] as MatrixOrder[]).map((o, i) => (
+            <button
+              key={o}
+              className={`px-2 py-0.5 text-xs font-medium border border-gray-300 ${
+                i === 0 ? "rounded-l-lg" : "border-l-0 rounded-r-lg"
+              } ${
+                order === o
+                  ? "bg-blue-500 text-white"
+                  : "bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+              onClick={() => setOrder(o)}
+            >
+              {o === "clustered" ? "Clustered" : "Original Order"}
+            </button>
+          ))}
+        </div>
+      </div>
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        className={`${chartSvgClass} border border-gray-300`}
+      />
+      <ChartFooter />
+
+      {tooltip.visible && (
+        <div
+          className="absolute bg-white border border-gray-300 rounded p-2 shadow-md text-sm pointer-events-none z-10"
+          style={{
+            left: tooltip.x + "px",
+            top: tooltip.y + "px",
+          }}
+        >
+          {tooltip.content}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorrelationMatrix;
@@ -1,78 +1,154 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import ChoroplethMap from "./ChoroplethMap";
 import StateBarChart from "./StateBarChart";
 import ComparisonChart from "./ComparisonChart";
 import GroupBarChart from "./GroupBarChart";
 import RadarChart from "./RadarChart";
 import ParallelCoordinatesPlot from "./ParallelCoordinatesPlot";
+import CorrelationMatrix from "./CorrelationMatrix";
+import ScatterPlot from "./ScatterPlot";
+import ClusterPanel from "./ClusterPanel";
+import PcaBiplot from "./PcaBiplot";
+import SpatialPanel from "./SpatialPanel";
+import SimilarStatesPanel from "./SimilarStatesPanel";
+import RegionalDistributionPanel from "./RegionalDistributionPanel";
+import ScenarioPanel from "./ScenarioPanel";
+import StateRankingTable from "./StateRankingTable";
+import BenchmarkPanel from "./BenchmarkPanel";
+import InequalityPanel from "./InequalityPanel";
 import RegionalMap from "./RegionalMap";
-import { StateData, SelectedState } from "@/types";
-import { fetchCSVData, fetchTopoJSONData, getMetrics } from "@/lib/utils";
+import YearSlider from "./YearSlider";
+import UploadPanel from "./UploadPanel";
+import DataQualityReport from "./DataQualityReport";
+import DerivedMetricBuilder from "./DerivedMetricBuilder";
+import CompositeIndexBuilder from "./CompositeIndexBuilder";
+import ChartContextProvider from "./ChartContextProvider";
+import {
+  StateData,
+  SelectedState,
+  Vintage,
+  MapValueMode,
+  DataSource,
+  DerivedMetric,
+  AggregationMode,
+  CompositeIndex,
+  ClusterSettings,
+  SpatialWeightsSettings,
+  NormalizationMode,
+  ScenarioSettings,
+  Benchmark,
+} from "@/types";
+import { fetchTopoJSONData, getMetrics, stateToFipsMap } from "@/lib/utils";
+import {
+  currentVersion,
+  fetchManifest,
+  fetchVintages,
+  getManifestVersions,
+} from "@/lib/vintages";
+import {
+  DataProvenance,
+  getUploadProvenance,
+  getVintageProvenance,
+} from "@/lib/provenance";
+import { fetchApiVintages } from "@/lib/api";
+import {
+  regions,
+  filterJurisdictions,
+  isStateJurisdiction,
+} from "@/lib/geography";
+import { getMetricLabel, registerMetricDefinitions } from "@/lib/metrics";
+import {
+  applyDerivedMetrics,
+  loadDerivedMetrics,
+  saveDerivedMetrics,
+  toMetricDefinition,
+} from "@/lib/derivedMetrics";
+import {
+  applyCompositeIndex,
+  loadCompositeIndex,
+  saveCompositeIndex,
+  toIndexDefinition,
+} from "@/lib/compositeIndex";
+import { clusterStates } from "@/lib/stateClusters";
+import { applyPcaScores } from "@/lib/pca";
+import { buildContiguity, spatialAutocorrelation } from "@/lib/spatial";
+import { createNormalizer, normalizationModeLabels } from "@/lib/normalization";
+import {
+  defaultScenarioInputs,
+  defaultScenarioOutcomes,
+  fitScenarioModels,
+  isScenarioActive,
+  runScenario,
+} from "@/lib/scenario";
+import {
+  analyzeBenchmarks,
+  defaultBenchmark,
+  loadBenchmarks,
+  saveBenchmarks,
+} from "@/lib/benchmarks";
+import { measureInequalities } from "@/lib/inequality";
 import { useWindowSize } from "@/lib/hooks";
 
-// Define regions for the US
-const regions: Record<string, string[]> = {
-  Northeast: ["CT", "ME", "MA", "NH", "RI", "VT", "NJ", "NY", "PA"],
-  Midwest: [
-    "IL",
-    "IN",
-    "MI",
-    "OH",
-    "WI",
-    "IA",
-    "KS",
-    "MN",
-    "MO",
-    "NE",
-    "ND",
-    "SD",
-  ],
-  South: [
-    "DE",
-    "FL",
-    "GA",
-    "MD",
-    "NC",
-    "SC",
-    "VA",
-    "WV",
-    "AL",
-    "KY",
-    "MS",
-    "TN",
-    "AR",
-    "LA",
-    "OK",
-    "TX",
-  ],
-  West: [
-    "AZ",
-    "CO",
-    "ID",
-    "MT",
-    "NV",
-    "NM",
-    "UT",
-    "WY",
-    "AK",
-    "CA",
-    "HI",
-    "OR",
-    "WA",
-  ],
-};
+// Derived metrics and the composite index share the runtime definitions
+function registerCustomMetrics(
+  derivedMetrics: DerivedMetric[],
+  compositeIndex: CompositeIndex | null
+) {
+  registerMetricDefinitions([
+    ...derivedMetrics.map(toMetricDefinition),
+    ...(compositeIndex ? [toIndexDefinition(compositeIndex)] : []),
+  ]);
+}
 
 const Dashboard: React.FC = () => {
   const { width: windowWidth } = useWindowSize();
-  const [stateData, setStateData] = useState<StateData[]>([]);
+  const [vintages, setVintages] = useState<Vintage[]>([]);
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [baseYear, setBaseYear] = useState<number | null>(null);
+  const [valueMode, setValueMode] = useState<MapValueMode>("level");
+  const [includeNonStates, setIncludeNonStates] = useState(true);
+  const [customDataset, setCustomDataset] = useState<{
+    name: string;
+    data: StateData[];
+    uploadedAt: Date;
+  } | null>(null);
+  const [versions, setVersions] = useState<string[]>([currentVersion]);
+  const [datasetVersion, setDatasetVersion] = useState(currentVersion);
+  const [showUpload, setShowUpload] = useState(false);
+  const [showQualityReport, setShowQualityReport] = useState(false);
+  const [derivedMetrics, setDerivedMetrics] = useState<DerivedMetric[]>([]);
+  const [showMetricBuilder, setShowMetricBuilder] = useState(false);
+  const [compositeIndex, setCompositeIndex] = useState<CompositeIndex | null>(
+    null
+  );
+  const [showIndexBuilder, setShowIndexBuilder] = useState(false);
+  const [pcaScoresShown, setPcaScoresShown] = useState(false);
+  const [dataSource, setDataSource] = useState<DataSource>("static");
   const [topoData, setTopoData] = useState<any>(null);
-  const [metrics, setMetrics] = useState<string[]>([]);
   const [selectedMetrics, setSelectedMetrics] = useState<string[]>([]);
   const [selectedMetric, setSelectedMetric] = useState<string>("");
   const [selectedStates, setSelectedStates] = useState<SelectedState[]>([]);
   const [selectedRegion, setSelectedRegion] = useState<string | null>(null);
+  const [aggregationMode, setAggregationMode] =
+    useState<AggregationMode>("weighted");
+  const [normalizationMode, setNormalizationMode] =
+    useState<NormalizationMode>("raw");
+  const [clusterSettings, setClusterSettings] = useState<ClusterSettings>({
+    metrics: [],
+    method: "kmeans",
+    k: 4,
+  });
+  const [spatialSettings, setSpatialSettings] =
+    useState<SpatialWeightsSettings>({ style: "queen", linkIslands: false });
+  const [scenarioSettings, setScenarioSettings] = useState<ScenarioSettings>({
+    stateId: null,
+    inputs: [],
+    outcomes: [],
+    changes: {},
+  });
+  const [benchmarks, setBenchmarks] = useState<Record<string, Benchmark>>({});
   const [multipleSelectionMode, setMultipleSelectionMode] = useState(false);
   const [visualizationMode, setVisualizationMode] = useState<
     "default" | "advanced"
@@ -85,9 +161,21 @@ const Dashboard: React.FC = () => {
       try {
         setIsLoading(true);
 
-        // Fetch the CSV data
-        const csvData = await fetchCSVData("/data/D_T_with_state_id.csv");
-        setStateData(csvData);
+        // Fetch every vintage, from the static CSVs or the JSON API
+        const vintageList =
+          dataSource === "api"
+            ? await fetchApiVintages("/api", datasetVersion)
+            : await fetchVintages("/data/vintages.json", datasetVersion);
+        if (!vintageList.length) {
+          throw new Error("No data vintages could be loaded");
+        }
+        setVintages(vintageList);
+
+        // Show the latest vintage, comparing against the earliest
+        const latest = vintageList[vintageList.length - 1];
+        setSelectedYear(latest.year);
+        setBaseYear(vintageList[0].year);
+        const csvData = latest.data;
 
         // Fetch the TopoJSON data
         const topo = await fetchTopoJSONData("/data/states-albers-10m.json");
@@ -95,7 +183,6 @@ const Dashboard: React.FC = () => {
 
         // Extract metrics from the data
         const metricsList = getMetrics(csvData);
-        setMetrics(metricsList);
 
         // Set the default selected metric
         if (metricsList.length > 0) {
@@ -112,8 +199,272 @@ const Dashboard: React.FC = () => {
     };
 
     loadData();
+  }, [dataSource, datasetVersion]);
+
+  // Dataset versions listed in the manifest, for the version picker
+  useEffect(() => {
+    fetchManifest("/data/vintages.json")
+      .then((manifest) => setVersions(getManifestVersions(manifest)))
+      .catch((err) => console.error("Error loading dataset versions:", err));
+  }, []);
+
+  // Derived metrics, the index and benchmarks are saved in the browser, so
+  // restore them on mount
+  useEffect(() => {
+    const saved = loadDerivedMetrics();
+    const savedIndex = loadCompositeIndex();
+    registerCustomMetrics(saved, savedIndex);
+    setDerivedMetrics(saved);
+    setCompositeIndex(savedIndex);
+    setBenchmarks(loadBenchmarks());
+  }, []);
+
+  const handleDerivedMetricsChange = (list: DerivedMetric[]) => {
+    registerCustomMetrics(list, compositeIndex);
+    saveDerivedMetrics(list);
+    setDerivedMetrics(list);
+
+    // Show a newly added metric on the map
+    const added = list.find((m) => !derivedMetrics.includes(m));
+    if (added) setSelectedMetric(added.name);
+  };
+
+  const handleCompositeIndexChange = (index: CompositeIndex | null) => {
+    registerCustomMetrics(derivedMetrics, index);
+    saveCompositeIndex(index);
+    setCompositeIndex(index);
+    if (index) setSelectedMetric(index.name);
+  };
+
+  const handleMapPcaScores = (column: string | null) => {
+    setPcaScoresShown(!!column);
+    if (column) {
+      setSelectedMetric(column);
+      setSelectedRegion(null);
+    }
+  };
+
+  const years = useMemo(() => vintages.map((v) => v.year), [vintages]);
+
+  // DC, Puerto Rico and the island areas can be left out of scales and
+  // aggregates. The index is computed after derived metrics so it can use
+  // them, and principal component scores come last.
+  const stateData = useMemo<StateData[]>(() => {
+    const data = applyCompositeIndex(
+      applyDerivedMetrics(
+        filterJurisdictions(
+          customDataset?.data ??
+            vintages.find((v) => v.year === selectedYear)?.data ??
+            [],
+          includeNonStates
+        ),
+        derivedMetrics
+      ),
+      compositeIndex
+    );
+    return pcaScoresShown ? applyPcaScores(data) : data;
+  }, [
+    vintages,
+    selectedYear,
+    includeNonStates,
+    customDataset,
+    derivedMetrics,
+    compositeIndex,
+    pcaScoresShown,
+  ]);
+
+  // Vintage the map compares against in "change since" mode
+  const baseData = useMemo<StateData[] | null>(
+    () =>
+      valueMode === "change" && !customDataset
+        ? applyCompositeIndex(
+            applyDerivedMetrics(
+              filterJurisdictions(
+                vintages.find((v) => v.year === baseYear)?.data ?? [],
+                includeNonStates
+              ),
+              derivedMetrics
+            ),
+            compositeIndex
+          )
+        : null,
+    [
+      vintages,
+      baseYear,
+      valueMode,
+      includeNonStates,
+      customDataset,
+      derivedMetrics,
+      compositeIndex,
+    ]
+  );
+
+  // CSV columns plus any derived metrics and index that apply to this
+  // dataset
+  const metrics = useMemo(() => getMetrics(stateData), [stateData]);
+
+  // Drop metric choices that no longer exist, e.g. a deleted derived metric
+  useEffect(() => {
+    if (!metrics.length) return;
+    setSelectedMetric((prev) => (metrics.includes(prev) ? prev : metrics[0]));
+    setSelectedMetrics((prev) => prev.filter((m) => metrics.includes(m)));
+    setClusterSettings((prev) => ({
+      ...prev,
+      metrics: prev.metrics.length
+        ? prev.metrics.filter((m) => metrics.includes(m))
+        : metrics.slice(0, 4),
+    }));
+    setScenarioSettings((prev) => ({
+      ...prev,
+      inputs: (prev.inputs.length ? prev.inputs : defaultScenarioInputs).filter(
+        (m) => metrics.includes(m)
+      ),
+      outcomes: (prev.outcomes.length
+        ? prev.outcomes
+        : defaultScenarioOutcomes
+      ).filter((m) => metrics.includes(m)),
+    }));
+  }, [metrics]);
+
+  const clustering = useMemo(
+    () => clusterStates(stateData, clusterSettings),
+    [stateData, clusterSettings]
+  );
+
+  const contiguity = useMemo(
+    () => (topoData ? buildContiguity(topoData, spatialSettings) : null),
+    [topoData, spatialSettings]
+  );
+  const spatial = useMemo(
+    () =>
+      contiguity && selectedMetric
+        ? spatialAutocorrelation(
+            stateData,
+            selectedMetric,
+            contiguity,
+            spatialSettings
+          )
+        : null,
+    [stateData, selectedMetric, contiguity, spatialSettings]
+  );
+
+  // The scenario follows the first selected state unless one is chosen
+  const scenarioModels = useMemo(
+    () =>
+      fitScenarioModels(
+        stateData,
+        scenarioSettings.inputs,
+        scenarioSettings.outcomes
+      ),
+    [stateData, scenarioSettings.inputs, scenarioSettings.outcomes]
+  );
+  const scenarioStateId =
+    scenarioSettings.stateId ?? selectedStates[0]?.data.state_id;
+  const scenarioState =
+    stateData.find((d) => d.state_id === scenarioStateId) ?? null;
+  const scenario = useMemo(
+    () =>
+      scenarioState
+        ? runScenario(
+            scenarioModels,
+            stateData,
+            scenarioState,
+            scenarioSettings.changes
+          )
+        : null,
+    [scenarioModels, stateData, scenarioState, scenarioSettings.changes]
+  );
+  // Charts only show the scenario once something has been changed
+  const scenarioPreview = isScenarioActive(scenarioSettings) ? scenario : null;
+
+  // Gaps to each metric's target, or to the median state when none is set
+  const benchmarkGaps = useMemo(
+    () => analyzeBenchmarks(stateData, metrics, benchmarks, aggregationMode),
+    [stateData, metrics, benchmarks, aggregationMode]
+  );
+
+  const inequality = useMemo(
+    () => measureInequalities(stateData, metrics, aggregationMode),
+    [stateData, metrics, aggregationMode]
+  );
+
+  const handleBenchmarkChange = (benchmark: Benchmark) => {
+    const updated = { ...benchmarks, [selectedMetric]: benchmark };
+    saveBenchmarks(updated);
+    setBenchmarks(updated);
+  };
+
+  // Keep selected states pointing at the current records, dropping any
+  // that are no longer shown
+  useEffect(() => {
+    setSelectedStates((prev) =>
+      prev.flatMap((s) => {
+        const data = stateData.find((d) => d.state_id === s.data.state_id);
+        return data ? [{ ...s, data }] : [];
+      })
+    );
+  }, [stateData]);
+
+  // Shared scale for charts, relative to the states currently shown
+  const normalizer = useMemo(
+    () => createNormalizer(stateData, normalizationMode),
+    [stateData, normalizationMode]
+  );
+
+  // The dataset as loaded, before derived metrics, for the quality report
+  const loadedDataset = useMemo(() => {
+    if (customDataset) {
+      return { source: customDataset.name, data: customDataset.data };
+    }
+    const vintage = vintages.find((v) => v.year === selectedYear);
+    return vintage
+      ? {
+          source: vintage.source?.url ?? String(vintage.year),
+          data: vintage.data,
+        }
+      : null;
+  }, [customDataset, vintages, selectedYear]);
+
+  // The jurisdiction toggle only does something when the data has DC,
+  // Puerto Rico or territory rows
+  const hasNonStates = useMemo(
+    () => !!loadedDataset?.data.some((d) => !isStateJurisdiction(d.state_id)),
+    [loadedDataset]
+  );
+
+  // Cited under every chart
+  const provenance = useMemo<DataProvenance | null>(() => {
+    if (customDataset) {
+      return getUploadProvenance(customDataset.name, customDataset.uploadedAt);
+    }
+    const vintage = vintages.find((v) => v.year === selectedYear);
+    return vintage ? getVintageProvenance(vintage) : null;
+  }, [customDataset, vintages, selectedYear]);
+
+  const handleYearChange = useCallback((year: number) => {
+    setSelectedYear(year);
   }, []);
 
+  // Swap a dataset into every chart, resetting metric choices to its columns
+  const applyDataset = (data: StateData[]) => {
+    const metricsList = getMetrics(data);
+    setSelectedMetric(metricsList[0] ?? "");
+    setSelectedMetrics(metricsList.slice(0, 5));
+    setSelectedStates([]);
+    setSelectedRegion(null);
+  };
+
+  const handleDatasetLoad = (name: string, data: StateData[]) => {
+    setCustomDataset({ name, data, uploadedAt: new Date() });
+    setShowUpload(false);
+    applyDataset(data);
+  };
+
+  const restoreDefaultDataset = () => {
+    setCustomDataset(null);
+    applyDataset(vintages.find((v) => v.year === selectedYear)?.data ?? []);
+  };
+
   const handleMetricChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setSelectedMetric(e.target.value);
   };
@@ -152,10 +503,72 @@ const Dashboard: React.FC = () => {
     setSelectedMetric(metric);
   };
 
+  // Map one metric of a correlated pair and select the states behind it.
+  // Selections are keyed by FIPS code, like the map's own clicks.
+  const handleCorrelationSelect = (
+    metric: string,
+    _: string,
+    states: StateData[]
+  ) => {
+    setSelectedMetric(metric);
+    setSelectedRegion(null);
+    setMultipleSelectionMode(true);
+    setSelectedStates(
+      states.map((state) => ({
+        id: stateToFipsMap[state.state_id] ?? state.state_id,
+        data: state,
+      }))
+    );
+  };
+
+  // Add peers found by the similar-states search to the comparison
+  const handleAddSimilarStates = (states: StateData[]) => {
+    setMultipleSelectionMode(true);
+    setSelectedStates((prev) => [
+      ...prev,
+      ...states
+        .filter((state) =>
+          prev.every((s) => s.data.state_id !== state.state_id)
+        )
+        .map((state) => ({
+          id: stateToFipsMap[state.state_id] ?? state.state_id,
+          data: state,
+        })),
+    ]);
+  };
+
+  // The ranking table's checkboxes replace the whole selection, keeping the
+  // existing order so the first selected state stays first
+  const handleTableSelection = (states: StateData[]) => {
+    if (states.length > 1) setMultipleSelectionMode(true);
+    setSelectedStates((prev) => [
+      ...prev.filter((s) =>
+        states.some((state) => state.state_id === s.data.state_id)
+      ),
+      ...states
+        .filter((state) =>
+          prev.every((s) => s.data.state_id !== state.state_id)
+        )
+        .map((state) => ({
+          id: stateToFipsMap[state.state_id] ?? state.state_id,
+          data: state,
+        })),
+    ]);
+  };
+
   const handleMultipleMetricsChange = (metrics: string[]) => {
     setSelectedMetrics(metrics);
   };
 
+  // Every state in the selected region, for its weighted averages
+  const regionStates = useMemo(
+    () =>
+      selectedRegion
+        ? stateData.filter((d) => regions[selectedRegion]?.includes(d.state_id))
+        : [],
+    [stateData, selectedRegion]
+  );
+
   const handleRegionSelect = (region: string, states: StateData[]) => {
     setSelectedRegion(region);
 
@@ -191,135 +604,188 @@ const Dashboard: React.FC = () => {
   }
 
   return (
-    <div className="max-w-[99%] mx-auto px-2 py-4 bg-white text-black">
-      <h1 className="text-2xl font-bold mb-3 text-center text-gray-800">
-        Digital Divide Dashboard
-      </h1>
-
-      <div className="flex justify-end mb-3">
-        <button
-          onClick={toggleVisualizationMode}
-          className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm"
-        >
-          {visualizationMode === "default" ? "Advanced View" : "Standard View"}
-        </button>
-      </div>
+    <ChartContextProvider provenance={provenance} normalizer={normalizer}>
+      <div className="max-w-[99%] mx-auto px-2 py-4 bg-white text-black">
+        <h1 className="text-2xl font-bold mb-3 text-center text-gray-800">
+          Digital Divide Dashboard
+        </h1>
 
-      {/* Standard visualization mode */}
-      {visualizationMode === "default" && (
-        <>
-          <div className="flex flex-col lg:flex-row gap-2 justify-between mb-4">
-            <div className="lg:w-[49%]">
-              {topoData && (
-                <ChoroplethMap
-                  data={stateData}
-                  topoData={topoData}
-                  selectedMetric={selectedMetric}
-                  onStateSelect={handleStateSelect}
-                  selectedStates={selectedStates}
-                  multipleSelectionMode={multipleSelectionMode}
-                  toggleSelectionMode={toggleSelectionMode}
-                  clearSelection={clearSelection}
-                  width={700}
-                  height={380}
-                />
-              )}
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+          {customDataset ? (
+            <div className="flex items-center gap-2 text-sm text-gray-800">
+              <span>
+                Using uploaded dataset: <strong>{customDataset.name}</strong>
+              </span>
+              <button
+                onClick={() => setShowQualityReport(true)}
+                className="px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+              >
+                Check Data Quality
+              </button>
+              <button
+                onClick={restoreDefaultDataset}
+                className="px-2 py-1 bg-gray-500 text-white rounded hover:bg-gray-600"
+              >
+                Restore Default Data
+              </button>
             </div>
+          ) : (
+            selectedYear !== null && (
+              <YearSlider
+                years={years}
+                selectedYear={selectedYear}
+                onYearChange={handleYearChange}
+                valueMode={valueMode}
+                onValueModeChange={setValueMode}
+                baseYear={baseYear ?? selectedYear}
+                onBaseYearChange={setBaseYear}
+              />
+            )
+          )}
+          <label
+            className={`flex items-center gap-1 text-sm ${
+              hasNonStates ? "text-gray-800" : "text-gray-400"
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={includeNonStates && hasNonStates}
+              disabled={!hasNonStates}
+              onChange={(e) => setIncludeNonStates(e.target.checked)}
+            />
+            Include DC, Puerto Rico &amp; territories
+            {!hasNonStates && (
+              <span className="text-xs">
+                (no rows for them in this dataset)
+              </span>
+            )}
+          </label>
+          {versions.length > 1 && !customDataset && (
+            <label className="flex items-center gap-1 text-sm text-gray-800">
+              Dataset version
+              <select
+                value={datasetVersion}
+                onChange={(e) => setDatasetVersion(e.target.value)}
+                className="border border-gray-300 rounded px-1 py-0.5"
+              >
+                {versions.map((version) => (
+                  <option key={version} value={version}>
+                    {version}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex items-center gap-1 text-sm text-gray-800">
+            Data source
+            <select
+              value={dataSource}
+              onChange={(e) => setDataSource(e.target.value as DataSource)}
+              className="border border-gray-300 rounded px-1 py-0.5"
+            >
+              <option value="static">Static CSV</option>
+              <option value="api">JSON API</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-1 text-sm text-gray-800">
+            Scale
+            <select
+              value={normalizationMode}
+              onChange={(e) =>
+                setNormalizationMode(e.target.value as NormalizationMode)
+              }
+              className="border border-gray-300 rounded px-1 py-0.5"
+            >
+              {Object.entries(normalizationModeLabels).map(([mode, label]) => (
+                <option key={mode} value={mode}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => setShowQualityReport(!showQualityReport)}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm"
+          >
+            Data Quality
+          </button>
+          <button
+            onClick={() => setShowMetricBuilder(!showMetricBuilder)}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm"
+          >
+            Derived Metrics
+          </button>
+          <button
+            onClick={() => setShowIndexBuilder(!showIndexBuilder)}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm"
+          >
+            Composite Index
+          </button>
+          <button
+            onClick={() => setShowUpload(!showUpload)}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm"
+          >
+            Upload Data
+          </button>
+          <button
+            onClick={toggleVisualizationMode}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm"
+          >
+            {visualizationMode === "default"
+              ? "Advanced View"
+              : "Standard View"}
+          </button>
+        </div>
 
-            <div className="lg:w-[49%]">
-              {selectedStates.length === 0 && (
-                <div className="flex items-center justify-center h-full border border-gray-300 rounded bg-white text-gray-500 p-4">
-                  Select a state on the map to view details
-                </div>
-              )}
+        {showMetricBuilder && (
+          <div className="mb-4">
+            <DerivedMetricBuilder
+              data={stateData}
+              derivedMetrics={derivedMetrics}
+              onChange={handleDerivedMetricsChange}
+              onClose={() => setShowMetricBuilder(false)}
+            />
+          </div>
+        )}
 
-              {selectedStates.length === 1 && (
-                <StateBarChart
-                  stateData={selectedStates[0].data}
-                  currentMetric={selectedMetric}
-                  onMetricSelect={handleMetricSelect}
-                  width={650}
-                  height={450}
-                />
-              )}
+        {showIndexBuilder && (
+          <div className="mb-4">
+            <CompositeIndexBuilder
+              data={stateData}
+              compositeIndex={compositeIndex}
+              onChange={handleCompositeIndexChange}
+              onClose={() => setShowIndexBuilder(false)}
+            />
+          </div>
+        )}
 
-              {selectedStates.length > 1 && (
-                <ComparisonChart
-                  statesData={selectedStates.map((s) => s.data)}
-                  currentMetric={selectedMetric}
-                  onMetricSelect={handleMetricSelect}
-                  width={650}
-                  height={450}
-                  simpleMode={true}
-                />
-              )}
-            </div>
+        {showQualityReport && loadedDataset && (
+          <div className="mb-4">
+            <DataQualityReport
+              data={loadedDataset.data}
+              source={loadedDataset.source}
+              topoData={topoData}
+              onClose={() => setShowQualityReport(false)}
+            />
           </div>
+        )}
 
-          {selectedStates.length > 1 && (
-            <div className="mt-4">
-              <h2 className="text-xl font-bold mb-2">Detailed Comparison</h2>
-              <ComparisonChart
-                statesData={selectedStates.map((s) => s.data)}
-                currentMetric={selectedMetric}
-                onMetricSelect={handleMetricSelect}
-                width={1400}
-                height={450}
-              />
-            </div>
-          )}
-        </>
-      )}
-
-      {/* Advanced visualization mode */}
-      {visualizationMode === "advanced" && (
-        <div className="space-y-4">
-          <div className="bg-white p-3 rounded-lg border border-gray-200 shadow">
-            <h2 className="text-xl font-bold mb-2 text-gray-800">
-              Interactive Choropleth & Bar Charts
-            </h2>
-            <div className="flex justify-end mb-4">
-              <div
-                className="inline-flex items-center rounded-md shadow-sm"
-                role="group"
-              >
-                <button
-                  className={`px-4 py-2 text-sm font-medium ${
-                    !selectedRegion
-                      ? "bg-blue-500 text-white"
-                      : "bg-white text-gray-700 hover:bg-gray-50"
-                  } border border-gray-300 rounded-l-lg`}
-                  onClick={() => {
-                    setSelectedRegion(null);
-                    clearSelection();
-                  }}
-                >
-                  State View
-                </button>
-                <button
-                  className={`px-4 py-2 text-sm font-medium ${
-                    selectedRegion
-                      ? "bg-blue-500 text-white"
-                      : "bg-white text-gray-700 hover:bg-gray-50"
-                  } border border-l-0 border-gray-300 rounded-r-lg`}
-                  onClick={() => {
-                    // If no region is selected yet, default to Northeast
-                    if (!selectedRegion) {
-                      const regionName = "Northeast";
-                      const regionStates = stateData.filter((d) =>
-                        regions.Northeast.includes(d.state_id)
-                      );
-                      handleRegionSelect(regionName, regionStates);
-                    }
-                  }}
-                >
-                  Region View
-                </button>
-              </div>
-            </div>
-            <div className="flex flex-col lg:flex-row gap-2 justify-between">
+        {showUpload && (
+          <div className="mb-4">
+            <UploadPanel
+              topoData={topoData}
+              onDatasetLoad={handleDatasetLoad}
+              onClose={() => setShowUpload(false)}
+            />
+          </div>
+        )}
+
+        {/* Standard visualization mode */}
+        {visualizationMode === "default" && (
+          <>
+            <div className="flex flex-col lg:flex-row gap-2 justify-between mb-4">
               <div className="lg:w-[49%]">
-                {topoData && !selectedRegion && (
+                {topoData && (
                   <ChoroplethMap
                     data={stateData}
                     topoData={topoData}
@@ -329,64 +795,262 @@ const Dashboard: React.FC = () => {
                     multipleSelectionMode={multipleSelectionMode}
                     toggleSelectionMode={toggleSelectionMode}
                     clearSelection={clearSelection}
+                    baseData={baseData}
+                    baseYear={baseYear ?? undefined}
+                    clustering={clustering}
+                    spatial={spatial}
+                    scenario={scenarioPreview}
+                    benchmark={benchmarkGaps[selectedMetric] ?? null}
                     width={700}
                     height={380}
                   />
                 )}
-                {topoData && selectedRegion && (
-                  <RegionalMap
-                    data={stateData}
-                    topoData={topoData}
-                    selectedMetrics={selectedMetrics}
-                    onRegionSelect={handleRegionSelect}
-                    selectedRegion={selectedRegion}
-                    width={700}
-                    height={380}
+              </div>
+
+              <div className="lg:w-[49%]">
+                {selectedStates.length === 0 && (
+                  <div className="flex items-center justify-center h-full border border-gray-300 rounded bg-white text-gray-500 p-4">
+                    Select a state on the map to view details
+                  </div>
+                )}
+
+                {selectedStates.length === 1 && (
+                  <StateBarChart
+                    stateData={selectedStates[0].data}
+                    currentMetric={selectedMetric}
+                    onMetricSelect={handleMetricSelect}
+                    scenario={scenarioPreview}
+                    benchmarks={benchmarkGaps}
+                    width={650}
+                    height={450}
+                  />
+                )}
+
+                {selectedStates.length > 1 && (
+                  <ComparisonChart
+                    statesData={selectedStates.map((s) => s.data)}
+                    currentMetric={selectedMetric}
+                    onMetricSelect={handleMetricSelect}
+                    width={650}
+                    height={450}
+                    simpleMode={true}
                   />
                 )}
               </div>
-              <div className="lg:w-[49%]">
-                {!selectedRegion && (
-                  <>
-                    {selectedStates.length === 0 ? (
-                      <GroupBarChart
-                        statesData={stateData.slice(0, 10)} // Show top 10 states
-                        metric={selectedMetric}
-                        onStateSelect={handleStateSelect}
-                        width={700}
-                        height={380}
-                      />
-                    ) : (
-                      <div className="space-y-2">
-                        <div className="flex flex-col lg:flex-row gap-3">
-                          <div className="lg:w-1/2">
-                            <GroupBarChart
-                              statesData={selectedStates.map((s) => s.data)}
-                              metric={selectedMetric}
-                              onStateSelect={handleStateSelect}
-                              width={340}
-                              height={380}
-                            />
-                          </div>
-                          <div className="lg:w-1/2">
-                            <RadarChart
-                              statesData={selectedStates.map((s) => s.data)}
-                              metrics={selectedMetrics}
-                              onMetricSelect={handleMetricSelect}
-                              width={340}
-                              height={380}
-                            />
+            </div>
+
+            <div className="mt-4 bg-white p-3 rounded-lg border border-gray-200 shadow">
+              <h2 className="text-xl font-bold mb-2 text-gray-800">
+                What-If Scenario
+                {scenarioState ? `: ${scenarioState.State}` : ""}
+              </h2>
+              <ScenarioPanel
+                data={stateData}
+                metrics={metrics}
+                settings={scenarioSettings}
+                onSettingsChange={setScenarioSettings}
+                state={scenarioState}
+                models={scenarioModels}
+                result={scenario}
+                selectedMetric={selectedMetric}
+                onMetricSelect={handleMetricSelect}
+              />
+            </div>
+
+            <div className="mt-4 bg-white p-3 rounded-lg border border-gray-200 shadow">
+              <h2 className="text-xl font-bold mb-2 text-gray-800">
+                Benchmarks & Gaps: {getMetricLabel(selectedMetric)}
+              </h2>
+              <BenchmarkPanel
+                metric={selectedMetric}
+                metrics={metrics}
+                onMetricChange={handleMetricSelect}
+                benchmark={benchmarks[selectedMetric] ?? defaultBenchmark}
+                onBenchmarkChange={handleBenchmarkChange}
+                analysis={benchmarkGaps[selectedMetric] ?? null}
+                selectedStates={selectedStates}
+              />
+            </div>
+
+            <div className="mt-4 bg-white p-3 rounded-lg border border-gray-200 shadow">
+              <h2 className="text-xl font-bold mb-2 text-gray-800">
+                Inequality Across States
+              </h2>
+              <InequalityPanel
+                measures={inequality}
+                metrics={metrics}
+                selectedMetric={selectedMetric}
+                onMetricSelect={handleMetricSelect}
+                aggregationMode={aggregationMode}
+              />
+            </div>
+
+            {selectedStates.length > 0 && (
+              <div className="mt-4 bg-white p-3 rounded-lg border border-gray-200 shadow">
+                <h2 className="text-xl font-bold mb-2 text-gray-800">
+                  States Similar to {selectedStates[0].data.State}
+                </h2>
+                <SimilarStatesPanel
+                  target={selectedStates[0].data}
+                  data={stateData}
+                  metrics={metrics}
+                  selectedStates={selectedStates}
+                  onAddStates={handleAddSimilarStates}
+                />
+              </div>
+            )}
+
+            {selectedStates.length > 1 && (
+              <div className="mt-4">
+                <h2 className="text-xl font-bold mb-2">Detailed Comparison</h2>
+                <ComparisonChart
+                  statesData={selectedStates.map((s) => s.data)}
+                  currentMetric={selectedMetric}
+                  onMetricSelect={handleMetricSelect}
+                  width={1400}
+                  height={450}
+                />
+              </div>
+            )}
+
+            <div className="mt-4 bg-white p-3 rounded-lg border border-gray-200 shadow">
+              <h2 className="text-xl font-bold mb-2 text-gray-800">
+                State Rankings
+              </h2>
+              <StateRankingTable
+                data={stateData}
+                metrics={metrics}
+                selectedStates={selectedStates}
+                onSelectionChange={handleTableSelection}
+              />
+            </div>
+          </>
+        )}
+
+        {/* Advanced visualization mode */}
+        {visualizationMode === "advanced" && (
+          <div className="space-y-4">
+            <div className="bg-white p-3 rounded-lg border border-gray-200 shadow">
+              <h2 className="text-xl font-bold mb-2 text-gray-800">
+                Interactive Choropleth & Bar Charts
+              </h2>
+              <div className="flex justify-end mb-4">
+                <div
+                  className="inline-flex items-center rounded-md shadow-sm"
+                  role="group"
+                >
+                  <button
+                    className={`px-4 py-2 text-sm font-medium ${
+                      !selectedRegion
+                        ? "bg-blue-500 text-white"
+                        : "bg-white text-gray-700 hover:bg-gray-50"
+                    } border border-gray-300 rounded-l-lg`}
+                    onClick={() => {
+                      setSelectedRegion(null);
+                      clearSelection();
+                    }}
+                  >
+                    State View
+                  </button>
+                  <button
+                    className={`px-4 py-2 text-sm font-medium ${
+                      selectedRegion
+                        ? "bg-blue-500 text-white"
+                        : "bg-white text-gray-700 hover:bg-gray-50"
+                    } border border-l-0 border-gray-300 rounded-r-lg`}
+                    onClick={() => {
+                      // If no region is selected yet, default to Northeast
+                      if (!selectedRegion) {
+                        const regionName = "Northeast";
+                        const regionStates = stateData.filter((d) =>
+                          regions.Northeast.includes(d.state_id)
+                        );
+                        handleRegionSelect(regionName, regionStates);
+                      }
+                    }}
+                  >
+                    Region View
+                  </button>
+                </div>
+              </div>
+              <div className="flex flex-col lg:flex-row gap-2 justify-between">
+                <div className="lg:w-[49%]">
+                  {topoData && !selectedRegion && (
+                    <ChoroplethMap
+                      data={stateData}
+                      topoData={topoData}
+                      selectedMetric={selectedMetric}
+                      onStateSelect={handleStateSelect}
+                      selectedStates={selectedStates}
+                      multipleSelectionMode={multipleSelectionMode}
+                      toggleSelectionMode={toggleSelectionMode}
+                      clearSelection={clearSelection}
+                      baseData={baseData}
+                      baseYear={baseYear ?? undefined}
+                      clustering={clustering}
+                      spatial={spatial}
+                      scenario={scenarioPreview}
+                      benchmark={benchmarkGaps[selectedMetric] ?? null}
+                      width={700}
+                      height={380}
+                    />
+                  )}
+                  {topoData && selectedRegion && (
+                    <RegionalMap
+                      data={stateData}
+                      topoData={topoData}
+                      selectedMetrics={selectedMetrics}
+                      onRegionSelect={handleRegionSelect}
+                      selectedRegion={selectedRegion}
+                      aggregationMode={aggregationMode}
+                      onAggregationModeChange={setAggregationMode}
+                      width={700}
+                      height={380}
+                    />
+                  )}
+                </div>
+                <div className="lg:w-[49%]">
+                  {!selectedRegion && (
+                    <>
+                      {selectedStates.length === 0 ? (
+                        <GroupBarChart
+                          statesData={stateData.slice(0, 10)} // Show top 10 states
+                          metric={selectedMetric}
+                          onStateSelect={handleStateSelect}
+                          width={700}
+                          height={380}
+                        />
+                      ) : (
+                        <div className="space-y-2">
+                          <div className="flex flex-col lg:flex-row gap-3">
+                            <div className="lg:w-1/2">
+                              <GroupBarChart
+                                statesData={selectedStates.map((s) => s.data)}
+                                metric={selectedMetric}
+                                onStateSelect={handleStateSelect}
+                                width={340}
+                                height={380}
+                              />
+                            </div>
+                            <div className="lg:w-1/2">
+                              <RadarChart
+                                statesData={selectedStates.map((s) => s.data)}
+                                metrics={selectedMetrics}
+                                onMetricSelect={handleMetricSelect}
+                                width={340}
+                                height={380}
+                              />
+                            </div>
                           </div>
-                        </div>
-                        <div className="mt-2">
-                          <h3 className="text-base font-medium mb-1 text-gray-800">
-                            Selected Metrics
-                          </h3>
-                          <div className="flex flex-wrap gap-1 mb-2">
-                            {metrics.map((metric) => (
-                              <div
-                                key={metric}
-                                className={`
+                          <div className="mt-2">
+                            <h3 className="text-base font-medium mb-1 text-gray-800">
+                              Selected Metrics
+                            </h3>
+                            <div className="flex flex-wrap gap-1 mb-2">
+                              {metrics.map((metric) => (
+                                <div
+                                  key={metric}
+                                  className={`
                                   px-2 py-0.5 text-xs border rounded cursor-pointer
                                   ${
                                     selectedMetrics.includes(metric)
@@ -394,59 +1058,62 @@ const Dashboard: React.FC = () => {
                                       : "bg-gray-100 border-gray-300 hover:bg-gray-200 text-gray-800"
                                   }
                                 `}
-                                onClick={() => {
-                                  setSelectedMetrics(
-                                    selectedMetrics.includes(metric)
-                                      ? selectedMetrics.filter(
-                                          (m) => m !== metric
-                                        )
-                                      : [...selectedMetrics, metric]
-                                  );
-                                }}
-                              >
-                                {typeof metric === "string" &&
-                                metric.length > 15
-                                  ? metric.substring(0, 12) + "..."
-                                  : metric}
-                              </div>
-                            ))}
+                                  onClick={() => {
+                                    setSelectedMetrics(
+                                      selectedMetrics.includes(metric)
+                                        ? selectedMetrics.filter(
+                                            (m) => m !== metric
+                                          )
+                                        : [...selectedMetrics, metric]
+                                    );
+                                  }}
+                                >
+                                  {getMetricLabel(metric)}
+                                </div>
+                              ))}
+                            </div>
                           </div>
                         </div>
+                      )}
+                    </>
+                  )}
+                  {selectedRegion && (
+                    <div className="space-y-2">
+                      <div className="flex flex-col lg:flex-row gap-3">
+                        <div className="lg:w-1/2">
+                          <GroupBarChart
+                            statesData={selectedStates.map((s) => s.data)}
+                            metric={selectedMetric}
+                            onStateSelect={handleStateSelect}
+                            aggregateName={selectedRegion}
+                            aggregateStates={regionStates}
+                            aggregationMode={aggregationMode}
+                            width={340}
+                            height={380}
+                          />
+                        </div>
+                        <div className="lg:w-1/2">
+                          <RadarChart
+                            statesData={selectedStates.map((s) => s.data)}
+                            metrics={selectedMetrics}
+                            onMetricSelect={handleMetricSelect}
+                            aggregateName={selectedRegion}
+                            aggregateStates={regionStates}
+                            aggregationMode={aggregationMode}
+                            width={340}
+                            height={380}
+                          />
+                        </div>
                       </div>
-                    )}
-                  </>
-                )}
-                {selectedRegion && (
-                  <div className="space-y-2">
-                    <div className="flex flex-col lg:flex-row gap-3">
-                      <div className="lg:w-1/2">
-                        <GroupBarChart
-                          statesData={selectedStates.map((s) => s.data)}
-                          metric={selectedMetric}
-                          onStateSelect={handleStateSelect}
-                          width={340}
-                          height={380}
-                        />
-                      </div>
-                      <div className="lg:w-1/2">
-                        <RadarChart
-                          statesData={selectedStates.map((s) => s.data)}
-                          metrics={selectedMetrics}
-                          onMetricSelect={handleMetricSelect}
-                          width={340}
-                          height={380}
-                        />
-                      </div>
-                    </div>
-                    <div className="mt-2">
-                      <h3 className="text-base font-medium mb-1 text-gray-800">
-                        Selected Metrics
-                      </h3>
-                      <div className="flex flex-wrap gap-1 mb-2">
-                        {metrics.map((metric) => (
-                          <div
-                            key={metric}
-                            className={`
+                      <div className="mt-2">
+                        <h3 className="text-base font-medium mb-1 text-gray-800">
+                          Selected Metrics
+                        </h3>
+                        <div className="flex flex-wrap gap-1 mb-2">
+                          {metrics.map((metric) => (
+                            <div
+                              key={metric}
+                              className={`
                               px-2 py-0.5 text-xs border rounded cursor-pointer
                               ${
                                 selectedMetrics.includes(metric)
@@ -454,44 +1121,139 @@ const Dashboard: React.FC = () => {
                                   : "bg-gray-100 border-gray-300 hover:bg-gray-200 text-gray-800"
                               }
                             `}
-                            onClick={() => {
-                              setSelectedMetrics(
-                                selectedMetrics.includes(metric)
-                                  ? selectedMetrics.filter((m) => m !== metric)
-                                  : [...selectedMetrics, metric]
-                              );
-                            }}
-                          >
-                            {typeof metric === "string" && metric.length > 15
-                              ? metric.substring(0, 12) + "..."
-                              : metric}
-                          </div>
-                        ))}
+                              onClick={() => {
+                                setSelectedMetrics(
+                                  selectedMetrics.includes(metric)
+                                    ? selectedMetrics.filter(
+                                        (m) => m !== metric
+                                      )
+                                    : [...selectedMetrics, metric]
+                                );
+                              }}
+                            >
+                              {getMetricLabel(metric)}
+                            </div>
+                          ))}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                )}
+                  )}
+                </div>
               </div>
             </div>
-          </div>
 
-          <div className="bg-white p-3 rounded-lg border border-gray-200 shadow">
-            <h2 className="text-xl font-bold mb-2 text-gray-800">
-              Parallel Coordinates Analysis
-            </h2>
-            <div className="w-full overflow-x-auto">
-              <ParallelCoordinatesPlot
-                statesData={stateData}
-                availableMetrics={metrics}
-                selectedStates={selectedStates.map((s) => s.data.State)}
-                width={windowWidth ? Math.min(windowWidth - 50, 1900) : 1900}
-                height={450}
+            {selectedRegion && (
+              <div className="bg-white p-3 rounded-lg border border-gray-200 shadow">
+                <h2 className="text-xl font-bold mb-2 text-gray-800">
+                  Regional Distribution: {getMetricLabel(selectedMetric)}
+                </h2>
+                <RegionalDistributionPanel
+                  data={stateData}
+                  metric={selectedMetric}
+                  metrics={metrics}
+                  onMetricChange={handleMetricSelect}
+                  selectedRegion={selectedRegion}
+                  selectedStates={selectedStates}
+                  onStateSelect={handleStateSelect}
+                />
+              </div>
+            )}
+
+            <div className="bg-white p-3 rounded-lg border border-gray-200 shadow">
+              <h2 className="text-xl font-bold mb-2 text-gray-800">
+                Parallel Coordinates Analysis
+              </h2>
+              <div className="w-full overflow-x-auto">
+                <ParallelCoordinatesPlot
+                  statesData={stateData}
+                  availableMetrics={metrics}
+                  selectedStates={selectedStates.map((s) => s.data.State)}
+                  width={windowWidth ? Math.min(windowWidth - 50, 1900) : 1900}
+                  height={450}
+                />
+              </div>
+            </div>
+
+            <div className="bg-white p-3 rounded-lg border border-gray-200 shadow">
+              <h2 className="text-xl font-bold mb-2 text-gray-800">
+                Scatterplot & Regression
+              </h2>
+              <div className="w-full overflow-x-auto">
+                <ScatterPlot
+                  statesData={stateData}
+                  metrics={metrics}
+                  selectedStates={selectedStates}
+                  onStateSelect={handleStateSelect}
+                  width={900}
+                  height={520}
+                />
+              </div>
+            </div>
+
+            <div className="bg-white p-3 rounded-lg border border-gray-200 shadow">
+              <h2 className="text-xl font-bold mb-2 text-gray-800">
+                Correlation Matrix
+              </h2>
+              <div className="w-full overflow-x-auto">
+                <CorrelationMatrix
+                  statesData={stateData}
+                  metrics={metrics}
+                  selectedMetric={selectedMetric}
+                  onCellSelect={handleCorrelationSelect}
+                  width={900}
+                  height={620}
+                />
+              </div>
+            </div>
+
+            <div className="bg-white p-3 rounded-lg border border-gray-200 shadow">
+              <h2 className="text-xl font-bold mb-2 text-gray-800">
+                Digital-Divide Profiles
+              </h2>
+              <ClusterPanel
+                data={stateData}
+                metrics={metrics}
+                settings={clusterSettings}
+                onSettingsChange={setClusterSettings}
+                clustering={clustering}
+              />
+            </div>
+
+            <div className="bg-white p-3 rounded-lg border border-gray-200 shadow">
+              <h2 className="text-xl font-bold mb-2 text-gray-800">
+                Principal Component Analysis
+              </h2>
+              <div className="w-full overflow-x-auto">
+                <PcaBiplot
+                  statesData={stateData}
+                  metrics={metrics}
+                  selectedStates={selectedStates}
+                  onStateSelect={handleStateSelect}
+                  scoresMapped={pcaScoresShown}
+                  onMapScores={handleMapPcaScores}
+                  width={640}
+                  height={540}
+                />
+              </div>
+            </div>
+
+            <div className="bg-white p-3 rounded-lg border border-gray-200 shadow">
+              <h2 className="text-xl font-bold mb-2 text-gray-800">
+                Spatial Autocorrelation: {getMetricLabel(selectedMetric)}
+              </h2>
+              <SpatialPanel
+                metric={selectedMetric}
+                settings={spatialSettings}
+                onSettingsChange={setSpatialSettings}
+                analysis={spatial}
+                selectedStates={selectedStates}
+                onStateSelect={handleStateSelect}
               />
             </div>
           </div>
-        </div>
-      )}
-    </div>
+        )}
+      </div>
+    </ChartContextProvider>
   );
 };
 
@@ -0,0 +1,197 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { StateData } from "@/types";
+import { fetchTopoJSONData } from "@/lib/utils";
+import {
+  QualityIssue,
+  QualityIssueType,
+  checkStateData,
+  qualityIssueLabels,
+  runDataQualityChecks,
+} from "@/lib/dataQuality";
+
+interface DataQualityReportProps {
+  // When set, check this loaded dataset instead of every file in
+  // /data/vintages.json
+  data?: StateData[];
+  source?: string;
+  topoData?: any;
+  onClose?: () => void;
+}
+
+const DataQualityReport: React.FC<DataQualityReportProps> = ({
+  data,
+  source = "Loaded data",
+  topoData,
+  onClose,
+}) => {
+  const [issues, setIssues] = useState<QualityIssue[]>([]);
+  const [typeFilter, setTypeFilter] = useState<QualityIssueType | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const runChecks = async () => {
+      setIsLoading(true);
+      const topo =
+        topoData ?? (await fetchTopoJSONData("/data/states-albers-10m.json"));
+      setIssues(
+        data
+          ? checkStateData(source, data, topo)
+          : await runDataQualityChecks("/data/vintages.json", topo)
+      );
+      setIsLoading(false);
+    };
+
+    runChecks();
+  }, [data, source, topoData]);
+
+  const countsByType = useMemo(() => {
+    const counts = new Map<QualityIssueType, number>();
+    issues.forEach((i) => counts.set(i.type, (counts.get(i.type) ?? 0) + 1));
+    return counts;
+  }, [issues]);
+
+  const errorCount = issues.filter((i) => i.severity === "error").length;
+  const visibleIssues = typeFilter
+    ? issues.filter((i) => i.type === typeFilter)
+    : issues;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-xl font-semibold">Checking data...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={
+        onClose
+          ? "bg-white p-3 rounded-lg border border-gray-200 shadow text-black"
+          : "max-w-[99%] mx-auto px-2 py-4 bg-white text-black"
+      }
+    >
+      <div className="flex items-center justify-between mb-3">
+        {onClose ? (
+          <>
+            <h2 className="text-lg font-bold text-gray-800">
+              Data Quality: {source}
+            </h2>
+            <div className="flex items-center gap-3">
+              <Link
+                href="/data-quality"
+                className="text-sm text-blue-600 hover:underline"
+              >
+                Check All Bundled Files
+              </Link>
+              <button
+                onClick={onClose}
+                className="px-2 py-1 text-sm bg-gray-500 text-white rounded hover:bg-gray-600"
+              >
+                Close
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold text-gray-800">
+              Data Quality Report
+            </h1>
+            <Link
+              href="/dashboard"
+              className="text-sm text-blue-600 hover:underline"
+            >
+              Back to Dashboard
+            </Link>
+          </>
+        )}
+      </div>
+
+      <div
+        className={`p-3 mb-4 rounded border ${
+          errorCount
+            ? "bg-red-50 border-red-300 text-red-800"
+            : "bg-green-50 border-green-300 text-green-800"
+        }`}
+      >
+        {errorCount
+          ? `${errorCount} error${errorCount > 1 ? "s" : ""} and ${
+              issues.length - errorCount
+            } warning(s) found. Fix the errors before publishing this data.`
+          : `No errors found${
+              issues.length ? ` (${issues.length} warning(s) to review)` : ""
+            }.`}
+      </div>
+
+      <div className="flex flex-wrap gap-1 mb-3">
+        <div
+          className={`px-2 py-0.5 text-xs border rounded cursor-pointer ${
+            typeFilter === null
+              ? "bg-blue-100 border-blue-300 text-blue-800"
+              : "bg-gray-100 border-gray-300 hover:bg-gray-200 text-gray-800"
+          }`}
+          onClick={() => setTypeFilter(null)}
+        >
+          All ({issues.length})
+        </div>
+        {Array.from(countsByType, ([type, count]) => (
+          <div
+            key={type}
+            className={`px-2 py-0.5 text-xs border rounded cursor-pointer ${
+              typeFilter === type
+                ? "bg-blue-100 border-blue-300 text-blue-800"
+                : "bg-gray-100 border-gray-300 hover:bg-gray-200 text-gray-800"
+            }`}
+            onClick={() => setTypeFilter(type)}
+          >
+            {qualityIssueLabels[type]} ({count})
+          </div>
+        ))}
+      </div>
+
+      {visibleIssues.length > 0 && (
+        <table className="w-full text-sm text-gray-800 border border-gray-300">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="p-1 text-left">Severity</th>
+              <th className="p-1 text-left">Issue</th>
+              <th className="p-1 text-left">File</th>
+              <th className="p-1 text-right">Row</th>
+              <th className="p-1 text-left">Column</th>
+              <th className="p-1 text-left">State</th>
+              <th className="p-1 text-left">Value</th>
+              <th className="p-1 text-left">Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleIssues.map((issue, i) => (
+              <tr key={i} className="border-t border-gray-200">
+                <td
+                  className={`p-1 ${
+                    issue.severity === "error"
+                      ? "text-red-600"
+                      : "text-amber-600"
+                  }`}
+                >
+                  {issue.severity}
+                </td>
+                <td className="p-1">{qualityIssueLabels[issue.type]}</td>
+                <td className="p-1">{issue.source}</td>
+                <td className="p-1 text-right">{issue.row ?? "—"}</td>
+                <td className="p-1">{issue.column ?? "—"}</td>
+                <td className="p-1">{issue.stateId ?? "—"}</td>
+                <td className="p-1 font-mono">{issue.value ?? "—"}</td>
+                <td className="p-1">{issue.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityReport;
@@ -0,0 +1,221 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import * as d3 from "d3";
+import { DerivedMetric, MetricDirection, MetricUnit, StateData } from "@/types";
+import {
+  applyDerivedMetrics,
+  toMetricDefinition,
+  unitLabels,
+  validateDerivedMetric,
+} from "@/lib/derivedMetrics";
+import { formulaFunctions } from "@/lib/formula";
+import { getMetrics } from "@/lib/utils";
+import { formatDefinitionValue } from "@/lib/metrics";
+
+interface DerivedMetricBuilderProps {
+  data: StateData[];
+  derivedMetrics: DerivedMetric[];
+  onChange: (metrics: DerivedMetric[]) => void;
+  onClose: () => void;
+}
+
+const emptyDraft: DerivedMetric = {
+  name: "",
+  expression: "",
+  unit: "percent",
+  direction: "higher-is-better",
+};
+
+const DerivedMetricBuilder: React.FC<DerivedMetricBuilderProps> = ({
+  data,
+  derivedMetrics,
+  onChange,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<DerivedMetric>(emptyDraft);
+  const columns = useMemo(() => getMetrics(data), [data]);
+
+  const error = draft.expression.trim()
+    ? validateDerivedMetric(draft, columns)
+    : null;
+
+  // Evaluate the draft for every state to show what it would produce
+  const preview = useMemo(() => {
+    if (!draft.expression.trim() || error) return null;
+
+    const results = applyDerivedMetrics(data, [draft]).map((d) => ({
+      state: d.state_id,
+      value: d.values[draft.name],
+    }));
+    const valid = results.filter((r) => !isNaN(r.value));
+    const extent = d3.extent(valid, (r) => r.value);
+    return {
+      missing: results.length - valid.length,
+      min: extent[0] ?? NaN,
+      max: extent[1] ?? NaN,
+      sample: valid.slice(0, 3),
+    };
+  }, [data, draft, error]);
+
+  const formatPreview = (value: number) =>
+    formatDefinitionValue(value, toMetricDefinition(draft));
+
+  const insertColumn = (column: string) => {
+    setDraft({
+      ...draft,
+      expression: `${draft.expression}${
+        draft.expression && !draft.expression.endsWith(" ") ? " " : ""
+      }[${column}]`,
+    });
+  };
+
+  const addMetric = () => {
+    onChange([...derivedMetrics, { ...draft, name: draft.name.trim() }]);
+    setDraft(emptyDraft);
+  };
+
+  const removeMetric = (name: string) => {
+    // Metrics defined later may depend on this one; they are kept but will
+    // be skipped until their formula is valid again
+    onChange(derivedMetrics.filter((m) => m.name !== name));
+  };
+
+  const canAdd = !!draft.expression.trim() && !error;
+
+  return (
+    <div className="bg-white p-3 rounded-lg border border-gray-200 shadow text-sm text-gray-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold">Derived Metrics</h2>
+        <button
+          onClick={onClose}
+          className="px-2 py-1 text-sm bg-gray-500 text-white rounded hover:bg-gray-600"
+        >
+          Close
+        </button>
+      </div>
+
+      {derivedMetrics.length > 0 && (
+        <div className="space-y-1">
+          {derivedMetrics.map((metric) => (
+            <div
+              key={metric.name}
+              className="flex items-center justify-between gap-2 border border-gray-200 rounded px-2 py-1"
+            >
+              <div>
+                <strong>{metric.name}</strong> ={" "}
+                <code className="text-xs">{metric.expression}</code>
+                {!columns.includes(metric.name) && (
+                  <span className="ml-2 text-amber-600">
+                    (not available for this dataset)
+                  </span>
+                )}
+              </div>
+              <button
+                onClick={() => removeMetric(metric.name)}
+                className="px-2 py-0.5 text-xs bg-red-500 text-white rounded hover:bg-red-600"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-2 md:grid-cols-3">
+        <label className="flex flex-col gap-1">
+          <span className="font-medium">Name</span>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="% Broadband Gap"
+            className="border border-gray-300 rounded px-1 py-0.5"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-medium">Unit</span>
+          <select
+            value={draft.unit}
+            onChange={(e) =>
+              setDraft({ ...draft, unit: e.target.value as MetricUnit })
+            }
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            {Object.entries(unitLabels).map(([unit, label]) => (
+              <option key={unit} value={unit}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-medium">Direction</span>
+          <select
+            value={draft.direction}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                direction: e.target.value as MetricDirection,
+              })
+            }
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            <option value="higher-is-better">Higher is better</option>
+            <option value="higher-is-worse">Higher is worse</option>
+          </select>
+        </label>
+      </div>
+
+      <label className="flex flex-col gap-1">
+        <span className="font-medium">Formula</span>
+        <textarea
+          value={draft.expression}
+          onChange={(e) => setDraft({ ...draft, expression: e.target.value })}
+          placeholder="100 - [% Households with Broadband]"
+          rows={2}
+          className="border border-gray-300 rounded px-1 py-0.5 font-mono"
+        />
+      </label>
+      <div className="text-xs text-gray-600">
+        Put column names in [brackets]. Operators: + - * / ^, comparisons (&lt;
+        &lt;= &gt; &gt;= == !=), &amp;&amp; ||. Functions:{" "}
+        {formulaFunctions.map((f) => `${f}()`).join(", ")}.
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {columns.map((column) => (
+          <div
+            key={column}
+            className="px-2 py-0.5 text-xs border rounded cursor-pointer bg-gray-100 border-gray-300 hover:bg-gray-200 text-gray-800"
+            onClick={() => insertColumn(column)}
+          >
+            {column}
+          </div>
+        ))}
+      </div>
+
+      {error && <div className="text-red-500">{error}</div>}
+      {preview && (
+        <div className="text-gray-600">
+          Range: {formatPreview(preview.min)} to {formatPreview(preview.max)}
+          {preview.sample.length > 0 &&
+            ` — e.g. ${preview.sample
+              .map((s) => `${s.state} ${formatPreview(s.value)}`)
+              .join(", ")}`}
+          {preview.missing > 0 && ` (${preview.missing} state(s) missing)`}
+        </div>
+      )}
+
+      <button
+        onClick={addMetric}
+        disabled={!canAdd}
+        className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+      >
+        Add Metric
+      </button>
+    </div>
+  );
+};
+
+export default DerivedMetricBuilder;
@@ -2,13 +2,17 @@
 
 import React, { useEffect, useRef, useState } from "react";
 import * as d3 from "d3";
-import { StateData } from "@/types";
+import { AggregationMode, StateData } from "@/types";
 import { formatValue } from "@/lib/utils";
+import { formatWithMoe, getMoe, hasMoe } from "@/lib/uncertainty";
+import { normalizationModeLabels, useNormalizer } from "@/lib/normalization";
+import { aggregateMetric, describeWeighting } from "@/lib/aggregation";
 import {
   chartColors,
   chartContainerClass,
   chartSvgClass,
 } from "@/lib/chartStyles";
+import ChartFooter from "./ChartFooter";
 
 interface GroupBarChartProps {
   width?: number;
@@ -16,6 +20,10 @@ interface GroupBarChartProps {
   statesData: StateData[];
   metric: string;
   onStateSelect?: (stateId: string, stateData: StateData) => void;
+  // Region views draw the combined value of the region's states
+  aggregateName?: string;
+  aggregateStates?: StateData[];
+  aggregationMode?: AggregationMode;
 }
 
 const GroupBarChart: React.FC<GroupBarChartProps> = ({
@@ -24,8 +32,12 @@ const GroupBarChart: React.FC<GroupBarChartProps> = ({
   statesData,
   metric,
   onStateSelect,
+  aggregateName,
+  aggregateStates,
+  aggregationMode,
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const normalizer = useNormalizer();
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [tooltip, setTooltip] = useState<{
     visible: boolean;
@@ -59,8 +71,8 @@ const GroupBarChart: React.FC<GroupBarChartProps> = ({
 
     // Sort data
     const sortedData = [...statesData].sort((a, b) => {
-      const aValue = parseFloat(a[metric]);
-      const bValue = parseFloat(b[metric]);
+      const aValue = a.values[metric];
+      const bValue = b.values[metric];
 
       if (isNaN(aValue) && isNaN(bValue)) return 0;
       if (isNaN(aValue)) return sortOrder === "asc" ? -1 : 1;
@@ -76,14 +88,33 @@ const GroupBarChart: React.FC<GroupBarChartProps> = ({
       .range([margin.left, width - margin.right])
       .padding(0.2);
 
-    const values = sortedData.map((d) => {
-      const value = parseFloat(d[metric]);
-      return isNaN(value) ? 0 : value;
+    // Bars and error bars are drawn in the dashboard's normalization
+    const isRaw = normalizer.mode === "raw";
+    const norm = (value: number) => normalizer.normalize(value, metric);
+
+    const aggregate =
+      aggregateName && aggregateStates && aggregationMode
+        ? aggregateMetric(aggregateStates, metric, aggregationMode)
+        : null;
+
+    // Leave room for the ends of the error bars and the region's average
+    const showMoe = hasMoe(sortedData, metric);
+    const values = sortedData.flatMap((d) => {
+      const moe = showMoe ? getMoe(d, metric) || 0 : 0;
+      return [d.values[metric] + moe, d.values[metric] - moe]
+        .map(norm)
+        .map((value) => (isNaN(value) ? 0 : value));
     });
+    if (aggregate && !isNaN(norm(aggregate.value))) {
+      values.push(norm(aggregate.value));
+    }
 
     const yScale = d3
       .scaleLinear()
-      .domain([0, d3.max(values) || 0])
+      .domain([
+        isRaw ? 0 : Math.min(0, d3.min(values) || 0),
+        d3.max(values) || 0,
+      ])
       .nice()
       .range([height - margin.bottom, margin.top]);
 
@@ -117,7 +148,7 @@ const GroupBarChart: React.FC<GroupBarChartProps> = ({
       .attr("x", -(height / 2))
       .attr("text-anchor", "middle")
       .attr("fill", chartColors.text)
-      .text(metric);
+      .text(isRaw ? metric : `${metric} (${normalizer.axisLabel})`);
 
     // Add bars
     svg
@@ -127,13 +158,13 @@ const GroupBarChart: React.FC<GroupBarChartProps> = ({
       .attr("class", "bar")
       .attr("x", (d) => xScale(d.State) || 0)
       .attr("y", (d) => {
-        const value = parseFloat(d[metric]);
-        return isNaN(value) ? height - margin.bottom : yScale(value);
+        const value = norm(d.values[metric]);
+        return isNaN(value) ? yScale(0) : yScale(Math.max(0, value));
       })
       .attr("width", xScale.bandwidth())
       .attr("height", (d) => {
-        const value = parseFloat(d[metric]);
-        return isNaN(value) ? 0 : height - margin.bottom - yScale(value);
+        const value = norm(d.values[metric]);
+        return isNaN(value) ? 0 : Math.abs(yScale(0) - yScale(value));
       })
       .attr("fill", chartColors.bars)
       .on("mouseover", (event, d) => {
@@ -145,7 +176,16 @@ const GroupBarChart: React.FC<GroupBarChartProps> = ({
             <>
               <strong>{d.State}</strong>
               <br />
-              <strong>{metric}:</strong> {formatValue(d[metric], metric)}
+              <strong>{metric}:</strong>{" "}
+              {showMoe
+                ? formatWithMoe(d.values[metric], getMoe(d, metric), metric)
+                : formatValue(d.values[metric], metric)}
+              {!isRaw && (
+                <div className="text-xs">
+                  {normalizationModeLabels[normalizer.mode]}:{" "}
+                  {normalizer.format(norm(d.values[metric]))}
+                </div>
+              )}
             </>
           ),
         });
@@ -167,6 +207,89 @@ const GroupBarChart: React.FC<GroupBarChartProps> = ({
       })
       .style("cursor", onStateSelect ? "pointer" : "default");
 
+    // Draw 90% confidence intervals as whiskers
+    if (showMoe) {
+      const whiskerData = sortedData.filter(
+        (d) => !isNaN(d.values[metric]) && !isNaN(getMoe(d, metric))
+      );
+      const capWidth = Math.min(8, xScale.bandwidth() / 2);
+      const whiskers = svg
+        .append("g")
+        .attr("class", "error-bars")
+        .attr("pointer-events", "none")
+        .selectAll("g")
+        .data(whiskerData)
+        .join("g")
+        .attr(
+          "transform",
+          (d) =>
+            `translate(${(xScale(d.State) || 0) + xScale.bandwidth() / 2},0)`
+        )
+        .attr("stroke", chartColors.text)
+        .attr("stroke-width", 1);
+
+      // Raw intervals are cut off at zero, like the bars
+      const whiskerEnd = (d: StateData, sign: number) => {
+        const value = norm(d.values[metric] + sign * getMoe(d, metric));
+        return yScale(isRaw ? Math.max(0, value) : value);
+      };
+
+      whiskers
+        .append("line")
+        .attr("y1", (d) => whiskerEnd(d, -1))
+        .attr("y2", (d) => whiskerEnd(d, 1));
+
+      [-1, 1].forEach((sign) => {
+        whiskers
+          .append("line")
+          .attr("x1", -capWidth / 2)
+          .attr("x2", capWidth / 2)
+          .attr("y1", (d) => whiskerEnd(d, sign))
+          .attr("y2", (d) => whiskerEnd(d, sign));
+      });
+    }
+
+    // Dashed line at the region's weighted or simple average
+    if (aggregate && aggregationMode) {
+      const value = norm(aggregate.value);
+      if (!isNaN(value)) {
+        const y = yScale(value);
+        svg
+          .append("line")
+          .attr("x1", margin.left)
+          .attr("x2", width - margin.right)
+          .attr("y1", y)
+          .attr("y2", y)
+          .attr("stroke", chartColors.accent3)
+          .attr("stroke-width", 2)
+          .attr("stroke-dasharray", "6,3")
+          .attr("pointer-events", "none");
+
+        const label = svg
+          .append("text")
+          .attr("x", width - margin.right)
+          .attr("y", y - 16)
+          .attr("text-anchor", "end")
+          .attr("font-size", "10px")
+          .attr("fill", chartColors.text)
+          .attr("pointer-events", "none");
+        label
+          .append("tspan")
+          .text(
+            `${aggregateName} average: ${normalizer.describe(
+              aggregate.value,
+              metric
+            )}`
+          );
+        label
+          .append("tspan")
+          .attr("x", width - margin.right)
+          .attr("dy", 12)
+          .attr("font-style", "italic")
+          .text(describeWeighting(metric, aggregate, aggregationMode));
+      }
+    }
+
     // Add chart title
     svg
       .append("text")
@@ -177,7 +300,18 @@ const GroupBarChart: React.FC<GroupBarChartProps> = ({
       .attr("font-weight", "bold")
       .attr("fill", chartColors.text)
       .text(`${metric} by State`);
-  }, [statesData, metric, width, height, sortOrder, onStateSelect]);
+  }, [
+    statesData,
+    metric,
+    width,
+    height,
+    sortOrder,
+    onStateSelect,
+    normalizer,
+    aggregateName,
+    aggregateStates,
+    aggregationMode,
+  ]);
 
   if (!statesData.length) {
     return (
@@ -208,6 +342,14 @@ const GroupBarChart: React.FC<GroupBarChartProps> = ({
         className={chartSvgClass}
       />
 
+      {!hasMoe(statesData, metric) && (
+        <div className="mt-1 text-xs text-gray-500">
+          This dataset has no margins of error for this metric, so the bars have
+          no error whiskers.
+        </div>
+      )}
+      <ChartFooter />
+
       {tooltip.visible && (
         <div
           className="absolute bg-white border border-gray-300 rounded p-2 shadow-md text-sm pointer-events-none z-10 text-gray-800"
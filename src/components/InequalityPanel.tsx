@@ -0,0 +1,208 @@
+"use client";
+
+import React from "react";
+import * as d3 from "d3";
+import { AggregationMode } from "@/types";
+import { formatValue } from "@/lib/utils";
+import { getMetricDefinition, getMetricLabel } from "@/lib/metrics";
+import { InequalityMeasures } from "@/lib/inequality";
+
+interface InequalityPanelProps {
+  measures: Record<string, InequalityMeasures>;
+  metrics: string[];
+  selectedMetric: string;
+  onMetricSelect: (metric: string) => void;
+  aggregationMode: AggregationMode;
+}
+
+const formatter = (specifier: string) => (value: number) =>
+  isFinite(value) ? d3.format(specifier)(value) : "–";
+const formatIndex = formatter(".3f");
+const formatTheil = formatter(".4f");
+const formatShare = formatter(".0%");
+const formatRatio = (value: number) =>
+  isFinite(value) ? `${d3.format(".2f")(value)}×` : "–";
+
+const columns: {
+  label: string;
+  title: string;
+  value: (m: InequalityMeasures) => string;
+}[] = [
+  {
+    label: "Gini",
+    title: "0 when every state is equal, approaching 1 at the extreme",
+    value: (m) => formatIndex(m.gini),
+  },
+  {
+    label: "Theil T",
+    title: "Sensitive to differences among states above the mean",
+    value: (m) => formatTheil(m.theilT),
+  },
+  {
+    label: "Theil L",
+    title: "Sensitive to differences among states below the mean",
+    value: (m) => formatTheil(m.theilL),
+  },
+  {
+    label: "CV",
+    title: "Standard deviation divided by the mean",
+    value: (m) => formatIndex(m.cv),
+  },
+  {
+    label: "90/10",
+    title: "90th percentile state divided by the 10th",
+    value: (m) => formatRatio(m.ratio9010),
+  },
+  {
+    label: "Between Regions",
+    title: "Share of Theil T due to differences between the regional means",
+    value: (m) => formatShare(m.theilTDecomposition.betweenShare),
+  },
+];
+
+const InequalityPanel: React.FC<InequalityPanelProps> = ({
+  measures,
+  metrics,
+  selectedMetric,
+  onMetricSelect,
+  aggregationMode,
+}) => {
+  const selected = measures[selectedMetric];
+  const weightKey = getMetricDefinition(selectedMetric).weight;
+  const missingWeights =
+    aggregationMode === "weighted" && selected && !selected.weighted;
+
+  return (
+    <div className="text-sm text-gray-800 space-y-3">
+      {missingWeights && (
+        <div className="p-2 rounded border bg-amber-50 border-amber-300 text-xs text-amber-800">
+          Unweighted (no household counts in this dataset)
+        </div>
+      )}
+      <div className="w-full overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="border-b border-gray-300 text-xs text-gray-600">
+              <th className="py-1 pr-2">Metric</th>
+              {columns.map((column) => (
+                <th
+                  key={column.label}
+                  className="py-1 pr-2 text-right"
+                  title={column.title}
+                >
+                  {column.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {metrics
+              .filter((metric) => measures[metric])
+              .map((metric) => (
+                <tr
+                  key={metric}
+                  className={`border-b border-gray-100 cursor-pointer hover:bg-gray-50 ${
+                    metric === selectedMetric ? "bg-blue-50 font-medium" : ""
+                  }`}
+                  onClick={() => onMetricSelect(metric)}
+                >
+                  <td className="py-1 pr-2">{getMetricLabel(metric)}</td>
+                  {columns.map((column) => (
+                    <td key={column.label} className="py-1 pr-2 text-right">
+                      {column.value(measures[metric])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && (
+        <div className="space-y-2">
+          <h3 className="text-base font-medium">
+            Regional Decomposition: {getMetricLabel(selectedMetric)}
+          </h3>
+          {[
+            { label: "Theil T", decomposition: selected.theilTDecomposition },
+            { label: "Theil L", decomposition: selected.theilLDecomposition },
+          ].map(({ label, decomposition }) => (
+            <div key={label} className="flex items-center gap-2 text-xs">
+              <span className="w-16">{label}</span>
+              {isFinite(decomposition.betweenShare) ? (
+                <>
+                  <div className="flex flex-1 h-3 bg-gray-100 rounded overflow-hidden">
+                    <div
+                      className="h-3 bg-blue-500"
+                      style={{ width: `${decomposition.betweenShare * 100}%` }}
+                    />
+                    <div className="h-3 flex-1 bg-gray-300" />
+                  </div>
+                  <span className="w-64">
+                    {formatShare(decomposition.betweenShare)} between regions (
+                    {formatTheil(decomposition.between)}),{" "}
+                    {formatShare(1 - decomposition.betweenShare)} within (
+                    {formatTheil(decomposition.within)})
+                  </span>
+                </>
+              ) : (
+                <span className="text-gray-500">
+                  Not defined for this metric&apos;s values
+                </span>
+              )}
+            </div>
+          ))}
+
+          <table className="text-left text-xs">
+            <thead>
+              <tr className="border-b border-gray-300 text-gray-600">
+                <th className="py-1 pr-4">Region</th>
+                <th className="py-1 pr-4 text-right">States</th>
+                <th className="py-1 pr-4 text-right">
+                  {selected.weighted ? `Share of ${weightKey}` : "Share"}
+                </th>
+                <th className="py-1 pr-4 text-right">Mean</th>
+                <th className="py-1 pr-4 text-right">Theil T Within</th>
+                <th className="py-1 text-right">Theil L Within</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selected.regions.map((region) => (
+                <tr key={region.region} className="border-b border-gray-100">
+                  <td className="py-1 pr-4">{region.region}</td>
+                  <td className="py-1 pr-4 text-right">{region.states}</td>
+                  <td className="py-1 pr-4 text-right">
+                    {formatShare(region.weightShare)}
+                  </td>
+                  <td className="py-1 pr-4 text-right">
+                    {formatValue(region.mean, selectedMetric)}
+                  </td>
+                  <td className="py-1 pr-4 text-right">
+                    {formatTheil(region.theilT)}
+                  </td>
+                  <td className="py-1 text-right">
+                    {formatTheil(region.theilL)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="text-xs text-gray-500">
+        {aggregationMode === "weighted"
+          ? selected && !selected.weighted
+            ? "The loaded data has no household or population counts for this metric, so every state counts once. "
+            : "States are weighted by their household or population counts. "
+          : "Every state counts once. "}
+        The measures compare state averages, not households within a state, so
+        they understate the full divide. Theil indexes add up exactly across
+        regions: the blue share is the part explained by differences between the
+        regional means. Click a row to map the metric.
+      </div>
+    </div>
+  );
+};
+
+export default InequalityPanel;
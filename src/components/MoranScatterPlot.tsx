@@ -0,0 +1,260 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import * as d3 from "d3";
+import { LisaCategory, StateData } from "@/types";
+import { formatValue, stateToFipsMap } from "@/lib/utils";
+import { getMetricLabel } from "@/lib/metrics";
+import { formatPValue } from "@/lib/statistics";
+import {
+  LocalMoran,
+  SpatialAutocorrelation,
+  lisaCategories,
+  lisaColors,
+} from "@/lib/spatial";
+import { chartColors, chartSvgClass } from "@/lib/chartStyles";
+import ChartFooter from "./ChartFooter";
+
+interface MoranScatterPlotProps {
+  width?: number;
+  height?: number;
+  analysis: SpatialAutocorrelation;
+  selectedStates: { id: string; data: StateData }[];
+  onStateSelect: (stateId: string, stateData: StateData) => void;
+}
+
+const MoranScatterPlot: React.FC<MoranScatterPlotProps> = ({
+  width = 600,
+  height = 500,
+  analysis,
+  selectedStates,
+  onStateSelect,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [tooltip, setTooltip] = useState<{
+    visible: boolean;
+    x: number;
+    y: number;
+    content: React.ReactNode;
+  }>({
+    visible: false,
+    x: 0,
+    y: 0,
+    content: null,
+  });
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+    svg.attr("style", "background-color: white;");
+
+    const margin = { top: 40, right: 130, bottom: 60, left: 70 };
+    const chartWidth = width - margin.left - margin.right;
+    const chartHeight = height - margin.top - margin.bottom;
+    const g = svg
+      .append("g")
+      .attr("transform", `translate(${margin.left}, ${margin.top})`);
+
+    const { locals, metric, moransI } = analysis;
+
+    // Symmetric axes keep the quadrants the same size
+    const extent =
+      d3.max(locals, (l) => Math.max(Math.abs(l.z), Math.abs(l.lag))) || 1;
+    const x = d3
+      .scaleLinear()
+      .domain([-extent, extent])
+      .nice()
+      .range([0, chartWidth]);
+    const y = d3.scaleLinear().domain(x.domain()).range([chartHeight, 0]);
+
+    g.append("g")
+      .attr("transform", `translate(0, ${chartHeight})`)
+      .call(d3.axisBottom(x).ticks(8))
+      .call((axis) => axis.selectAll("text").attr("fill", chartColors.text))
+      .call((axis) =>
+        axis.selectAll("line, path").attr("stroke", chartColors.axis)
+      );
+    g.append("g")
+      .call(d3.axisLeft(y).ticks(8))
+      .call((axis) => axis.selectAll("text").attr("fill", chartColors.text))
+      .call((axis) =>
+        axis.selectAll("line, path").attr("stroke", chartColors.axis)
+      );
+
+    g.append("text")
+      .attr("x", chartWidth / 2)
+      .attr("y", chartHeight + 42)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "12px")
+      .attr("fill", chartColors.text)
+      .text(`${getMetricLabel(metric)} (standardized)`);
+    g.append("text")
+      .attr("transform", "rotate(-90)")
+      .attr("x", -chartHeight / 2)
+      .attr("y", -48)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "12px")
+      .attr("fill", chartColors.text)
+      .text("Spatial lag (mean of neighbors)");
+
+    // Quadrant lines through the mean
+    g.append("line")
+      .attr("x1", x(0))
+      .attr("x2", x(0))
+      .attr("y1", 0)
+      .attr("y2", chartHeight)
+      .attr("stroke", chartColors.grid)
+      .attr("stroke-dasharray", "4,4");
+    g.append("line")
+      .attr("x1", 0)
+      .attr("x2", chartWidth)
+      .attr("y1", y(0))
+      .attr("y2", y(0))
+      .attr("stroke", chartColors.grid)
+      .attr("stroke-dasharray", "4,4");
+
+    // The slope of the lag on the value is Moran's I
+    const [x0, x1] = x.domain();
+    g.append("line")
+      .attr("x1", x(x0))
+      .attr("y1", y(moransI * x0))
+      .attr("x2", x(x1))
+      .attr("y2", y(moransI * x1))
+      .attr("stroke", chartColors.highlight)
+      .attr("stroke-width", 2);
+
+    // The map's light gray for non-significant states would vanish on white
+    const categoryColor = (category: LisaCategory) =>
+      category === "Not significant" ? chartColors.axis : lisaColors[category];
+    const fipsOf = (d: StateData) => stateToFipsMap[d.state_id] ?? d.state_id;
+    const isSelected = (l: LocalMoran) =>
+      selectedStates.some(
+        (s) => s.id === fipsOf(l.state) || s.id === l.state.state_id
+      );
+
+    g.selectAll(".point")
+      .data(locals)
+      .join("circle")
+      .attr("class", "point")
+      .attr("cx", (l) => x(l.z))
+      .attr("cy", (l) => y(l.lag))
+      .attr("r", 5)
+      .attr("fill", (l) => categoryColor(l.category))
+      .attr("fill-opacity", 0.8)
+      .attr("stroke", (l) => (isSelected(l) ? "#000" : "white"))
+      .attr("stroke-width", (l) => (isSelected(l) ? 2 : 1))
+      .style("cursor", "pointer")
+      .on("mouseover", (event, l) => {
+        setTooltip({
+          visible: true,
+          x: event.pageX,
+          y: event.pageY,
+          content: (
+            <>
+              <strong>{l.state.State}</strong>
+              <br />
+              {getMetricLabel(metric)}:{" "}
+              {formatValue(l.state.values[metric], metric)}
+              <br />
+              Local Moran&apos;s I: {d3.format(".3f")(l.value)} (p ={" "}
+              {formatPValue(l.p)})
+              <br />
+              {l.category} · {l.neighbors} neighbors
+            </>
+          ),
+        });
+      })
+      .on("mousemove", (event) => {
+        setTooltip((prev) => ({
+          ...prev,
+          x: event.pageX + 10,
+          y: event.pageY + 10,
+        }));
+      })
+      .on("mouseout", () => {
+        setTooltip((prev) => ({ ...prev, visible: false }));
+      })
+      .on("click", (_, l) => {
+        onStateSelect(fipsOf(l.state), l.state);
+      });
+
+    // Label significant and selected states
+    g.selectAll(".point-label")
+      .data(
+        locals.filter((l) => l.category !== "Not significant" || isSelected(l))
+      )
+      .join("text")
+      .attr("class", "point-label")
+      .attr("x", (l) => x(l.z) + 8)
+      .attr("y", (l) => y(l.lag))
+      .attr("dominant-baseline", "middle")
+      .attr("font-size", "10px")
+      .attr("font-weight", (l) => (isSelected(l) ? "bold" : "normal"))
+      .attr("fill", chartColors.text)
+      .attr("pointer-events", "none")
+      .text((l) => l.state.state_id);
+
+    const legend = svg
+      .append("g")
+      .attr(
+        "transform",
+        `translate(${width - margin.right + 20}, ${margin.top})`
+      );
+    lisaCategories.forEach((category, i) => {
+      legend
+        .append("circle")
+        .attr("cx", 6)
+        .attr("cy", i * 20 + 6)
+        .attr("r", 5)
+        .attr("fill", categoryColor(category));
+      legend
+        .append("text")
+        .attr("x", 16)
+        .attr("y", i * 20 + 10)
+        .attr("font-size", "12px")
+        .attr("fill", chartColors.text)
+        .text(category);
+    });
+
+    svg
+      .append("text")
+      .attr("x", width / 2)
+      .attr("y", 22)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "13px")
+      .attr("fill", chartColors.text)
+      .text(
+        `Moran's I = ${d3.format(".3f")(moransI)} · pseudo p = ${formatPValue(
+          analysis.p
+        )} · n = ${locals.length}`
+      );
+  }, [analysis, selectedStates, onStateSelect, width, height]);
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        className={`${chartSvgClass} border border-gray-300`}
+      />
+      <ChartFooter />
+
+      {tooltip.visible && (
+        <div
+          className="absolute bg-white border border-gray-300 rounded p-2 shadow-md text-sm pointer-events-none z-10"
+          style={{
+            left: tooltip.x + "px",
+            top: tooltip.y + "px",
+          }}
+        >
+          {tooltip.content}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MoranScatterPlot;
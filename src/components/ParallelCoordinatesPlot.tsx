@@ -3,12 +3,14 @@
 import React, { useEffect, useRef, useState } from "react";
 import * as d3 from "d3";
 import { StateData } from "@/types";
-import { formatValue } from "@/lib/utils";
+import { getMetricLabel } from "@/lib/metrics";
+import { useNormalizer } from "@/lib/normalization";
 import {
   chartColors,
   chartContainerClass,
   chartSvgClass,
 } from "@/lib/chartStyles";
+import ChartFooter from "./ChartFooter";
 
 interface ParallelCoordinatesPlotProps {
   width?: number;
@@ -26,6 +28,7 @@ const ParallelCoordinatesPlot: React.FC<ParallelCoordinatesPlotProps> = ({
   selectedStates = [],
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const normalizer = useNormalizer();
   const [selectedMetrics, setSelectedMetrics] = useState<string[]>([]);
   const [draggedMetric, setDraggedMetric] = useState<string | null>(null);
   const [dragPosition, setDragPosition] = useState<number | null>(null);
@@ -114,7 +117,7 @@ const ParallelCoordinatesPlot: React.FC<ParallelCoordinatesPlotProps> = ({
     const normalizedData = statesData.map((state) => {
       const values: Record<string, number> = {};
       selectedMetrics.forEach((metric) => {
-        let value = parseFloat(state[metric]);
+        let value = normalizer.normalize(state.values[metric], metric);
         if (isNaN(value)) value = 0;
         values[metric] = value;
       });
@@ -126,13 +129,16 @@ const ParallelCoordinatesPlot: React.FC<ParallelCoordinatesPlotProps> = ({
       };
     });
 
-    // Create scales for each metric
+    // Create scales for each metric. Normalized metrics share one scale so
+    // positions can be compared across axes.
+    const isRaw = normalizer.mode === "raw";
     const metricScales: Record<string, d3.ScaleLinear<number, number>> = {};
     selectedMetrics.forEach((metric) => {
-      const values = statesData.map((state) => {
-        const val = parseFloat(state[metric]);
-        return isNaN(val) ? 0 : val;
-      });
+      const values = normalizedData.flatMap((state) =>
+        isRaw
+          ? [state.values[metric]]
+          : selectedMetrics.map((m) => state.values[m])
+      );
 
       // Create domain with padding
       const min = d3.min(values) || 0;
@@ -179,7 +185,7 @@ const ParallelCoordinatesPlot: React.FC<ParallelCoordinatesPlotProps> = ({
         .attr("fill", chartColors.text)
         .attr("cursor", "grab")
         .attr("class", "metric-label")
-        .text(metric.length > 15 ? metric.substring(0, 12) + "..." : metric)
+        .text(getMetricLabel(metric))
         .on("mousedown", (event) => {
           // Prevent text selection during drag
           event.preventDefault();
@@ -351,10 +357,11 @@ const ParallelCoordinatesPlot: React.FC<ParallelCoordinatesPlotProps> = ({
                 <br />
                 {selectedMetrics.map((metric) => (
                   <div key={metric}>
-                    {metric.length > 20
-                      ? metric.substring(0, 17) + "..."
-                      : metric}
-                    : {formatValue(state.originalData[metric], metric)}
+                    {getMetricLabel(metric)}
+                    : {normalizer.describe(
+                      state.originalData.values[metric],
+                      metric
+                    )}
                   </div>
                 ))}
               </>
@@ -412,7 +419,11 @@ const ParallelCoordinatesPlot: React.FC<ParallelCoordinatesPlotProps> = ({
       .attr("font-size", "14px")
       .attr("font-weight", "bold")
       .attr("fill", chartColors.text)
-      .text("Parallel Coordinates Plot");
+      .text(
+        isRaw
+          ? "Parallel Coordinates Plot"
+          : `Parallel Coordinates Plot: ${normalizer.axisLabel}`
+      );
 
     // Add a hint about dragging axes
     svg
@@ -423,7 +434,7 @@ const ParallelCoordinatesPlot: React.FC<ParallelCoordinatesPlotProps> = ({
       .attr("font-size", "10px")
       .attr("fill", chartColors.text)
       .text("↔️ Drag axis labels to reorder");
-  }, [statesData, selectedMetrics, width, height, selectedStates]);
+  }, [statesData, selectedMetrics, width, height, selectedStates, normalizer]);
 
   return (
     <div className="relative bg-white p-2 rounded border border-gray-200">
@@ -458,7 +469,7 @@ const ParallelCoordinatesPlot: React.FC<ParallelCoordinatesPlotProps> = ({
               `}
             >
               <span className="mr-1 text-gray-500 cursor-move text-xs">⋮</span>
-              {metric.length > 15 ? metric.substring(0, 12) + "..." : metric}
+              {getMetricLabel(metric)}
               <button
                 className="ml-1 text-red-500 hover:text-red-700 text-xs"
                 onClick={() => toggleMetric(metric)}
@@ -481,7 +492,7 @@ const ParallelCoordinatesPlot: React.FC<ParallelCoordinatesPlotProps> = ({
                 className="px-2 py-0.5 text-xs bg-gray-100 border border-gray-300 rounded cursor-pointer hover:bg-gray-200"
                 onClick={() => toggleMetric(metric)}
               >
-                {metric.length > 15 ? metric.substring(0, 12) + "..." : metric}
+                {getMetricLabel(metric)}
               </div>
             ))}
         </div>
@@ -494,6 +505,8 @@ const ParallelCoordinatesPlot: React.FC<ParallelCoordinatesPlotProps> = ({
         className={chartSvgClass}
       />
 
+      <ChartFooter />
+
       {tooltip.visible && (
         <div
           className="absolute bg-white border border-gray-300 rounded p-2 shadow-md text-sm pointer-events-none z-10 text-gray-800"
@@ -0,0 +1,448 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import * as d3 from "d3";
+import { StateData } from "@/types";
+import { stateToFipsMap } from "@/lib/utils";
+import { getMetricLabel } from "@/lib/metrics";
+import { computePca, isPcaScoreColumn, pcaScoreColumns } from "@/lib/pca";
+import { chartColors, chartSvgClass } from "@/lib/chartStyles";
+import ChartFooter from "./ChartFooter";
+
+interface PcaBiplotProps {
+  width?: number;
+  height?: number;
+  statesData: StateData[];
+  metrics: string[];
+  selectedStates: { id: string; data: StateData }[];
+  onStateSelect: (stateId: string, stateData: StateData) => void;
+  scoresMapped: boolean;
+  // Called with a score column to map, or null to drop the score columns
+  onMapScores: (column: string | null) => void;
+}
+
+const screeWidth = 320;
+
+const PcaBiplot: React.FC<PcaBiplotProps> = ({
+  width = 600,
+  height = 520,
+  statesData,
+  metrics,
+  selectedStates,
+  onStateSelect,
+  scoresMapped,
+  onMapScores,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const screeRef = useRef<SVGSVGElement>(null);
+  const [tooltip, setTooltip] = useState<{
+    visible: boolean;
+    x: number;
+    y: number;
+    content: React.ReactNode;
+  }>({
+    visible: false,
+    x: 0,
+    y: 0,
+    content: null,
+  });
+
+  const pca = useMemo(
+    () =>
+      computePca(
+        statesData,
+        metrics.filter((m) => !isPcaScoreColumn(m))
+      ),
+    [statesData, metrics]
+  );
+
+  // Biplot of the first two components
+  useEffect(() => {
+    if (!pca || !svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+    svg.attr("style", "background-color: white;");
+
+    const margin = { top: 30, right: 30, bottom: 50, left: 60 };
+    const chartWidth = width - margin.left - margin.right;
+    const chartHeight = height - margin.top - margin.bottom;
+    const g = svg
+      .append("g")
+      .attr("transform", `translate(${margin.left}, ${margin.top})`);
+
+    // Symmetric axes keep the origin, where the arrows start, centered
+    const extent =
+      d3.max(pca.scores, (s) => Math.max(Math.abs(s[0]), Math.abs(s[1]))) || 1;
+    const x = d3
+      .scaleLinear()
+      .domain([-extent, extent])
+      .nice()
+      .range([0, chartWidth]);
+    const y = d3
+      .scaleLinear()
+      .domain([-extent, extent])
+      .nice()
+      .range([chartHeight, 0]);
+
+    g.append("g")
+      .attr("transform", `translate(0, ${chartHeight})`)
+      .call(d3.axisBottom(x).ticks(8))
+      .call((axis) => axis.selectAll("text").attr("fill", chartColors.text))
+      .call((axis) =>
+        axis.selectAll("line, path").attr("stroke", chartColors.axis)
+      );
+    g.append("g")
+      .call(d3.axisLeft(y).ticks(8))
+      .call((axis) => axis.selectAll("text").attr("fill", chartColors.text))
+      .call((axis) =>
+        axis.selectAll("line, path").attr("stroke", chartColors.axis)
+      );
+
+    [
+      [x(0), 0, x(0), chartHeight],
+      [0, y(0), chartWidth, y(0)],
+    ].forEach(([x1, y1, x2, y2]) => {
+      g.append("line")
+        .attr("x1", x1)
+        .attr("y1", y1)
+        .attr("x2", x2)
+        .attr("y2", y2)
+        .attr("stroke", chartColors.grid);
+    });
+
+    const [pc1, pc2] = pca.components;
+    g.append("text")
+      .attr("x", chartWidth / 2)
+      .attr("y", chartHeight + 40)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "12px")
+      .attr("fill", chartColors.text)
+      .text(`PC1 (${d3.format(".1%")(pc1.explained)} of variance)`);
+    g.append("text")
+      .attr("transform", "rotate(-90)")
+      .attr("x", -chartHeight / 2)
+      .attr("y", -42)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "12px")
+      .attr("fill", chartColors.text)
+      .text(`PC2 (${d3.format(".1%")(pc2.explained)} of variance)`);
+
+    // State points
+    const points = pca.states.map((state, i) => ({
+      state,
+      fips: stateToFipsMap[state.state_id] ?? state.state_id,
+      pc1: pca.scores[i][0],
+      pc2: pca.scores[i][1],
+    }));
+    const isSelected = (d: { state: StateData; fips: string }) =>
+      selectedStates.some((s) => s.id === d.fips || s.id === d.state.state_id);
+
+    const point = g
+      .selectAll(".point")
+      .data(points)
+      .join("g")
+      .attr("class", "point")
+      .attr("transform", (d) => `translate(${x(d.pc1)}, ${y(d.pc2)})`)
+      .style("cursor", "pointer")
+      .on("mouseover", (event, d) => {
+        setTooltip({
+          visible: true,
+          x: event.pageX,
+          y: event.pageY,
+          content: (
+            <>
+              <strong>{d.state.State}</strong>
+              <br />
+              PC1: {d3.format(".2f")(d.pc1)}
+              <br />
+              PC2: {d3.format(".2f")(d.pc2)}
+            </>
+          ),
+        });
+      })
+      .on("mousemove", (event) => {
+        setTooltip((prev) => ({
+          ...prev,
+          x: event.pageX + 10,
+          y: event.pageY + 10,
+        }));
+      })
+      .on("mouseout", () => {
+        setTooltip((prev) => ({ ...prev, visible: false }));
+      })
+      .on("click", (_, d) => {
+        onStateSelect(d.fips, d.state);
+      });
+
+    point
+      .append("circle")
+      .attr("r", (d) => (isSelected(d) ? 6 : 4))
+      .attr("fill", (d) =>
+        isSelected(d) ? chartColors.accent1 : chartColors.bars
+      )
+      .attr("fill-opacity", 0.7)
+      .attr("stroke", (d) => (isSelected(d) ? "#000" : "white"));
+
+    point
+      .append("text")
+      .attr("x", 6)
+      .attr("y", 3)
+      .attr("font-size", "8px")
+      .attr("font-weight", (d) => (isSelected(d) ? "bold" : "normal"))
+      .attr("fill", chartColors.text)
+      .attr("pointer-events", "none")
+      .text((d) => d.state.state_id);
+
+    // Loading arrows, scaled so the longest reaches most of the way out
+    const longest =
+      d3.max(pca.metrics, (_, j) =>
+        Math.hypot(pc1.loadings[j], pc2.loadings[j])
+      ) || 1;
+    const arrowScale = (0.85 * extent) / longest;
+
+    svg
+      .append("defs")
+      .append("marker")
+      .attr("id", "pca-arrow")
+      .attr("viewBox", "0 0 10 10")
+      .attr("refX", 9)
+      .attr("refY", 5)
+      .attr("markerWidth", 6)
+      .attr("markerHeight", 6)
+      .attr("orient", "auto")
+      .append("path")
+      .attr("d", "M0,0 L10,5 L0,10 Z")
+      .attr("fill", chartColors.accent1);
+
+    const arrow = g
+      .selectAll(".loading")
+      .data(pca.metrics)
+      .join("g")
+      .attr("class", "loading")
+      .on("mouseover", (event, metric) => {
+        const j = pca.metrics.indexOf(metric);
+        setTooltip({
+          visible: true,
+          x: event.pageX,
+          y: event.pageY,
+          content: (
+            <>
+              <strong>{metric}</strong>
+              <br />
+              PC1 loading: {d3.format(".3f")(pc1.loadings[j])}
+              <br />
+              PC2 loading: {d3.format(".3f")(pc2.loadings[j])}
+            </>
+          ),
+        });
+      })
+      .on("mousemove", (event) => {
+        setTooltip((prev) => ({
+          ...prev,
+          x: event.pageX + 10,
+          y: event.pageY + 10,
+        }));
+      })
+      .on("mouseout", () => {
+        setTooltip((prev) => ({ ...prev, visible: false }));
+      });
+
+    arrow
+      .append("line")
+      .attr("x1", x(0))
+      .attr("y1", y(0))
+      .attr("x2", (_, j) => x(pc1.loadings[j] * arrowScale))
+      .attr("y2", (_, j) => y(pc2.loadings[j] * arrowScale))
+      .attr("stroke", chartColors.accent1)
+      .attr("stroke-width", 1.5)
+      .attr("marker-end", "url(#pca-arrow)");
+
+    arrow
+      .append("text")
+      .attr("x", (_, j) => x(pc1.loadings[j] * arrowScale * 1.08))
+      .attr("y", (_, j) => y(pc2.loadings[j] * arrowScale * 1.08))
+      .attr("text-anchor", (_, j) => (pc1.loadings[j] < 0 ? "end" : "start"))
+      .attr("dominant-baseline", "middle")
+      .attr("font-size", "10px")
+      .attr("fill", chartColors.accent1)
+      .text((metric) => getMetricLabel(metric));
+  }, [pca, selectedStates, onStateSelect, width, height]);
+
+  // Scree plot: variance explained by each component, with the running
+  // total
+  useEffect(() => {
+    if (!pca || !screeRef.current) return;
+
+    const svg = d3.select(screeRef.current);
+    svg.selectAll("*").remove();
+    svg.attr("style", "background-color: white;");
+
+    const margin = { top: 30, right: 20, bottom: 40, left: 45 };
+    const chartWidth = screeWidth - margin.left - margin.right;
+    const chartHeight = height / 2 - margin.top - margin.bottom;
+    const g = svg
+      .append("g")
+      .attr("transform", `translate(${margin.left}, ${margin.top})`);
+
+    const labels = pca.components.map((_, k) => `PC${k + 1}`);
+    const x = d3.scaleBand().domain(labels).range([0, chartWidth]).padding(0.2);
+    const y = d3.scaleLinear().domain([0, 1]).range([chartHeight, 0]);
+    let cumulative = 0;
+    const totals = pca.components.map((c) => (cumulative += c.explained));
+
+    g.append("g")
+      .attr("transform", `translate(0, ${chartHeight})`)
+      .call(d3.axisBottom(x))
+      .call((axis) =>
+        axis
+          .selectAll("text")
+          .attr("fill", chartColors.text)
+          .attr("font-size", "8px")
+      )
+      .call((axis) =>
+        axis.selectAll("line, path").attr("stroke", chartColors.axis)
+      );
+    g.append("g")
+      .call(d3.axisLeft(y).ticks(5).tickFormat(d3.format(".0%")))
+      .call((axis) => axis.selectAll("text").attr("fill", chartColors.text))
+      .call((axis) =>
+        axis.selectAll("line, path").attr("stroke", chartColors.axis)
+      );
+
+    g.selectAll(".bar")
+      .data(pca.components)
+      .join("rect")
+      .attr("class", "bar")
+      .attr("x", (_, k) => x(labels[k])!)
+      .attr("y", (c) => y(c.explained))
+      .attr("width", x.bandwidth())
+      .attr("height", (c) => chartHeight - y(c.explained))
+      .attr("fill", chartColors.bars)
+      .on("mouseover", (event, c) => {
+        const k = pca.components.indexOf(c);
+        setTooltip({
+          visible: true,
+          x: event.pageX,
+          y: event.pageY,
+          content: (
+            <>
+              <strong>{labels[k]}</strong>
+              <br />
+              Eigenvalue: {d3.format(".2f")(c.eigenvalue)}
+              <br />
+              Explained: {d3.format(".1%")(c.explained)}
+              <br />
+              Cumulative: {d3.format(".1%")(totals[k])}
+            </>
+          ),
+        });
+      })
+      .on("mousemove", (event) => {
+        setTooltip((prev) => ({
+          ...prev,
+          x: event.pageX + 10,
+          y: event.pageY + 10,
+        }));
+      })
+      .on("mouseout", () => {
+        setTooltip((prev) => ({ ...prev, visible: false }));
+      });
+
+    g.append("path")
+      .datum(totals)
+      .attr("fill", "none")
+      .attr("stroke", chartColors.accent1)
+      .attr("stroke-width", 1.5)
+      .attr(
+        "d",
+        d3
+          .line<number>()
+          .x((_, k) => x(labels[k])! + x.bandwidth() / 2)
+          .y((t) => y(t))
+      );
+
+    svg
+      .append("text")
+      .attr("x", screeWidth / 2)
+      .attr("y", 18)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "12px")
+      .attr("font-weight", "bold")
+      .attr("fill", chartColors.text)
+      .text("Variance Explained");
+  }, [pca, height]);
+
+  if (!pca) {
+    return (
+      <div className="text-sm text-gray-600">
+        Principal components need at least two metrics and three states with
+        values for all of them.
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+        {pcaScoreColumns.map((column) => (
+          <button
+            key={column}
+            onClick={() => onMapScores(column)}
+            className="px-2 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+          >
+            Map {column.replace(" Score", "")} Scores
+          </button>
+        ))}
+        {scoresMapped && (
+          <button
+            onClick={() => onMapScores(null)}
+            className="px-2 py-1 text-sm bg-gray-500 text-white rounded hover:bg-gray-600"
+          >
+            Remove Scores
+          </button>
+        )}
+        <span className="text-xs text-gray-500">
+          Based on {pca.metrics.length} standardized metrics for{" "}
+          {pca.states.length} states.
+        </span>
+      </div>
+      <div className="flex flex-col lg:flex-row gap-3">
+        <svg
+          ref={svgRef}
+          width={width}
+          height={height}
+          className={`${chartSvgClass} border border-gray-300`}
+        />
+        <div>
+          <svg
+            ref={screeRef}
+            width={screeWidth}
+            height={height / 2}
+            className={`${chartSvgClass} border border-gray-300`}
+          />
+          <div className="mt-2 text-xs text-gray-600 max-w-[320px]">
+            Points are states placed by their scores on the first two
+            components. Arrows show how each metric loads on them: states lie
+            toward the arrows of metrics where they are high.
+          </div>
+        </div>
+      </div>
+      <ChartFooter />
+
+      {tooltip.visible && (
+        <div
+          className="absolute bg-white border border-gray-300 rounded p-2 shadow-md text-sm pointer-events-none z-10"
+          style={{
+            left: tooltip.x + "px",
+            top: tooltip.y + "px",
+          }}
+        >
+          {tooltip.content}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PcaBiplot;
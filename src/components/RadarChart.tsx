@@ -2,13 +2,17 @@
 
 import React, { useEffect, useRef, useState } from "react";
 import * as d3 from "d3";
-import { StateData } from "@/types";
+import { AggregationMode, StateData } from "@/types";
 import { formatValue } from "@/lib/utils";
+import { getChartValue, getMetricLabel } from "@/lib/metrics";
+import { useNormalizer } from "@/lib/normalization";
+import { aggregateMetric, describeWeighting } from "@/lib/aggregation";
 import {
   chartColors,
   chartContainerClass,
   chartSvgClass,
 } from "@/lib/chartStyles";
+import ChartFooter from "./ChartFooter";
 
 interface RadarChartProps {
   width?: number;
@@ -16,6 +20,11 @@ interface RadarChartProps {
   statesData: StateData[];
   metrics: string[];
   onMetricSelect?: (metric: string) => void;
+  title?: string;
+  // Region views draw the combined values of the region's states
+  aggregateName?: string;
+  aggregateStates?: StateData[];
+  aggregationMode?: AggregationMode;
 }
 
 const RadarChart: React.FC<RadarChartProps> = ({
@@ -24,8 +33,13 @@ const RadarChart: React.FC<RadarChartProps> = ({
   statesData,
   metrics,
   onMetricSelect,
+  title,
+  aggregateName,
+  aggregateStates,
+  aggregationMode,
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const normalizer = useNormalizer();
   const [tooltip, setTooltip] = useState<{
     visible: boolean;
     x: number;
@@ -58,33 +72,50 @@ const RadarChart: React.FC<RadarChartProps> = ({
       .append("g")
       .attr("transform", `translate(${width / 2}, ${height / 2})`);
 
+    // Raw values are drawn as a share of each metric's maximum; the other
+    // modes are already on a common scale
+    const isRaw = normalizer.mode === "raw";
+
     // Prepare the data
     const normalizedData = statesData.map((state) => {
       const values = metrics.map((metric) => {
-        let value = parseFloat(state[metric]);
-        if (isNaN(value)) value = 0;
-
-        // Scale down large values for visualization
-        if (metric === "Median Household Income") {
-          value = value / 1000;
-        }
-        return { metric, value };
+        const value = normalizer.chartValue(state.values[metric], metric);
+        return {
+          metric,
+          value: isNaN(value) && isRaw ? 0 : value,
+          original: state.values[metric],
+        };
       });
       return { state: state.State, values };
     });
 
+    const aggregates =
+      aggregateName && aggregateStates && aggregationMode
+        ? metrics.map((metric) => {
+            const aggregate = aggregateMetric(
+              aggregateStates,
+              metric,
+              aggregationMode
+            );
+            const value = normalizer.chartValue(aggregate.value, metric);
+            return {
+              metric,
+              value: isNaN(value) && isRaw ? 0 : value,
+              original: aggregate.value,
+              weighting: describeWeighting(metric, aggregate, aggregationMode),
+            };
+          })
+        : null;
+
     // Find max value for each metric across all states
     const maxValues: Record<string, number> = {};
-    metrics.forEach((metric) => {
+    metrics.forEach((metric, i) => {
       const values = statesData.map((state) => {
-        const value = parseFloat(state[metric]);
+        const value = getChartValue(state.values[metric], metric);
         return isNaN(value) ? 0 : value;
       });
+      if (aggregates) values.push(aggregates[i].value);
       maxValues[metric] = Math.max(...values);
-      // Scale down large values
-      if (metric === "Median Household Income") {
-        maxValues[metric] = maxValues[metric] / 1000;
-      }
     });
 
     // Create scales
@@ -93,10 +124,36 @@ const RadarChart: React.FC<RadarChartProps> = ({
       .domain(metrics)
       .range([0, 2 * Math.PI]);
 
-    const radiusScale = d3.scaleLinear().domain([0, 100]).range([0, radius]);
+    // Z-scores are centered on the mean, with the center at least 2 SD below
+    const zExtent = Math.max(
+      2,
+      Math.ceil(
+        d3.max(
+          [...normalizedData.map((s) => s.values), aggregates ?? []].flatMap(
+            (values) => values.map((v) => Math.abs(v.value))
+          )
+        ) || 0
+      )
+    );
+    const radiusScale = d3
+      .scaleLinear()
+      .domain(normalizer.mode === "z-score" ? [-zExtent, zExtent] : [0, 100])
+      .range([0, radius]);
+    // Missing normalized values sit at the center
+    const radialValue = (d: { metric: string; value: number }) => {
+      if (isRaw) return (d.value / (maxValues[d.metric] || 1)) * 100;
+      return isNaN(d.value) ? radiusScale.domain()[0] : d.value;
+    };
 
     // Draw background circles
-    const ticks = [20, 40, 60, 80, 100];
+    const ticks = isRaw
+      ? [20, 40, 60, 80, 100]
+      : radiusScale.ticks(5).filter((t) => t > radiusScale.domain()[0]);
+    const tickLabel = (t: number) => {
+      if (isRaw) return `${t}%`;
+      if (normalizer.mode === "z-score") return t > 0 ? `+${t}` : `${t}`;
+      return `${t}`;
+    };
     ticks.forEach((t) => {
       g.append("circle")
         .attr("cx", 0)
@@ -112,7 +169,7 @@ const RadarChart: React.FC<RadarChartProps> = ({
         .attr("text-anchor", "middle")
         .attr("font-size", "8px")
         .attr("fill", chartColors.text)
-        .text(`${t}%`);
+        .text(tickLabel(t));
     });
 
     // Draw axes
@@ -136,16 +193,14 @@ const RadarChart: React.FC<RadarChartProps> = ({
         .attr("dominant-baseline", "middle")
         .attr("font-size", "10px")
         .attr("fill", chartColors.text)
-        .text(metric.length > 15 ? metric.substring(0, 12) + "..." : metric)
+        .text(getMetricLabel(metric))
         .on("mouseover", (event) => {
-          if (metric.length > 15) {
-            setTooltip({
-              visible: true,
-              x: event.pageX,
-              y: event.pageY,
-              content: <>{metric}</>,
-            });
-          }
+          setTooltip({
+            visible: true,
+            x: event.pageX,
+            y: event.pageY,
+            content: <>{metric}</>,
+          });
         })
         .on("mousemove", (event) => {
           setTooltip((prev) => ({
@@ -167,12 +222,7 @@ const RadarChart: React.FC<RadarChartProps> = ({
     const lineGenerator = d3
       .lineRadial<{ metric: string; value: number }>()
       .angle((d) => angleScale(d.metric) || 0)
-      .radius((d) => {
-        // Calculate percentage of max for this metric
-        const maxVal = maxValues[d.metric] || 1;
-        const percentage = (d.value / maxVal) * 100;
-        return radiusScale(percentage);
-      })
+      .radius((d) => radiusScale(radialValue(d)))
       .curve(d3.curveLinearClosed);
 
     // Draw a colored polygon for each state
@@ -208,8 +258,115 @@ const RadarChart: React.FC<RadarChartProps> = ({
         .on("mouseout", () => {
           setTooltip((prev) => ({ ...prev, visible: false }));
         });
+
+      // Vertices show the value behind each point
+      g.selectAll(null)
+        .data(state.values)
+        .join("circle")
+        .attr(
+          "cx",
+          (d) =>
+            radiusScale(radialValue(d)) * Math.sin(angleScale(d.metric) || 0)
+        )
+        .attr(
+          "cy",
+          (d) =>
+            -radiusScale(radialValue(d)) * Math.cos(angleScale(d.metric) || 0)
+        )
+        .attr("r", 3)
+        .attr("fill", colorScale(state.state))
+        .on("mouseover", (event, d) => {
+          setTooltip({
+            visible: true,
+            x: event.pageX,
+            y: event.pageY,
+            content: (
+              <>
+                <strong>{state.state}</strong>
+                <br />
+                {getMetricLabel(d.metric)}:{" "}
+                {normalizer.describe(d.original, d.metric)}
+              </>
+            ),
+          });
+        })
+        .on("mousemove", (event) => {
+          setTooltip((prev) => ({
+            ...prev,
+            x: event.pageX + 10,
+            y: event.pageY + 10,
+          }));
+        })
+        .on("mouseout", () => {
+          setTooltip((prev) => ({ ...prev, visible: false }));
+        });
     });
 
+    // Dashed outline of the region's weighted or simple averages
+    if (aggregates) {
+      g.append("path")
+        .datum(aggregates)
+        .attr("d", lineGenerator as any)
+        .attr("fill", "none")
+        .attr("stroke", chartColors.accent3)
+        .attr("stroke-width", 2)
+        .attr("stroke-dasharray", "6,3")
+        .attr("pointer-events", "none");
+
+      g.selectAll(null)
+        .data(aggregates)
+        .join("circle")
+        .attr(
+          "cx",
+          (d) =>
+            radiusScale(radialValue(d)) * Math.sin(angleScale(d.metric) || 0)
+        )
+        .attr(
+          "cy",
+          (d) =>
+            -radiusScale(radialValue(d)) * Math.cos(angleScale(d.metric) || 0)
+        )
+        .attr("r", 3)
+        .attr("fill", chartColors.accent3)
+        .on("mouseover", (event, d) => {
+          setTooltip({
+            visible: true,
+            x: event.pageX,
+            y: event.pageY,
+            content: (
+              <>
+                <strong>{aggregateName}</strong> ({d.weighting})
+                <br />
+                {getMetricLabel(d.metric)}:{" "}
+                {normalizer.describe(d.original, d.metric)}
+              </>
+            ),
+          });
+        })
+        .on("mousemove", (event) => {
+          setTooltip((prev) => ({
+            ...prev,
+            x: event.pageX + 10,
+            y: event.pageY + 10,
+          }));
+        })
+        .on("mouseout", () => {
+          setTooltip((prev) => ({ ...prev, visible: false }));
+        });
+    }
+
+    if (!isRaw) {
+      svg
+        .append("text")
+        .attr("x", width / 2)
+        .attr("y", 38)
+        .attr("text-anchor", "middle")
+        .attr("font-size", "11px")
+        .attr("font-style", "italic")
+        .attr("fill", chartColors.text)
+        .text(normalizer.axisLabel);
+    }
+
     // Draw legend
     const legend = svg
       .append("g")
@@ -236,6 +393,26 @@ const RadarChart: React.FC<RadarChartProps> = ({
         .style("font-size", "12px");
     });
 
+    if (aggregates) {
+      const y = statesData.length * 20 + 7;
+      legend
+        .append("line")
+        .attr("x1", 0)
+        .attr("x2", 15)
+        .attr("y1", y)
+        .attr("y2", y)
+        .attr("stroke", chartColors.accent3)
+        .attr("stroke-width", 2)
+        .attr("stroke-dasharray", "4,2");
+
+      legend
+        .append("text")
+        .attr("x", 25)
+        .attr("y", y + 5)
+        .text(`${aggregateName} average`)
+        .style("font-size", "12px");
+    }
+
     // Add chart title
     svg
       .append("text")
@@ -245,8 +422,19 @@ const RadarChart: React.FC<RadarChartProps> = ({
       .attr("font-size", "16px")
       .attr("font-weight", "bold")
       .attr("fill", chartColors.text)
-      .text(`Radar Chart: ${statesData.length} States`);
-  }, [statesData, metrics, width, height, onMetricSelect]);
+      .text(title ?? `Radar Chart: ${statesData.length} States`);
+  }, [
+    statesData,
+    metrics,
+    width,
+    height,
+    onMetricSelect,
+    title,
+    normalizer,
+    aggregateName,
+    aggregateStates,
+    aggregationMode,
+  ]);
 
   return (
     <div className="relative">
@@ -256,6 +444,8 @@ const RadarChart: React.FC<RadarChartProps> = ({
         height={height}
         className={`${chartSvgClass} border border-gray-300`}
       />
+      <ChartFooter />
+
       {tooltip.visible && (
         <div
           className="absolute bg-white border border-gray-300 rounded p-2 shadow-md text-sm pointer-events-none z-10"
@@ -0,0 +1,379 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import * as d3 from "d3";
+import { DistributionStyle, StateData } from "@/types";
+import { formatValue, stateToFipsMap } from "@/lib/utils";
+import { getMetricLabel } from "@/lib/metrics";
+import { useNormalizer } from "@/lib/normalization";
+import { seededRandom } from "@/lib/statistics";
+import {
+  RegionalComparison,
+  boxStats,
+  kernelDensity,
+} from "@/lib/regionalDistribution";
+import { chartColors, chartSvgClass } from "@/lib/chartStyles";
+import ChartFooter from "./ChartFooter";
+
+interface RegionalBoxPlotProps {
+  width?: number;
+  height?: number;
+  comparison: RegionalComparison;
+  distributionStyle: DistributionStyle;
+  selectedRegion: string | null;
+  selectedStates: { id: string; data: StateData }[];
+  onStateSelect: (stateId: string, stateData: StateData) => void;
+}
+
+const RegionalBoxPlot: React.FC<RegionalBoxPlotProps> = ({
+  width = 800,
+  height = 460,
+  comparison,
+  distributionStyle,
+  selectedRegion,
+  selectedStates,
+  onStateSelect,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const normalizer = useNormalizer();
+  const [tooltip, setTooltip] = useState<{
+    visible: boolean;
+    x: number;
+    y: number;
+    content: React.ReactNode;
+  }>({
+    visible: false,
+    x: 0,
+    y: 0,
+    content: null,
+  });
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+    svg.attr("style", "background-color: white;");
+
+    const margin = { top: 40, right: 30, bottom: 50, left: 70 };
+    const chartWidth = width - margin.left - margin.right;
+    const chartHeight = height - margin.top - margin.bottom;
+    const g = svg
+      .append("g")
+      .attr("transform", `translate(${margin.left}, ${margin.top})`);
+
+    const { groups, metric } = comparison;
+    const isRaw = normalizer.mode === "raw";
+    const valueOf = (d: StateData) =>
+      normalizer.normalize(d.values[metric], metric);
+    const format = (v: number) =>
+      isRaw ? formatValue(v, metric) : normalizer.format(v);
+
+    const x = d3
+      .scaleBand()
+      .domain(groups.map((group) => group.region))
+      .range([0, chartWidth])
+      .padding(0.2);
+    const allValues = groups.flatMap((group) => group.states.map(valueOf));
+    const y = d3
+      .scaleLinear()
+      .domain(d3.extent(allValues) as [number, number])
+      .nice()
+      .range([chartHeight, 0]);
+
+    const regionColor = d3
+      .scaleOrdinal<string>()
+      .domain(groups.map((group) => group.region))
+      .range(d3.schemeSet1);
+
+    g.append("g")
+      .attr("transform", `translate(0, ${chartHeight})`)
+      .call(
+        d3
+          .axisBottom(x)
+          .tickFormat(
+            (region) =>
+              `${region} (n = ${
+                groups.find((group) => group.region === region)!.states.length
+              })`
+          )
+      )
+      .call((axis) =>
+        axis
+          .selectAll("text")
+          .attr("fill", chartColors.text)
+          .attr("font-size", "11px")
+          .attr("font-weight", (region) =>
+            region === selectedRegion ? "bold" : "normal"
+          )
+      )
+      .call((axis) =>
+        axis.selectAll("line, path").attr("stroke", chartColors.axis)
+      );
+    g.append("g")
+      .call(d3.axisLeft(y).ticks(8))
+      .call((axis) => axis.selectAll("text").attr("fill", chartColors.text))
+      .call((axis) =>
+        axis.selectAll("line, path").attr("stroke", chartColors.axis)
+      );
+    g.append("text")
+      .attr("transform", "rotate(-90)")
+      .attr("x", -chartHeight / 2)
+      .attr("y", -52)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "12px")
+      .attr("fill", chartColors.text)
+      .text(isRaw ? getMetricLabel(metric) : normalizer.axisLabel);
+
+    const band = x.bandwidth();
+    groups.forEach((group) => {
+      const values = group.states.map(valueOf);
+      const stats = boxStats(values);
+      if (!stats) return;
+
+      const left = x(group.region) || 0;
+      const center = left + band / 2;
+      const color = regionColor(group.region);
+      const isActive = !selectedRegion || group.region === selectedRegion;
+      const shape = g.append("g").attr("opacity", isActive ? 1 : 0.5);
+
+      const showSummary = (event: MouseEvent) => {
+        setTooltip({
+          visible: true,
+          x: event.pageX,
+          y: event.pageY,
+          content: (
+            <>
+              <strong>{group.region}</strong> ({values.length} states)
+              <br />
+              Median: {format(stats.median)}
+              <br />
+              Middle half: {format(stats.q1)} – {format(stats.q3)}
+              <br />
+              Mean: {format(stats.mean)}
+            </>
+          ),
+        });
+      };
+
+      if (distributionStyle === "violin") {
+        const points = d3.range(41).map((i) => {
+          const [low, high] = y.domain();
+          return low + ((high - low) * i) / 40;
+        });
+        const density = kernelDensity(values, points);
+        const maxDensity = d3.max(density, (d) => d[1]) || 1;
+        const half = d3
+          .scaleLinear()
+          .domain([0, maxDensity])
+          .range([0, band / 2]);
+        // Clip the tails to the observed range so the shape doesn't
+        // suggest values no state has
+        const [min, max] = d3.extent(values) as [number, number];
+        const visible = density.filter(([v]) => v >= min && v <= max);
+        if (visible.length > 1) {
+          shape
+            .append("path")
+            .datum(visible)
+            .attr(
+              "d",
+              d3
+                .area<[number, number]>()
+                .curve(d3.curveBasis)
+                .y((d) => y(d[0]))
+                .x0((d) => center - half(d[1]))
+                .x1((d) => center + half(d[1]))
+            )
+            .attr("fill", color)
+            .attr("fill-opacity", 0.25)
+            .attr("stroke", color)
+            .on("mouseover", showSummary)
+            .on("mousemove", (event) => {
+              setTooltip((prev) => ({
+                ...prev,
+                x: event.pageX + 10,
+                y: event.pageY + 10,
+              }));
+            })
+            .on("mouseout", () => {
+              setTooltip((prev) => ({ ...prev, visible: false }));
+            });
+        }
+        // A slim box inside the violin marks the quartiles
+        shape
+          .append("rect")
+          .attr("x", center - 4)
+          .attr("width", 8)
+          .attr("y", y(stats.q3))
+          .attr("height", Math.max(1, y(stats.q1) - y(stats.q3)))
+          .attr("fill", color)
+          .attr("fill-opacity", 0.6)
+          .attr("pointer-events", "none");
+      } else {
+        shape
+          .append("line")
+          .attr("x1", center)
+          .attr("x2", center)
+          .attr("y1", y(stats.lowerWhisker))
+          .attr("y2", y(stats.upperWhisker))
+          .attr("stroke", color);
+        [stats.lowerWhisker, stats.upperWhisker].forEach((v) => {
+          shape
+            .append("line")
+            .attr("x1", center - band / 6)
+            .attr("x2", center + band / 6)
+            .attr("y1", y(v))
+            .attr("y2", y(v))
+            .attr("stroke", color);
+        });
+        shape
+          .append("rect")
+          .attr("x", left + band / 6)
+          .attr("width", (band * 2) / 3)
+          .attr("y", y(stats.q3))
+          .attr("height", Math.max(1, y(stats.q1) - y(stats.q3)))
+          .attr("fill", color)
+          .attr("fill-opacity", 0.25)
+          .attr("stroke", color)
+          .on("mouseover", showSummary)
+          .on("mousemove", (event) => {
+            setTooltip((prev) => ({
+              ...prev,
+              x: event.pageX + 10,
+              y: event.pageY + 10,
+            }));
+          })
+          .on("mouseout", () => {
+            setTooltip((prev) => ({ ...prev, visible: false }));
+          });
+      }
+
+      shape
+        .append("line")
+        .attr("x1", left + band / 6)
+        .attr("x2", left + (band * 5) / 6)
+        .attr("y1", y(stats.median))
+        .attr("y2", y(stats.median))
+        .attr("stroke", color)
+        .attr("stroke-width", 2.5)
+        .attr("pointer-events", "none");
+    });
+
+    // Every state as a point, spread sideways so equal values stay visible
+    const fipsOf = (d: StateData) => stateToFipsMap[d.state_id] ?? d.state_id;
+    const isSelected = (d: StateData) =>
+      selectedStates.some((s) => s.id === fipsOf(d) || s.id === d.state_id);
+    const random = seededRandom(7);
+    const points = groups.flatMap((group) =>
+      group.states.map((state) => ({
+        state,
+        region: group.region,
+        cx: (x(group.region) || 0) + band / 2 + (random() - 0.5) * band * 0.35,
+        cy: y(valueOf(state)),
+      }))
+    );
+    // Selected states are drawn last so they sit on top
+    points.sort((a, b) => +isSelected(a.state) - +isSelected(b.state));
+
+    g.selectAll(".point")
+      .data(points)
+      .join("circle")
+      .attr("class", "point")
+      .attr("cx", (d) => d.cx)
+      .attr("cy", (d) => d.cy)
+      .attr("r", (d) => (isSelected(d.state) ? 5 : 3))
+      .attr("fill", (d) =>
+        isSelected(d.state) ? chartColors.highlight : chartColors.axis
+      )
+      .attr("fill-opacity", (d) => (isSelected(d.state) ? 1 : 0.7))
+      .attr("stroke", (d) => (isSelected(d.state) ? "#000" : "white"))
+      .attr("stroke-width", (d) => (isSelected(d.state) ? 1.5 : 0.5))
+      .style("cursor", "pointer")
+      .on("mouseover", (event, d) => {
+        setTooltip({
+          visible: true,
+          x: event.pageX,
+          y: event.pageY,
+          content: (
+            <>
+              <strong>{d.state.State}</strong> ({d.region})
+              <br />
+              {getMetricLabel(metric)}:{" "}
+              {normalizer.describe(d.state.values[metric], metric)}
+            </>
+          ),
+        });
+      })
+      .on("mousemove", (event) => {
+        setTooltip((prev) => ({
+          ...prev,
+          x: event.pageX + 10,
+          y: event.pageY + 10,
+        }));
+      })
+      .on("mouseout", () => {
+        setTooltip((prev) => ({ ...prev, visible: false }));
+      })
+      .on("click", (_, d) => {
+        onStateSelect(fipsOf(d.state), d.state);
+      });
+
+    g.selectAll(".point-label")
+      .data(points.filter((d) => isSelected(d.state)))
+      .join("text")
+      .attr("class", "point-label")
+      .attr("x", (d) => d.cx + 7)
+      .attr("y", (d) => d.cy)
+      .attr("dominant-baseline", "middle")
+      .attr("font-size", "10px")
+      .attr("font-weight", "bold")
+      .attr("fill", chartColors.text)
+      .attr("pointer-events", "none")
+      .text((d) => d.state.state_id);
+
+    svg
+      .append("text")
+      .attr("x", width / 2)
+      .attr("y", 22)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "16px")
+      .attr("font-weight", "bold")
+      .attr("fill", chartColors.text)
+      .text(`${getMetricLabel(metric)} by Census Region`);
+  }, [
+    comparison,
+    distributionStyle,
+    selectedRegion,
+    selectedStates,
+    onStateSelect,
+    width,
+    height,
+    normalizer,
+  ]);
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        className={`${chartSvgClass} border border-gray-300`}
+      />
+      <ChartFooter />
+
+      {tooltip.visible && (
+        <div
+          className="absolute bg-white border border-gray-300 rounded p-2 shadow-md text-sm pointer-events-none z-10"
+          style={{
+            left: tooltip.x + "px",
+            top: tooltip.y + "px",
+          }}
+        >
+          {tooltip.content}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegionalBoxPlot;
@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import * as d3 from "d3";
+import { DistributionStyle, StateData } from "@/types";
+import { getMetricLabel } from "@/lib/metrics";
+import { GroupTest, formatPValue } from "@/lib/statistics";
+import {
+  compareRegions,
+  distributionStyleLabels,
+  regionalSignificance,
+} from "@/lib/regionalDistribution";
+import RegionalBoxPlot from "./RegionalBoxPlot";
+
+interface RegionalDistributionPanelProps {
+  data: StateData[];
+  metric: string;
+  metrics: string[];
+  onMetricChange: (metric: string) => void;
+  selectedRegion: string | null;
+  selectedStates: { id: string; data: StateData }[];
+  onStateSelect: (stateId: string, stateData: StateData) => void;
+}
+
+const formatTest = (name: string, symbol: string, test: GroupTest) =>
+  `${name}: ${symbol}(${test.df.join(", ")}) = ${d3.format(".2f")(
+    test.statistic
+  )}, p = ${formatPValue(test.p)}`;
+
+const RegionalDistributionPanel: React.FC<RegionalDistributionPanelProps> = ({
+  data,
+  metric,
+  metrics,
+  onMetricChange,
+  selectedRegion,
+  selectedStates,
+  onStateSelect,
+}) => {
+  const [distributionStyle, setDistributionStyle] =
+    useState<DistributionStyle>("box");
+  const comparison = useMemo(
+    () => compareRegions(data, metric),
+    [data, metric]
+  );
+  const styles = Object.keys(distributionStyleLabels) as DistributionStyle[];
+  const { anova, kruskalWallis } = comparison;
+
+  const isSignificant = (test: GroupTest | null) =>
+    !!test && test.p <= regionalSignificance;
+  const summary = () => {
+    if (!anova || !kruskalWallis) {
+      return "Not enough states with values to compare the regions.";
+    }
+    if (isSignificant(anova) && isSignificant(kruskalWallis)) {
+      return `The regions differ by more than chance would explain. Region accounts for about ${d3.format(
+        ".0%"
+      )(anova.effectSize)} of the variation between states.`;
+    }
+    if (isSignificant(anova)) {
+      return "The means differ but the ranks don't, so the gap rests on a few outlying states.";
+    }
+    if (isSignificant(kruskalWallis)) {
+      return "The ranks differ but the means don't clearly, so the regions overlap a lot.";
+    }
+    return "The regional differences are within what chance would produce; the distributions overlap.";
+  };
+
+  // How many states in the selected region sit above the other regions'
+  // median, to show the overlap behind "this region lags"
+  const selectedGroup = comparison.groups.find(
+    (g) => g.region === selectedRegion
+  );
+  const otherMedian = d3.median(
+    comparison.groups
+      .filter((g) => g.region !== selectedRegion)
+      .flatMap((g) => g.states.map((d) => d.values[metric]))
+  );
+  const aboveOthers =
+    selectedGroup && otherMedian !== undefined
+      ? selectedGroup.states.filter((d) => d.values[metric] > otherMedian)
+          .length
+      : 0;
+
+  return (
+    <div className="text-sm text-gray-800 space-y-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-1">
+          Metric:
+          <select
+            className="border border-gray-300 rounded px-1 py-0.5 text-sm"
+            value={metric}
+            onChange={(e) => onMetricChange(e.target.value)}
+          >
+            {metrics.map((m) => (
+              <option key={m} value={m}>
+                {getMetricLabel(m)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="inline-flex rounded-md shadow-sm" role="group">
+          {styles.map((style, i) => (
+            <button
+              key={style}
+              className={`px-2 py-0.5 text-xs font-medium border border-gray-300 ${
+                i === 0 ? "rounded-l-lg" : "border-l-0"
+              } ${i === styles.length - 1 ? "rounded-r-lg" : ""} ${
+                distributionStyle === style
+                  ? "bg-blue-500 text-white"
+                  : "bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+              onClick={() => setDistributionStyle(style)}
+            >
+              {distributionStyleLabels[style]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-3">
+        <div className="lg:w-2/3">
+          <RegionalBoxPlot
+            comparison={comparison}
+            distributionStyle={distributionStyle}
+            selectedRegion={selectedRegion}
+            selectedStates={selectedStates}
+            onStateSelect={onStateSelect}
+            width={760}
+            height={460}
+          />
+        </div>
+        <div className="lg:w-1/3 space-y-2">
+          <div>
+            <div className="font-medium">Do the regions differ?</div>
+            <div className="text-xs text-gray-600">{summary()}</div>
+          </div>
+          {anova && (
+            <div className="border border-gray-200 rounded px-2 py-1">
+              <div>{formatTest("One-way ANOVA", "F", anova)}</div>
+              <div className="text-xs text-gray-600">
+                Compares the region means. η² ={" "}
+                {d3.format(".2f")(anova.effectSize)}
+              </div>
+            </div>
+          )}
+          {kruskalWallis && (
+            <div className="border border-gray-200 rounded px-2 py-1">
+              <div>{formatTest("Kruskal-Wallis", "H", kruskalWallis)}</div>
+              <div className="text-xs text-gray-600">
+                Compares the states&apos; ranks, so outliers count less. ε² ={" "}
+                {d3.format(".2f")(kruskalWallis.effectSize)}
+              </div>
+            </div>
+          )}
+          {selectedGroup && selectedGroup.states.length > 0 && (
+            <div className="text-xs text-gray-700">
+              {aboveOthers} of {selectedGroup.states.length}{" "}
+              {selectedGroup.region} states are above the median of the other
+              regions.
+            </div>
+          )}
+          <div className="text-xs text-gray-500">
+            Boxes span the middle half of each region&apos;s states, with the
+            median as a thick line and whiskers out to 1.5 times the box height.
+            Selected states are highlighted. Tests use the original values at p
+            ≤ {regionalSignificance}.
+          </div>
+          {comparison.missing.length > 0 && (
+            <div className="text-xs text-gray-500">
+              Left out (no value):{" "}
+              {comparison.missing.map((s) => s.State).join(", ")}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegionalDistributionPanel;
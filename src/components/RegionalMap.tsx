@@ -1,68 +1,32 @@
 "use client";
 
-import React, { useEffect, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import * as d3 from "d3";
 import * as topojson from "topojson-client";
-import { StateData, TopoJSONFeature } from "@/types";
-import { getStateColor, fipsToStateMap } from "@/lib/utils";
+import { AggregationMode, StateData, TopoJSONFeature } from "@/types";
+import {
+  getStateColor,
+  fipsToStateMap,
+  formatValue,
+  stateToFipsMap,
+} from "@/lib/utils";
 import RadarChart from "./RadarChart";
+import {
+  regions,
+  getRegionForState,
+  CaribbeanInset,
+  caribbeanInsetExtent,
+  createStateMapPath,
+  fetchCaribbeanInset,
+} from "@/lib/geography";
+import { aggregateRegions } from "@/lib/aggregation";
+import { getMetricDefinition, getMetricLabel } from "@/lib/metrics";
 import {
   chartColors,
   chartContainerClass,
   chartSvgClass,
 } from "@/lib/chartStyles";
-
-// Define regions for the US
-const regions: Record<string, string[]> = {
-  Northeast: ["CT", "ME", "MA", "NH", "RI", "VT", "NJ", "NY", "PA"],
-  Midwest: [
-    "IL",
-    "IN",
-    "MI",
-    "OH",
-    "WI",
-    "IA",
-    "KS",
-    "MN",
-    "MO",
-    "NE",
-    "ND",
-    "SD",
-  ],
-  South: [
-    "DE",
-    "FL",
-    "GA",
-    "MD",
-    "NC",
-    "SC",
-    "VA",
-    "WV",
-    "AL",
-    "KY",
-    "MS",
-    "TN",
-    "AR",
-    "LA",
-    "OK",
-    "TX",
-  ],
-  West: [
-    "AZ",
-    "CO",
-    "ID",
-    "MT",
-    "NV",
-    "NM",
-    "UT",
-    "WY",
-    "AK",
-    "CA",
-    "HI",
-    "OR",
-    "WA",
-  ],
-};
+import ChartFooter from "./ChartFooter";
 
 interface RegionalMapProps {
   width?: number;
@@ -72,6 +36,8 @@ interface RegionalMapProps {
   selectedMetrics: string[];
   onRegionSelect: (region: string, states: StateData[]) => void;
   selectedRegion: string | null;
+  aggregationMode: AggregationMode;
+  onAggregationModeChange: (mode: AggregationMode) => void;
 }
 
 const RegionalMap: React.FC<RegionalMapProps> = ({
@@ -82,9 +48,12 @@ const RegionalMap: React.FC<RegionalMapProps> = ({
   selectedMetrics,
   onRegionSelect,
   selectedRegion,
+  aggregationMode,
+  onAggregationModeChange,
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const zoomTransformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
+  const [insetGeo, setInsetGeo] = useState<CaribbeanInset | null>(null);
   const [tooltip, setTooltip] = useState<{
     visible: boolean;
     x: number;
@@ -100,6 +69,10 @@ const RegionalMap: React.FC<RegionalMapProps> = ({
   const dataByFips = new Map<string, StateData>();
   const dataByState = new Map<string, StateData>();
 
+  useEffect(() => {
+    fetchCaribbeanInset().then(setInsetGeo);
+  }, []);
+
   useEffect(() => {
     if (!data || !topoData || !svgRef.current) return;
 
@@ -137,22 +110,38 @@ const RegionalMap: React.FC<RegionalMapProps> = ({
       .domain(Object.keys(regions))
       .range(d3.schemeSet1);
 
+    // Puerto Rico and the Virgin Islands are drawn in an inset, when the data
+    // has rows for them
+    const insetFeatures: TopoJSONFeature[] = (insetGeo?.features ?? []).filter(
+      (f) => dataByFips.has(f.id)
+    );
+
+    if (insetFeatures.length) {
+      const [[x0, y0], [x1, y1]] = caribbeanInsetExtent;
+      g.append("rect")
+        .attr("x", x0 - 5)
+        .attr("y", y0 - 15)
+        .attr("width", x1 - x0 + 10)
+        .attr("height", y1 - y0 + 20)
+        .attr("fill", "none")
+        .attr("stroke", "#9ca3af")
+        .attr("stroke-dasharray", "3,3");
+    }
+
     // Draw states
     g.selectAll("path")
-      .data(states.features)
+      .data([...states.features, ...insetFeatures])
       .join("path")
-      .attr("d", path as any)
+      .attr("d", createStateMapPath(insetGeo))
       .attr("fill", (d) => {
         const stateCode = fipsToStateMap[d.id];
         if (!stateCode) return "#e5e7eb"; // Light gray for unknown states
 
         // Find which region this state belongs to
-        const region = Object.entries(regions).find(([_, states]) =>
-          states.includes(stateCode)
-        );
+        const region = getRegionForState(stateCode);
 
         if (!region) return "#e5e7eb";
-        return regionColorScale(region[0]);
+        return regionColorScale(region);
       })
       .attr("stroke", "#ffffff")
       .attr("stroke-width", 0.5)
@@ -161,11 +150,7 @@ const RegionalMap: React.FC<RegionalMapProps> = ({
         const stateCode = fipsToStateMap[d.id];
         if (!stateCode) return;
 
-        const region = Object.entries(regions).find(([_, states]) =>
-          states.includes(stateCode)
-        );
-
-        if (!region) return;
+        const region = getRegionForState(stateCode);
 
         setTooltip({
           visible: true,
@@ -175,7 +160,13 @@ const RegionalMap: React.FC<RegionalMapProps> = ({
             <>
               <strong>State: {stateCode}</strong>
               <br />
-              <strong>Region: {region[0]}</strong>
+              <strong>Region: {region ?? "Outside Census regions"}</strong>
+              {!data.some((s) => s.state_id === stateCode) && (
+                <>
+                  <br />
+                  Not in the loaded dataset
+                </>
+              )}
             </>
           ),
         });
@@ -366,7 +357,16 @@ const RegionalMap: React.FC<RegionalMapProps> = ({
       svg.call(zoom.transform as any, initialTransform);
       zoomTransformRef.current = initialTransform;
     }
-  }, [data, topoData, selectedRegion]);
+  }, [data, topoData, selectedRegion, insetGeo]);
+
+  // Region and national figures for the table under the map
+  const aggregates = useMemo(
+    () => aggregateRegions(data, selectedMetrics, aggregationMode),
+    [data, selectedMetrics, aggregationMode]
+  );
+  const missingWeights =
+    aggregationMode === "weighted" &&
+    aggregates.some((a) => Object.values(a.values).some((v) => !v.weighted));
 
   // Get states for selected region
   const getRegionStates = (regionName: string): StateData[] => {
@@ -391,6 +391,95 @@ const RegionalMap: React.FC<RegionalMapProps> = ({
         </div>
       </div>
 
+      {selectedMetrics.length > 0 && (
+        <div className="mt-3 text-sm text-gray-800">
+          <div className="flex items-center justify-between mb-1">
+            <div className="font-semibold">Regional Figures</div>
+            <div className="inline-flex rounded-md shadow-sm" role="group">
+              {(["weighted", "unweighted"] as AggregationMode[]).map(
+                (mode, i) => (
+                  <button
+                    key={mode}
+                    className={`px-2 py-0.5 text-xs font-medium border border-gray-300 ${
+                      i === 0 ? "rounded-l-lg" : "border-l-0 rounded-r-lg"
+                    } ${
+                      aggregationMode === mode
+                        ? "bg-blue-500 text-white"
+                        : "bg-white text-gray-700 hover:bg-gray-50"
+                    }`}
+                    onClick={() => onAggregationModeChange(mode)}
+                  >
+                    {mode === "weighted" ? "Weighted" : "Unweighted"}
+                  </button>
+                )
+              )}
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full border border-gray-300">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="p-1 text-left">Region</th>
+                  {selectedMetrics.map((metric) => (
+                    <th key={metric} className="p-1 text-right" title={metric}>
+                      {getMetricLabel(metric)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {aggregates.map((aggregate) => (
+                  <tr
+                    key={aggregate.name}
+                    className={`border-t border-gray-200 ${
+                      aggregate.name === selectedRegion ? "bg-blue-50" : ""
+                    }`}
+                  >
+                    <td className="p-1 font-medium">
+                      {aggregate.name}{" "}
+                      <span className="text-xs text-gray-500">
+                        ({aggregate.states.length})
+                      </span>
+                    </td>
+                    {selectedMetrics.map((metric) => {
+                      const { value, count, weighted } =
+                        aggregate.values[metric];
+                      const weightKey = getMetricDefinition(metric).weight;
+                      return (
+                        <td key={metric} className="p-1 text-right">
+                          {formatValue(value, metric)}
+                          {aggregationMode === "weighted" && !weighted && "*"}
+                          {!isNaN(count) && weightKey && (
+                            <div className="text-xs text-gray-500">
+                              {d3.format(".3~s")(count)}{" "}
+                              {weightKey.toLowerCase()}
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {missingWeights && (
+            <div className="mt-1 p-2 rounded border bg-amber-50 border-amber-300 text-xs text-amber-800">
+              * This dataset has no household or population counts for these
+              metrics, so the weighted figures fall back to a simple average of
+              the states.
+            </div>
+          )}
+          <div className="mt-1 text-xs text-gray-500">
+            {aggregationMode === "weighted"
+              ? "Each state is weighted by its households or population, so figures describe the region's residents."
+              : "Each state counts equally, regardless of its size."}
+          </div>
+        </div>
+      )}
+
+      <ChartFooter />
+
       {tooltip.visible && (
         <div
           className="absolute bg-white border border-gray-300 rounded p-2 shadow-md text-sm pointer-events-none z-10 text-gray-800"
@@ -406,12 +495,4 @@ const RegionalMap: React.FC<RegionalMapProps> = ({
   );
 };
 
-// Convert FIPS to state abbreviation map to state abbreviation to FIPS map
-const stateToFipsMap: Record<string, string> = Object.entries(
-  fipsToStateMap
-).reduce((acc, [fips, state]) => {
-  acc[state] = fips;
-  return acc;
-}, {} as Record<string, string>);
-
 export default RegionalMap;
@@ -0,0 +1,458 @@
+"use client";
+
+import React, { useEffect, useId, useMemo, useRef, useState } from "react";
+import * as d3 from "d3";
+import { StateData } from "@/types";
+import { formatValue, stateToFipsMap } from "@/lib/utils";
+import { getMetricDefinition, getMetricLabel } from "@/lib/metrics";
+import { getRegionForState, regions } from "@/lib/geography";
+import {
+  confidenceHalfWidth,
+  linearRegression,
+  predict,
+  standardizedResidual,
+} from "@/lib/statistics";
+import { useNormalizer } from "@/lib/normalization";
+import { chartColors, chartSvgClass } from "@/lib/chartStyles";
+import ChartFooter from "./ChartFooter";
+
+// Points further than this many standard errors from the fit are labeled
+const outlierThreshold = 2;
+
+interface ScatterPlotProps {
+  width?: number;
+  height?: number;
+  statesData: StateData[];
+  metrics: string[];
+  selectedStates: { id: string; data: StateData }[];
+  onStateSelect: (stateId: string, stateData: StateData) => void;
+}
+
+const ScatterPlot: React.FC<ScatterPlotProps> = ({
+  width = 700,
+  height = 500,
+  statesData,
+  metrics,
+  selectedStates,
+  onStateSelect,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  // Unique per instance so several scatterplots can share a page
+  const clipId = `scatter-clip-${useId().replace(/:/g, "")}`;
+  const normalizer = useNormalizer();
+  const [xMetric, setXMetric] = useState("");
+  const [yMetric, setYMetric] = useState("");
+  const [sizeByHouseholds, setSizeByHouseholds] = useState(false);
+  const [colorByRegion, setColorByRegion] = useState(true);
+  const [tooltip, setTooltip] = useState<{
+    visible: boolean;
+    x: number;
+    y: number;
+    content: React.ReactNode;
+  }>({
+    visible: false,
+    x: 0,
+    y: 0,
+    content: null,
+  });
+
+  // Default to the first two metrics, and keep the axes on metrics that
+  // still exist when the dataset changes
+  useEffect(() => {
+    setXMetric((prev) => (metrics.includes(prev) ? prev : metrics[0] ?? ""));
+    setYMetric((prev) =>
+      metrics.includes(prev) ? prev : metrics[1] ?? metrics[0] ?? ""
+    );
+  }, [metrics]);
+
+  const hasHouseholds = statesData.some((d) => d.counts.Households > 0);
+
+  const points = useMemo(
+    () =>
+      statesData.filter(
+        (d) => isFinite(d.values[xMetric]) && isFinite(d.values[yMetric])
+      ),
+    [statesData, xMetric, yMetric]
+  );
+
+  const fit = useMemo(
+    () =>
+      linearRegression(
+        points.map((d) => normalizer.normalize(d.values[xMetric], xMetric)),
+        points.map((d) => normalizer.normalize(d.values[yMetric], yMetric))
+      ),
+    [points, xMetric, yMetric, normalizer]
+  );
+
+  useEffect(() => {
+    if (!points.length || !svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+    svg.attr("style", "background-color: white;");
+
+    const margin = { top: 40, right: 120, bottom: 60, left: 80 };
+    const chartWidth = width - margin.left - margin.right;
+    const chartHeight = height - margin.top - margin.bottom;
+    const g = svg
+      .append("g")
+      .attr("transform", `translate(${margin.left}, ${margin.top})`);
+
+    // Axes and the fit use the dashboard's normalization
+    const isRaw = normalizer.mode === "raw";
+    const xValue = (d: StateData) =>
+      normalizer.normalize(d.values[xMetric], xMetric);
+    const yValue = (d: StateData) =>
+      normalizer.normalize(d.values[yMetric], yMetric);
+
+    const x = d3
+      .scaleLinear()
+      .domain(d3.extent(points, xValue) as [number, number])
+      .nice()
+      .range([0, chartWidth]);
+    const y = d3
+      .scaleLinear()
+      .domain(d3.extent(points, yValue) as [number, number])
+      .nice()
+      .range([chartHeight, 0]);
+
+    const tickFormat = (metric: string) =>
+      isRaw && getMetricDefinition(metric).unit === "dollars"
+        ? d3.format("$~s")
+        : d3.format("~g");
+
+    const axisTitle = (metric: string) =>
+      isRaw
+        ? getMetricLabel(metric)
+        : `${getMetricLabel(metric)} (${normalizer.axisLabel})`;
+
+    g.append("g")
+      .attr("transform", `translate(0, ${chartHeight})`)
+      .call(
+        d3
+          .axisBottom(x)
+          .ticks(8)
+          .tickFormat((v) => tickFormat(xMetric)(v as number))
+      )
+      .call((axis) => axis.selectAll("text").attr("fill", chartColors.text))
+      .call((axis) =>
+        axis.selectAll("line, path").attr("stroke", chartColors.axis)
+      );
+    g.append("g")
+      .call(
+        d3
+          .axisLeft(y)
+          .ticks(8)
+          .tickFormat((v) => tickFormat(yMetric)(v as number))
+      )
+      .call((axis) => axis.selectAll("text").attr("fill", chartColors.text))
+      .call((axis) =>
+        axis.selectAll("line, path").attr("stroke", chartColors.axis)
+      );
+
+    g.append("text")
+      .attr("x", chartWidth / 2)
+      .attr("y", chartHeight + 42)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "12px")
+      .attr("fill", chartColors.text)
+      .text(axisTitle(xMetric));
+    g.append("text")
+      .attr("transform", "rotate(-90)")
+      .attr("x", -chartHeight / 2)
+      .attr("y", -58)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "12px")
+      .attr("fill", chartColors.text)
+      .text(axisTitle(yMetric));
+
+    // Fit line with its 95% confidence band, clipped to the plot area
+    svg
+      .append("defs")
+      .append("clipPath")
+      .attr("id", clipId)
+      .append("rect")
+      .attr("width", chartWidth)
+      .attr("height", chartHeight);
+
+    if (fit) {
+      const [x0, x1] = x.domain();
+      const samples = d3.range(0, 51).map((i) => x0 + ((x1 - x0) * i) / 50);
+      g.append("path")
+        .datum(samples)
+        .attr("clip-path", `url(#${clipId})`)
+        .attr("fill", chartColors.highlight)
+        .attr("fill-opacity", 0.12)
+        .attr(
+          "d",
+          d3
+            .area<number>()
+            .x((v) => x(v))
+            .y0((v) => y(predict(fit, v) - confidenceHalfWidth(fit, v)))
+            .y1((v) => y(predict(fit, v) + confidenceHalfWidth(fit, v)))
+        );
+      g.append("line")
+        .attr("x1", x(x0))
+        .attr("y1", y(predict(fit, x0)))
+        .attr("x2", x(x1))
+        .attr("y2", y(predict(fit, x1)))
+        .attr("clip-path", `url(#${clipId})`)
+        .attr("stroke", chartColors.highlight)
+        .attr("stroke-width", 2);
+    }
+
+    const regionColor = d3
+      .scaleOrdinal<string>()
+      .domain(Object.keys(regions))
+      .range(d3.schemeSet1);
+    const pointColor = (d: StateData) => {
+      if (!colorByRegion) return chartColors.bars;
+      const region = getRegionForState(d.state_id);
+      return region ? regionColor(region) : chartColors.axis;
+    };
+
+    const radius = d3
+      .scaleSqrt()
+      .domain([0, d3.max(points, (d) => d.counts.Households || 0) || 1])
+      .range([2, 18]);
+    const pointRadius = (d: StateData) =>
+      sizeByHouseholds && d.counts.Households > 0
+        ? radius(d.counts.Households)
+        : 5;
+
+    const fipsOf = (d: StateData) => stateToFipsMap[d.state_id] ?? d.state_id;
+    // The map selects by FIPS code and the bar charts by postal code
+    const isSelected = (d: StateData) =>
+      selectedStates.some((s) => s.id === fipsOf(d) || s.id === d.state_id);
+    const residualOf = (d: StateData) =>
+      fit ? standardizedResidual(fit, xValue(d), yValue(d)) : NaN;
+
+    // Largest points first so small ones stay clickable
+    const sorted = [...points].sort((a, b) => pointRadius(b) - pointRadius(a));
+
+    g.selectAll(".point")
+      .data(sorted)
+      .join("circle")
+      .attr("class", "point")
+      .attr("cx", (d) => x(xValue(d)))
+      .attr("cy", (d) => y(yValue(d)))
+      .attr("r", pointRadius)
+      .attr("fill", pointColor)
+      .attr("fill-opacity", 0.7)
+      .attr("stroke", (d) => (isSelected(d) ? "#000" : "white"))
+      .attr("stroke-width", (d) => (isSelected(d) ? 2 : 1))
+      .style("cursor", "pointer")
+      .on("mouseover", (event, d) => {
+        const residual = residualOf(d);
+        setTooltip({
+          visible: true,
+          x: event.pageX,
+          y: event.pageY,
+          content: (
+            <>
+              <strong>{d.State}</strong>
+              <br />
+              {getMetricLabel(xMetric)}:{" "}
+              {normalizer.describe(d.values[xMetric], xMetric)}
+              <br />
+              {getMetricLabel(yMetric)}:{" "}
+              {normalizer.describe(d.values[yMetric], yMetric)}
+              {fit && (
+                <>
+                  <br />
+                  Fitted:{" "}
+                  {isRaw
+                    ? formatValue(predict(fit, xValue(d)), yMetric)
+                    : normalizer.format(predict(fit, xValue(d)))}{" "}
+                  (residual {d3.format("+.2f")(residual)} SE)
+                </>
+              )}
+              {d.counts.Households > 0 && (
+                <>
+                  <br />
+                  Households: {d3.format(",")(d.counts.Households)}
+                </>
+              )}
+            </>
+          ),
+        });
+      })
+      .on("mousemove", (event) => {
+        setTooltip((prev) => ({
+          ...prev,
+          x: event.pageX + 10,
+          y: event.pageY + 10,
+        }));
+      })
+      .on("mouseout", () => {
+        setTooltip((prev) => ({ ...prev, visible: false }));
+      })
+      .on("click", (_, d) => {
+        onStateSelect(fipsOf(d), d);
+      });
+
+    // Label residual outliers and selected states
+    g.selectAll(".point-label")
+      .data(
+        points.filter(
+          (d) => Math.abs(residualOf(d)) > outlierThreshold || isSelected(d)
+        )
+      )
+      .join("text")
+      .attr("class", "point-label")
+      .attr("x", (d) => x(xValue(d)) + pointRadius(d) + 3)
+      .attr("y", (d) => y(yValue(d)))
+      .attr("dominant-baseline", "middle")
+      .attr("font-size", "10px")
+      .attr("font-weight", (d) => (isSelected(d) ? "bold" : "normal"))
+      .attr("fill", chartColors.text)
+      .attr("pointer-events", "none")
+      .text((d) => d.state_id);
+
+    // Region legend
+    if (colorByRegion) {
+      const legend = svg
+        .append("g")
+        .attr(
+          "transform",
+          `translate(${width - margin.right + 20}, ${margin.top})`
+        );
+      Object.keys(regions).forEach((region, i) => {
+        legend
+          .append("circle")
+          .attr("cx", 6)
+          .attr("cy", i * 20 + 6)
+          .attr("r", 5)
+          .attr("fill", regionColor(region));
+        legend
+          .append("text")
+          .attr("x", 16)
+          .attr("y", i * 20 + 10)
+          .attr("font-size", "12px")
+          .attr("fill", chartColors.text)
+          .text(region);
+      });
+    }
+
+    // Fit summary
+    svg
+      .append("text")
+      .attr("x", width / 2)
+      .attr("y", 22)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "13px")
+      .attr("fill", chartColors.text)
+      .text(
+        fit
+          ? `y = ${d3.format(".3~g")(fit.intercept)} ${
+              fit.slope < 0 ? "−" : "+"
+            } ${d3.format(".3~g")(Math.abs(fit.slope))}x · R² = ${d3.format(
+              ".3f"
+            )(fit.rSquared)} · n = ${fit.n}`
+          : "Not enough states with both values to fit a line"
+      );
+  }, [
+    points,
+    fit,
+    xMetric,
+    yMetric,
+    sizeByHouseholds,
+    colorByRegion,
+    selectedStates,
+    onStateSelect,
+    width,
+    height,
+    normalizer,
+    clipId,
+  ]);
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-3 mb-2 text-sm text-gray-800">
+        <label className="flex items-center gap-1">
+          X:
+          <select
+            className="p-1 border border-gray-300 rounded text-sm"
+            value={xMetric}
+            onChange={(e) => setXMetric(e.target.value)}
+          >
+            {metrics.map((metric) => (
+              <option key={metric} value={metric}>
+                {getMetricLabel(metric)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Y:
+          <select
+            className="p-1 border border-gray-300 rounded text-sm"
+            value={yMetric}
+            onChange={(e) => setYMetric(e.target.value)}
+          >
+            {metrics.map((metric) => (
+              <option key={metric} value={metric}>
+                {getMetricLabel(metric)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label
+          className={`flex items-center gap-1 ${
+            hasHouseholds ? "" : "text-gray-400"
+          }`}
+          title={
+            hasHouseholds ? undefined : "This dataset has no household counts"
+          }
+        >
+          <input
+            type="checkbox"
+            checked={sizeByHouseholds && hasHouseholds}
+            disabled={!hasHouseholds}
+            onChange={(e) => setSizeByHouseholds(e.target.checked)}
+          />
+          Size by households
+          {!hasHouseholds && (
+            <span className="text-xs">
+              (no household counts in this dataset)
+            </span>
+          )}
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={colorByRegion}
+            onChange={(e) => setColorByRegion(e.target.checked)}
+          />
+          Color by region
+        </label>
+      </div>
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        className={`${chartSvgClass} border border-gray-300`}
+      />
+      <div className="mt-1 text-xs text-gray-500">
+        Ordinary least squares fit with a 95% confidence band. Labeled states
+        are more than {outlierThreshold} standard errors from the line, or
+        selected.
+      </div>
+      <ChartFooter />
+
+      {tooltip.visible && (
+        <div
+          className="absolute bg-white border border-gray-300 rounded p-2 shadow-md text-sm pointer-events-none z-10"
+          style={{
+            left: tooltip.x + "px",
+            top: tooltip.y + "px",
+          }}
+        >
+          {tooltip.content}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScatterPlot;
@@ -0,0 +1,247 @@
+"use client";
+
+import React from "react";
+import * as d3 from "d3";
+import { ScenarioSettings, StateData } from "@/types";
+import { formatValue } from "@/lib/utils";
+import { formatMetricChange, getMetricLabel } from "@/lib/metrics";
+import {
+  ScenarioModel,
+  ScenarioResult,
+  scenarioConfidence,
+  scenarioRange,
+} from "@/lib/scenario";
+
+interface ScenarioPanelProps {
+  data: StateData[];
+  metrics: string[];
+  settings: ScenarioSettings;
+  onSettingsChange: (settings: ScenarioSettings) => void;
+  state: StateData | null;
+  models: Record<string, ScenarioModel | null>;
+  result: ScenarioResult | null;
+  selectedMetric: string;
+  onMetricSelect: (metric: string) => void;
+}
+
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({
+  data,
+  metrics,
+  settings,
+  onSettingsChange,
+  state,
+  models,
+  result,
+  selectedMetric,
+  onMetricSelect,
+}) => {
+  const states = [...data].sort((a, b) => d3.ascending(a.State, b.State));
+
+  // A metric can be an input or an outcome, not both
+  const toggle = (list: "inputs" | "outcomes", metric: string) => {
+    const other = list === "inputs" ? "outcomes" : "inputs";
+    onSettingsChange({
+      ...settings,
+      [list]: settings[list].includes(metric)
+        ? settings[list].filter((m) => m !== metric)
+        : [...settings[list], metric],
+      [other]: settings[other].filter((m) => m !== metric),
+      changes: Object.fromEntries(
+        Object.entries(settings.changes).filter(([m]) => m !== metric)
+      ),
+    });
+  };
+
+  const setChange = (metric: string, change: number) =>
+    onSettingsChange({
+      ...settings,
+      changes: { ...settings.changes, [metric]: change },
+    });
+
+  const chips = (list: "inputs" | "outcomes") => (
+    <div className="flex flex-wrap gap-1">
+      {metrics.map((metric) => (
+        <div
+          key={metric}
+          className={`px-2 py-0.5 text-xs border rounded cursor-pointer ${
+            settings[list].includes(metric)
+              ? "bg-blue-100 border-blue-300 text-blue-800"
+              : "bg-gray-100 border-gray-300 hover:bg-gray-200 text-gray-800"
+          }`}
+          onClick={() => toggle(list, metric)}
+        >
+          {getMetricLabel(metric)}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="text-sm text-gray-800 space-y-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-1">
+          State:
+          <select
+            value={state?.state_id ?? ""}
+            onChange={(e) =>
+              onSettingsChange({
+                ...settings,
+                stateId: e.target.value || null,
+              })
+            }
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            <option value="">Choose a state</option>
+            {states.map((d) => (
+              <option key={d.state_id} value={d.state_id}>
+                {d.State}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => onSettingsChange({ ...settings, changes: {} })}
+          className="px-2 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+        >
+          Reset Changes
+        </button>
+      </div>
+
+      <div>
+        <h3 className="text-base font-medium mb-1">Inputs to Adjust</h3>
+        {chips("inputs")}
+      </div>
+      <div>
+        <h3 className="text-base font-medium mb-1">Outcomes to Predict</h3>
+        {chips("outcomes")}
+      </div>
+
+      {!state ? (
+        <div className="text-gray-600">
+          Choose a state, or select one on the map, to try a scenario.
+        </div>
+      ) : (
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div className="lg:w-1/2 space-y-2">
+            {settings.inputs.map((metric) => {
+              const { limit, step } = scenarioRange(data, metric);
+              const change = settings.changes[metric] ?? 0;
+              const value = state.values[metric];
+              return (
+                <div key={metric}>
+                  <div className="flex justify-between text-xs">
+                    <span className="font-medium">
+                      {getMetricLabel(metric)}
+                    </span>
+                    <span>
+                      {formatValue(value, metric)} →{" "}
+                      <strong>{formatValue(value + change, metric)}</strong> (
+                      {formatMetricChange(change, metric)})
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min={-limit}
+                    max={limit}
+                    step={step}
+                    value={change}
+                    disabled={isNaN(value)}
+                    onChange={(e) => setChange(metric, +e.target.value)}
+                    className="w-full"
+                  />
+                </div>
+              );
+            })}
+            {!settings.inputs.length && (
+              <div className="text-gray-600">Choose at least one input.</div>
+            )}
+          </div>
+
+          <div className="lg:w-1/2 space-y-2">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-b border-gray-300 text-xs text-gray-600">
+                  <th className="py-1 pr-2">Outcome</th>
+                  <th className="py-1 pr-2">Current</th>
+                  <th className="py-1 pr-2">Scenario</th>
+                  <th className="py-1 pr-2">
+                    {d3.format(".0%")(scenarioConfidence)} range
+                  </th>
+                  <th className="py-1 pr-2">Model R²</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {settings.outcomes.map((metric) => {
+                  const prediction = result?.predictions[metric];
+                  return (
+                    <tr key={metric} className="border-b border-gray-100">
+                      <td className="py-1 pr-2 font-medium">
+                        {getMetricLabel(metric)}
+                      </td>
+                      {prediction ? (
+                        <>
+                          <td className="py-1 pr-2">
+                            {formatValue(prediction.current, metric)}
+                          </td>
+                          <td className="py-1 pr-2">
+                            {formatValue(prediction.predicted, metric)}
+                            <div className="text-xs text-gray-600">
+                              {formatMetricChange(prediction.change, metric)}
+                              {prediction.clamped && " (at limit)"}
+                            </div>
+                          </td>
+                          <td className="py-1 pr-2 text-xs">
+                            {formatValue(prediction.low, metric)} –{" "}
+                            {formatValue(prediction.high, metric)}
+                          </td>
+                          <td className="py-1 pr-2 text-xs">
+                            {d3.format(".2f")(prediction.rSquared)}
+                          </td>
+                        </>
+                      ) : (
+                        <td
+                          colSpan={4}
+                          className="py-1 pr-2 text-xs text-gray-500"
+                        >
+                          {models[metric]
+                            ? `No value for ${state.State}`
+                            : "Not enough complete states to fit a model"}
+                        </td>
+                      )}
+                      <td className="py-1 text-right">
+                        <button
+                          onClick={() => onMetricSelect(metric)}
+                          disabled={selectedMetric === metric}
+                          className="px-2 py-0.5 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+                        >
+                          {selectedMetric === metric ? "Mapped" : "Map"}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {result && result.extrapolated.length > 0 && (
+              <div className="text-xs text-amber-700">
+                Beyond the range seen in any state:{" "}
+                {result.extrapolated.map(getMetricLabel).join(", ")}. The
+                prediction is an extrapolation.
+              </div>
+            )}
+            <div className="text-xs text-gray-500">
+              Each outcome is regressed on all the inputs across the loaded
+              states. The scenario shifts {state.State}&apos;s actual value by
+              the fitted effect of the changes; the range reflects uncertainty
+              in the fitted coefficients. These are associations between states,
+              not measured effects of a program.
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioPanel;
@@ -0,0 +1,187 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import * as d3 from "d3";
+import { SimilarityMethod, StateData } from "@/types";
+import { formatMetricChange, getMetricLabel } from "@/lib/metrics";
+import { findSimilarStates, similarityMethodLabels } from "@/lib/similarity";
+
+// Metrics listed as the biggest differences for each match
+const differencesShown = 3;
+const matchCounts = [5, 10];
+
+interface SimilarStatesPanelProps {
+  target: StateData;
+  data: StateData[];
+  metrics: string[];
+  selectedStates: { id: string; data: StateData }[];
+  onAddStates: (states: StateData[]) => void;
+}
+
+const SimilarStatesPanel: React.FC<SimilarStatesPanelProps> = ({
+  target,
+  data,
+  metrics,
+  selectedStates,
+  onAddStates,
+}) => {
+  const [chosenMetrics, setChosenMetrics] = useState<string[]>(metrics);
+  const [method, setMethod] = useState<SimilarityMethod>("euclidean");
+  const [count, setCount] = useState(matchCounts[0]);
+
+  // Keep the chosen metrics on ones that still exist
+  useEffect(() => {
+    setChosenMetrics((prev) => {
+      const kept = prev.filter((m) => metrics.includes(m));
+      return kept.length ? kept : metrics;
+    });
+  }, [metrics]);
+
+  const matches = useMemo(
+    () =>
+      findSimilarStates(data, target, chosenMetrics, method).slice(0, count),
+    [data, target, chosenMetrics, method, count]
+  );
+
+  const isSelected = (state: StateData) =>
+    selectedStates.some((s) => s.data.state_id === state.state_id);
+  const unselected = matches.map((m) => m.state).filter((s) => !isSelected(s));
+
+  const toggleMetric = (metric: string) => {
+    setChosenMetrics(
+      chosenMetrics.includes(metric)
+        ? chosenMetrics.filter((m) => m !== metric)
+        : [...chosenMetrics, metric]
+    );
+  };
+
+  return (
+    <div className="text-sm text-gray-800 space-y-3">
+      <div>
+        <h3 className="text-base font-medium mb-1">Compare On</h3>
+        <div className="flex flex-wrap gap-1">
+          {metrics.map((metric) => (
+            <div
+              key={metric}
+              className={`px-2 py-0.5 text-xs border rounded cursor-pointer ${
+                chosenMetrics.includes(metric)
+                  ? "bg-blue-100 border-blue-300 text-blue-800"
+                  : "bg-gray-100 border-gray-300 hover:bg-gray-200 text-gray-800"
+              }`}
+              onClick={() => toggleMetric(metric)}
+            >
+              {getMetricLabel(metric)}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-1">
+          Distance:
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as SimilarityMethod)}
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            {Object.entries(similarityMethodLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-center gap-1">
+          Show:
+          <div className="inline-flex rounded-md shadow-sm" role="group">
+            {matchCounts.map((n, i) => (
+              <button
+                key={n}
+                className={`px-2 py-0.5 text-xs font-medium border border-gray-300 ${
+                  i === 0 ? "rounded-l-lg" : "border-l-0"
+                } ${i === matchCounts.length - 1 ? "rounded-r-lg" : ""} ${
+                  count === n
+                    ? "bg-blue-500 text-white"
+                    : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+                onClick={() => setCount(n)}
+              >
+                Top {n}
+              </button>
+            ))}
+          </div>
+        </div>
+        <button
+          onClick={() => onAddStates(unselected)}
+          disabled={!unselected.length}
+          className="px-2 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          Add All to Comparison
+        </button>
+      </div>
+      <div className="text-xs text-gray-600">
+        Metrics are standardized so each counts equally. Distances are in
+        standard deviations; lower means more alike.
+      </div>
+
+      {!matches.length ? (
+        <div className="text-gray-600">
+          {chosenMetrics.length
+            ? `${target.State} is missing one of the chosen metrics.`
+            : "Choose at least one metric to compare on."}
+        </div>
+      ) : (
+        <table className="w-full text-left">
+          <thead>
+            <tr className="border-b border-gray-300 text-xs text-gray-600">
+              <th className="py-1 pr-2">#</th>
+              <th className="py-1 pr-2">State</th>
+              <th className="py-1 pr-2">Distance</th>
+              <th className="py-1 pr-2">
+                Largest differences from {target.State}
+              </th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {matches.map((match, i) => (
+              <tr
+                key={match.state.state_id}
+                className="border-b border-gray-100"
+              >
+                <td className="py-1 pr-2 text-gray-500">{i + 1}</td>
+                <td className="py-1 pr-2 font-medium">{match.state.State}</td>
+                <td className="py-1 pr-2">
+                  {d3.format(".2f")(match.distance)}
+                </td>
+                <td className="py-1 pr-2 text-xs text-gray-700">
+                  {match.differences
+                    .slice(0, differencesShown)
+                    .map(
+                      (d) =>
+                        `${getMetricLabel(d.metric)} ${formatMetricChange(
+                          d.difference,
+                          d.metric
+                        )}`
+                    )
+                    .join(" · ")}
+                </td>
+                <td className="py-1 text-right">
+                  <button
+                    onClick={() => onAddStates([match.state])}
+                    disabled={isSelected(match.state)}
+                    className="px-2 py-0.5 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+                  >
+                    {isSelected(match.state) ? "Added" : "Add"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default SimilarStatesPanel;
@@ -0,0 +1,161 @@
+"use client";
+
+import React from "react";
+import * as d3 from "d3";
+import { ContiguityStyle, SpatialWeightsSettings, StateData } from "@/types";
+import { getMetricLabel } from "@/lib/metrics";
+import { formatPValue } from "@/lib/statistics";
+import {
+  SpatialAutocorrelation,
+  contiguityLabels,
+  lisaCategories,
+  lisaColors,
+  lisaSignificance,
+  permutationCount,
+} from "@/lib/spatial";
+import MoranScatterPlot from "./MoranScatterPlot";
+
+interface SpatialPanelProps {
+  metric: string;
+  settings: SpatialWeightsSettings;
+  onSettingsChange: (settings: SpatialWeightsSettings) => void;
+  analysis: SpatialAutocorrelation | null;
+  selectedStates: { id: string; data: StateData }[];
+  onStateSelect: (stateId: string, stateData: StateData) => void;
+}
+
+const SpatialPanel: React.FC<SpatialPanelProps> = ({
+  metric,
+  settings,
+  onSettingsChange,
+  analysis,
+  selectedStates,
+  onStateSelect,
+}) => {
+  const styles = Object.keys(contiguityLabels) as ContiguityStyle[];
+
+  return (
+    <div className="text-sm text-gray-800 space-y-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-1">
+          Neighbors:
+          <div className="inline-flex rounded-md shadow-sm" role="group">
+            {styles.map((style, i) => (
+              <button
+                key={style}
+                className={`px-2 py-0.5 text-xs font-medium border border-gray-300 ${
+                  i === 0 ? "rounded-l-lg" : "border-l-0"
+                } ${i === styles.length - 1 ? "rounded-r-lg" : ""} ${
+                  settings.style === style
+                    ? "bg-blue-500 text-white"
+                    : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+                onClick={() => onSettingsChange({ ...settings, style })}
+              >
+                {contiguityLabels[style]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={settings.linkIslands}
+            onChange={(e) =>
+              onSettingsChange({ ...settings, linkIslands: e.target.checked })
+            }
+          />
+          Connect Alaska and Hawaii to their nearest states
+        </label>
+      </div>
+      <div className="text-xs text-gray-600">
+        Neighbors come from the state borders in the map. Each state is compared
+        with the mean of its neighbors, and significance is tested against{" "}
+        {permutationCount} random rearrangements of the values.
+      </div>
+
+      {!analysis ? (
+        <div className="text-gray-600">
+          {getMetricLabel(metric)} needs values for at least three states with
+          neighbors, and some variation between them.
+        </div>
+      ) : (
+        <div className="flex flex-col lg:flex-row gap-3">
+          <div className="lg:w-2/3">
+            <MoranScatterPlot
+              analysis={analysis}
+              selectedStates={selectedStates}
+              onStateSelect={onStateSelect}
+              width={620}
+              height={500}
+            />
+          </div>
+          <div className="lg:w-1/3 space-y-2">
+            <div>
+              Global Moran&apos;s I:{" "}
+              <strong>{d3.format(".3f")(analysis.moransI)}</strong>
+              <div className="text-xs text-gray-600">
+                Expected {d3.format(".3f")(analysis.expected)} with no spatial
+                pattern · z = {d3.format(".2f")(analysis.zScore)} · pseudo p ={" "}
+                {formatPValue(analysis.p)}
+              </div>
+              <div className="text-xs text-gray-600">
+                {analysis.p > lisaSignificance
+                  ? "No significant spatial pattern."
+                  : analysis.moransI > analysis.expected
+                  ? "Similar values cluster among neighboring states."
+                  : "Neighboring states tend to have dissimilar values."}
+              </div>
+            </div>
+            {lisaCategories.map((category) => {
+              const states = analysis.locals
+                .filter((l) => l.category === category)
+                .map((l) => l.state.State)
+                .sort();
+              return (
+                <div
+                  key={category}
+                  className="border border-gray-200 rounded px-2 py-1"
+                >
+                  <div className="flex items-center gap-2 font-medium">
+                    <span
+                      className="inline-block w-3 h-3 rounded-sm border border-gray-300"
+                      style={{ backgroundColor: lisaColors[category] }}
+                    />
+                    {category}
+                    <span className="text-xs font-normal text-gray-500">
+                      {states.length} states
+                    </span>
+                  </div>
+                  {category !== "Not significant" && states.length > 0 && (
+                    <div className="text-xs text-gray-700">
+                      {states.join(", ")}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            <div className="text-xs text-gray-500">
+              Local clusters are significant at p ≤ {lisaSignificance}, without
+              correction for multiple comparisons.
+            </div>
+            {analysis.isolated.length > 0 && (
+              <div className="text-xs text-gray-500">
+                Left out (no neighbors):{" "}
+                {analysis.isolated.map((s) => s.State).join(", ")}
+              </div>
+            )}
+            {analysis.missing.length > 0 && (
+              <div className="text-xs text-gray-500">
+                Left out (no value):{" "}
+                {analysis.missing.map((s) => s.State).join(", ")}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpatialPanel;
@@ -3,12 +3,25 @@
 import React, { useEffect, useRef, useState } from "react";
 import * as d3 from "d3";
 import { StateData } from "@/types";
-import { formatValue } from "@/lib/utils";
+import { formatValue, getMetrics } from "@/lib/utils";
+import {
+  formatMetricChange,
+  getMetricLabel,
+  isChartScaled,
+} from "@/lib/metrics";
+import { useNormalizer } from "@/lib/normalization";
+import {
+  ScenarioResult,
+  scenarioColor,
+  scenarioConfidence,
+} from "@/lib/scenario";
+import { BenchmarkAnalysis } from "@/lib/benchmarks";
 import {
   chartColors,
   chartContainerClass,
   chartSvgClass,
 } from "@/lib/chartStyles";
+import ChartFooter from "./ChartFooter";
 
 interface StateBarChartProps {
   width?: number;
@@ -16,6 +29,8 @@ interface StateBarChartProps {
   stateData: StateData | null;
   currentMetric: string;
   onMetricSelect: (metric: string) => void;
+  scenario?: ScenarioResult | null; // Shown when it is for this state
+  benchmarks?: Record<string, BenchmarkAnalysis>; // Adds target marks and gaps
 }
 
 const StateBarChart: React.FC<StateBarChartProps> = ({
@@ -24,8 +39,11 @@ const StateBarChart: React.FC<StateBarChartProps> = ({
   stateData,
   currentMetric,
   onMetricSelect,
+  scenario = null,
+  benchmarks,
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const normalizer = useNormalizer();
   const [tooltip, setTooltip] = useState<{
     visible: boolean;
     x: number;
@@ -44,9 +62,7 @@ const StateBarChart: React.FC<StateBarChartProps> = ({
     }
 
     // Extract metrics from state data
-    const metrics = Object.keys(stateData).filter(
-      (key) => !["Geo_ID", "State", "state_id"].includes(key)
-    );
+    const metrics = getMetrics([stateData]);
 
     // Create SVG and margins
     const svg = d3.select(svgRef.current);
@@ -55,9 +71,10 @@ const StateBarChart: React.FC<StateBarChartProps> = ({
     // Set explicit background
     svg.attr("style", "background-color: white;");
 
+    // The gap column takes extra room on the right
     const margin = {
       top: 60,
-      right: 60,
+      right: benchmarks ? 140 : 60,
       bottom: 40,
       left: 180,
     };
@@ -76,36 +93,61 @@ const StateBarChart: React.FC<StateBarChartProps> = ({
       .attr("fill", chartColors.text)
       .text(`Data for ${stateData.State}`);
 
-    // Create normalized metrics for display
-    const chartMetrics = metrics.map((m) => {
-      const value = parseFloat(stateData[m]);
-      let normalizedValue = value;
+    const isRaw = normalizer.mode === "raw";
+    const predictions =
+      scenario?.state.state_id === stateData.state_id
+        ? scenario.predictions
+        : {};
 
-      // If this is Median Household Income, scale it down
-      if (m === "Median Household Income") {
-        normalizedValue = value / 1000; // Scale down by 1000
-      }
+    // Create normalized metrics for display
+    const normalizedMetrics = metrics.map((m) => {
+      const value = stateData.values[m];
+      const chartValue = normalizer.chartValue(value, m);
+      const prediction = predictions[m];
 
       return {
         name: m,
         value: isNaN(value) ? 0 : value,
-        normalizedValue: isNaN(normalizedValue) ? 0 : normalizedValue,
-        displayValue: stateData[m],
-        isIncome: m === "Median Household Income",
+        chartValue: isNaN(chartValue) ? 0 : chartValue,
+        displayValue: value,
+        isScaled: isRaw && isChartScaled(m),
+        prediction,
+        scenario: prediction && {
+          value: normalizer.chartValue(prediction.predicted, m),
+          low: normalizer.chartValue(prediction.low, m),
+          high: normalizer.chartValue(prediction.high, m),
+        },
+        benchmark: benchmarks?.[m],
+        gap: benchmarks?.[m]?.byState[stateData.state_id],
+        target: benchmarks?.[m]
+          ? normalizer.chartValue(benchmarks[m].target, m)
+          : NaN,
       };
     });
+    const scenarioMetrics = normalizedMetrics.filter((d) => d.scenario);
 
-    // Create a secondary array for scaled values
-    const normalizedMetrics = chartMetrics.map((d) => ({
-      ...d,
-      chartValue: d.isIncome ? d.normalizedValue : d.value,
-    }));
-
-    // Set up scales
-    const maxValue = d3.max(normalizedMetrics, (d) => d.chartValue) || 0;
+    // Set up scales. Z-scores can be negative, so bars grow from zero.
+    const maxValue =
+      d3.max(normalizedMetrics, (d) =>
+        Math.max(
+          d.chartValue,
+          d.scenario?.high ?? -Infinity,
+          isNaN(d.target) ? -Infinity : d.target
+        )
+      ) || 0;
+    const minValue = Math.min(
+      0,
+      d3.min(normalizedMetrics, (d) =>
+        Math.min(
+          d.chartValue,
+          d.scenario?.low ?? Infinity,
+          isNaN(d.target) ? Infinity : d.target
+        )
+      ) || 0
+    );
     const xScale = d3
       .scaleLinear()
-      .domain([0, maxValue * 1.1]) // Add 10% padding
+      .domain([minValue * 1.1, maxValue * 1.1]) // Add 10% padding
       .range([margin.left, width - margin.right]);
 
     const yScale = d3
@@ -133,14 +175,7 @@ const StateBarChart: React.FC<StateBarChartProps> = ({
       .call(d3.axisLeft(yScale))
       .selectAll("text")
       .style("font-size", "11px")
-      .text((d: any) => {
-        // Shorten long labels
-        const text = d as string;
-        if (text.length > 20) {
-          return text.substring(0, 17) + "...";
-        }
-        return text;
-      });
+      .text((d: any) => getMetricLabel(d as string));
 
     // Add bars
     svg
@@ -148,9 +183,9 @@ const StateBarChart: React.FC<StateBarChartProps> = ({
       .data(normalizedMetrics)
       .join("rect")
       .attr("class", "bar")
-      .attr("x", margin.left)
+      .attr("x", (d) => xScale(Math.min(0, d.chartValue)))
       .attr("y", (d) => yScale(d.name) || 0)
-      .attr("width", (d) => xScale(d.chartValue) - margin.left)
+      .attr("width", (d) => Math.abs(xScale(d.chartValue) - xScale(0)))
       .attr("height", yScale.bandwidth())
       .attr("fill", (d) =>
         d.name === currentMetric ? chartColors.accent1 : chartColors.bars
@@ -162,8 +197,28 @@ const StateBarChart: React.FC<StateBarChartProps> = ({
           y: event.pageY,
           content: (
             <>
-              <strong>{d.name}:</strong> {formatValue(d.displayValue, d.name)}
-              {d.isIncome && (
+              <strong>{d.name}:</strong>{" "}
+              {normalizer.describe(d.displayValue, d.name)}
+              {d.prediction && (
+                <div className="text-xs">
+                  Scenario: {formatValue(d.prediction.predicted, d.name)} (
+                  {d3.format(".0%")(scenarioConfidence)} range{" "}
+                  {formatValue(d.prediction.low, d.name)} –{" "}
+                  {formatValue(d.prediction.high, d.name)})
+                </div>
+              )}
+              {d.benchmark && (
+                <div className="text-xs">
+                  Target: {d.benchmark.label}
+                  {d.gap &&
+                    ` · ${
+                      d.gap.met
+                        ? "met"
+                        : `gap ${formatMetricChange(d.gap.difference, d.name)}`
+                    }`}
+                </div>
+              )}
+              {d.isScaled && (
                 <div className="text-xs italic">
                   (scaled in chart for comparison)
                 </div>
@@ -186,6 +241,84 @@ const StateBarChart: React.FC<StateBarChartProps> = ({
         onMetricSelect(d.name);
       });
 
+    // Scenario predictions sit inside the bar as a dashed bar with an
+    // interval line
+    const scenarioY = (name: string) =>
+      (yScale(name) || 0) + yScale.bandwidth() * 0.3;
+    svg
+      .selectAll(".scenario-bar")
+      .data(scenarioMetrics)
+      .join("rect")
+      .attr("class", "scenario-bar")
+      .attr("x", (d) => xScale(Math.min(0, d.scenario!.value)))
+      .attr("y", (d) => scenarioY(d.name))
+      .attr("width", (d) => Math.abs(xScale(d.scenario!.value) - xScale(0)))
+      .attr("height", yScale.bandwidth() * 0.4)
+      .attr("fill", scenarioColor)
+      .attr("fill-opacity", 0.6)
+      .attr("stroke", scenarioColor)
+      .attr("stroke-dasharray", "3,2")
+      .attr("pointer-events", "none");
+    svg
+      .selectAll(".scenario-range")
+      .data(scenarioMetrics)
+      .join("line")
+      .attr("class", "scenario-range")
+      .attr("x1", (d) => xScale(d.scenario!.low))
+      .attr("x2", (d) => xScale(d.scenario!.high))
+      .attr("y1", (d) => scenarioY(d.name) + yScale.bandwidth() * 0.2)
+      .attr("y2", (d) => scenarioY(d.name) + yScale.bandwidth() * 0.2)
+      .attr("stroke", chartColors.text)
+      .attr("stroke-width", 1.5)
+      .attr("pointer-events", "none");
+
+    // Targets are marked across each bar, with the gap in its own column
+    if (benchmarks) {
+      const withTargets = normalizedMetrics.filter((d) => !isNaN(d.target));
+      svg
+        .selectAll(".target-mark")
+        .data(withTargets)
+        .join("line")
+        .attr("class", "target-mark")
+        .attr("x1", (d) => xScale(d.target))
+        .attr("x2", (d) => xScale(d.target))
+        .attr("y1", (d) => (yScale(d.name) || 0) - 2)
+        .attr("y2", (d) => (yScale(d.name) || 0) + yScale.bandwidth() + 2)
+        .attr("stroke", chartColors.text)
+        .attr("stroke-width", 2)
+        .attr("pointer-events", "none");
+
+      const gapX = width - 10;
+      svg
+        .append("text")
+        .attr("x", gapX)
+        .attr("y", margin.top - 6)
+        .attr("text-anchor", "end")
+        .attr("font-size", "11px")
+        .attr("font-weight", "bold")
+        .attr("fill", chartColors.text)
+        .text("Gap to target");
+      svg
+        .selectAll(".gap-label")
+        .data(withTargets)
+        .join("text")
+        .attr("class", "gap-label")
+        .attr("x", gapX)
+        .attr("y", (d) => (yScale(d.name) || 0) + yScale.bandwidth() / 2 + 4)
+        .attr("text-anchor", "end")
+        .attr("font-size", "10px")
+        .attr("fill", (d) =>
+          !d.gap ? chartColors.axis : d.gap.met ? "#15803d" : "#b91c1c"
+        )
+        .text((d) =>
+          !d.gap
+            ? "N/A"
+            : d.gap.met
+            ? "Met"
+            : formatMetricChange(d.gap.difference, d.name)
+        );
+    }
+
     // Add value labels if there's enough space
     if (yScale.bandwidth() > 15) {
       svg
@@ -193,24 +326,74 @@ const StateBarChart: React.FC<StateBarChartProps> = ({
         .data(normalizedMetrics)
         .join("text")
         .attr("class", "value-label")
-        .attr("x", (d) => xScale(d.chartValue) + 5)
+        .attr(
+          "x",
+          (d) => xScale(Math.max(0, d.chartValue, d.scenario?.high ?? 0)) + 5
+        )
         .attr("y", (d) => (yScale(d.name) || 0) + yScale.bandwidth() / 2 + 4)
-        .text((d) => formatValue(d.displayValue, d.name))
+        .text((d) =>
+          isRaw
+            ? formatValue(d.displayValue, d.name)
+            : normalizer.format(d.chartValue)
+        )
         .attr("font-size", "9px")
         .attr("fill", "black");
     }
 
-    // Add a note about scaling income
-    svg
-      .append("text")
-      .attr("x", width / 2)
-      .attr("y", 40)
-      .attr("text-anchor", "middle")
-      .attr("font-size", "11px")
-      .attr("font-style", "italic")
-      .attr("fill", chartColors.text)
-      .text("Note: Median Household Income is scaled down for comparison");
-  }, [stateData, currentMetric, width, height, onMetricSelect]);
+    if (!isRaw) {
+      svg
+        .append("text")
+        .attr("x", width / 2)
+        .attr("y", 40)
+        .attr("text-anchor", "middle")
+        .attr("font-size", "11px")
+        .attr("font-style", "italic")
+        .attr("fill", chartColors.text)
+        .text(normalizer.axisLabel);
+    }
+
+    if (scenarioMetrics.length) {
+      svg
+        .append("text")
+        .attr("x", width / 2)
+        .attr("y", 54)
+        .attr("text-anchor", "middle")
+        .attr("font-size", "11px")
+        .attr("fill", scenarioColor)
+        .text(
+          `Dashed bars: scenario prediction with ${d3.format(".0%")(
+            scenarioConfidence
+          )} range`
+        );
+    }
+
+    // Add a note about metrics scaled to share the axis
+    const scaledMetrics = isRaw ? metrics.filter(isChartScaled) : [];
+    if (scaledMetrics.length) {
+      svg
+        .append("text")
+        .attr("x", width / 2)
+        .attr("y", 40)
+        .attr("text-anchor", "middle")
+        .attr("font-size", "11px")
+        .attr("font-style", "italic")
+        .attr("fill", chartColors.text)
+        .text(
+          `Note: ${scaledMetrics.join(", ")} ${
+            scaledMetrics.length > 1 ? "are" : "is"
+          } scaled down for comparison`
+        );
+    }
+  }, [
+    stateData,
+    currentMetric,
+    width,
+    height,
+    onMetricSelect,
+    normalizer,
+    scenario,
+    benchmarks,
+  ]);
 
   if (!stateData) {
     return (
@@ -232,6 +415,8 @@ const StateBarChart: React.FC<StateBarChartProps> = ({
         className={chartSvgClass}
       />
 
+      <ChartFooter />
+
       {tooltip.visible && (
         <div
           className="absolute bg-white border border-gray-300 rounded p-2 shadow-md text-sm pointer-events-none z-10 text-gray-800"
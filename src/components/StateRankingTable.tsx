@@ -0,0 +1,400 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import * as d3 from "d3";
+import {
+  ColumnDef,
+  ColumnFiltersState,
+  Row,
+  RowSelectionState,
+  SortingState,
+  createColumnHelper,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getSortedRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import { StateData } from "@/types";
+import { formatValue } from "@/lib/utils";
+import { getMetricDefinition, getMetricLabel } from "@/lib/metrics";
+import { useNormalizer } from "@/lib/normalization";
+
+interface StateRankingTableProps {
+  data: StateData[];
+  metrics: string[];
+  selectedStates: { id: string; data: StateData }[];
+  onSelectionChange: (states: StateData[]) => void;
+}
+
+const rankSuffix = " rank";
+const columnHelper = createColumnHelper<StateData>();
+
+// 1 is the best state for the metric; tied states share a rank
+function rankStates(data: StateData[], metric: string): Map<string, number> {
+  const sign =
+    getMetricDefinition(metric).direction === "higher-is-worse" ? 1 : -1;
+  const values = data
+    .map((d) => sign * d.values[metric])
+    .filter((v) => isFinite(v))
+    .sort(d3.ascending);
+  return new Map(
+    data
+      .filter((d) => isFinite(d.values[metric]))
+      .map((d) => [
+        d.state_id,
+        d3.bisectLeft(values, sign * d.values[metric]) + 1,
+      ])
+  );
+}
+
+const numberOrUndefined = (value: string) =>
+  value === "" || isNaN(+value) ? undefined : +value;
+
+const StateRankingTable: React.FC<StateRankingTableProps> = ({
+  data,
+  metrics,
+  selectedStates,
+  onSelectionChange,
+}) => {
+  const normalizer = useNormalizer();
+  const [shownMetrics, setShownMetrics] = useState<string[] | null>(null);
+  const [sorting, setSorting] = useState<SortingState>([]);
+  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
+  const [pinSelected, setPinSelected] = useState(true);
+
+  const visibleMetrics = useMemo(
+    () => (shownMetrics ?? metrics).filter((m) => metrics.includes(m)),
+    [shownMetrics, metrics]
+  );
+
+  const ranks = useMemo(
+    () => new Map(metrics.map((m) => [m, rankStates(data, m)])),
+    [data, metrics]
+  );
+
+  // Same palette and binning as the map's level view
+  const colorScales = useMemo(
+    () =>
+      new Map(
+        metrics.map((metric) => {
+          const values = data
+            .map((d) => normalizer.normalize(d.values[metric], metric))
+            .filter((v) => !isNaN(v));
+          return [
+            metric,
+            d3
+              .scaleQuantize<string>()
+              .domain([d3.min(values) || 0, d3.max(values) || 100])
+              .range(d3.schemeBlues[9]),
+          ];
+        })
+      ),
+    [data, metrics, normalizer]
+  );
+  const cellStyle = (metric: string, value: number) => {
+    if (isNaN(value)) return undefined;
+    const scale = colorScales.get(metric)!;
+    const color = scale(normalizer.normalize(value, metric));
+    const isDark = d3.schemeBlues[9].indexOf(color) >= 6;
+    return { backgroundColor: color, color: isDark ? "white" : undefined };
+  };
+
+  const columns = useMemo<ColumnDef<StateData, any>[]>(
+    () => [
+      columnHelper.display({
+        id: "select",
+        header: ({ table }) => (
+          <input
+            type="checkbox"
+            checked={table.getIsAllPageRowsSelected()}
+            ref={(el) => {
+              if (el) el.indeterminate = table.getIsSomePageRowsSelected();
+            }}
+            onChange={table.getToggleAllPageRowsSelectedHandler()}
+            title="Select all shown states"
+          />
+        ),
+        cell: ({ row }) => (
+          <input
+            type="checkbox"
+            checked={row.getIsSelected()}
+            onChange={row.getToggleSelectedHandler()}
+          />
+        ),
+      }),
+      columnHelper.accessor("State", {
+        header: "State",
+        filterFn: "includesString",
+      }),
+      ...visibleMetrics.map((metric) =>
+        columnHelper.group({
+          id: `${metric} group`,
+          header: getMetricLabel(metric),
+          columns: [
+            columnHelper.accessor(
+              (d) =>
+                isFinite(d.values[metric]) ? d.values[metric] : undefined,
+              {
+                id: metric,
+                header: "Value",
+                filterFn: "inNumberRange",
+                sortUndefined: "last",
+                cell: ({ row }) =>
+                  formatValue(row.original.values[metric], metric),
+              }
+            ),
+            columnHelper.accessor((d) => ranks.get(metric)?.get(d.state_id), {
+              id: `${metric}${rankSuffix}`,
+              header: "Rank",
+              enableColumnFilter: false,
+              sortUndefined: "last",
+              cell: ({ getValue }) => getValue() ?? "–",
+            }),
+          ],
+        })
+      ),
+    ],
+    [visibleMetrics, ranks]
+  );
+
+  // Selections can briefly point at states the table no longer has
+  const selectedIds = useMemo(
+    () =>
+      selectedStates
+        .map((s) => s.data.state_id)
+        .filter((id) => data.some((d) => d.state_id === id)),
+    [selectedStates, data]
+  );
+  const rowSelection = useMemo<RowSelectionState>(
+    () => Object.fromEntries(selectedIds.map((id) => [id, true])),
+    [selectedIds]
+  );
+
+  const table = useReactTable({
+    data,
+    columns,
+    state: {
+      sorting,
+      columnFilters,
+      rowSelection,
+      rowPinning: {
+        top: pinSelected ? selectedIds : [],
+      },
+    },
+    getRowId: (d) => d.state_id,
+    enableRowSelection: true,
+    enableRowPinning: true,
+    keepPinnedRows: true,
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
+    onRowSelectionChange: (updater) => {
+      const next =
+        typeof updater === "function" ? updater(rowSelection) : updater;
+      onSelectionChange(data.filter((d) => next[d.state_id]));
+    },
+    getCoreRowModel: getCoreRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+  });
+
+  const topRows = table.getTopRows();
+  const centerRows = table.getCenterRows();
+  const shownCount = table.getFilteredRowModel().rows.length;
+  const leafHeaders = table.getHeaderGroups().slice(-1)[0]?.headers ?? [];
+
+  const renderRow = (row: Row<StateData>) => (
+    <tr
+      key={row.id}
+      className={`border-b border-gray-100 ${
+        row.getIsSelected() ? "bg-blue-50" : ""
+      }`}
+    >
+      {row.getVisibleCells().map((cell) => {
+        const metric = cell.column.id;
+        const isValue = ranks.has(metric);
+        return (
+          <td
+            key={cell.id}
+            className={`px-2 py-0.5 whitespace-nowrap ${
+              metric === "State" ? "font-medium" : ""
+            } ${isValue || metric.endsWith(rankSuffix) ? "text-right" : ""}`}
+            style={
+              isValue
+                ? cellStyle(metric, row.original.values[metric])
+                : undefined
+            }
+          >
+            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+          </td>
+        );
+      })}
+    </tr>
+  );
+
+  return (
+    <div className="text-sm text-gray-800 space-y-3">
+      <div>
+        <h3 className="text-base font-medium mb-1">Columns</h3>
+        <div className="flex flex-wrap gap-1">
+          {metrics.map((metric) => (
+            <div
+              key={metric}
+              className={`px-2 py-0.5 text-xs border rounded cursor-pointer ${
+                visibleMetrics.includes(metric)
+                  ? "bg-blue-100 border-blue-300 text-blue-800"
+                  : "bg-gray-100 border-gray-300 hover:bg-gray-200 text-gray-800"
+              }`}
+              onClick={() =>
+                setShownMetrics(
+                  visibleMetrics.includes(metric)
+                    ? visibleMetrics.filter((m) => m !== metric)
+                    : metrics.filter(
+                        (m) => m === metric || visibleMetrics.includes(m)
+                      )
+                )
+              }
+            >
+              {getMetricLabel(metric)}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={pinSelected}
+            onChange={(e) => setPinSelected(e.target.checked)}
+          />
+          Pin selected states to the top
+        </label>
+        <button
+          onClick={() => {
+            setSorting([]);
+            setColumnFilters([]);
+          }}
+          disabled={!sorting.length && !columnFilters.length}
+          className="px-2 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          Clear Sorting & Filters
+        </button>
+        <div className="text-gray-600">
+          Showing {shownCount} of {data.length} states · {selectedStates.length}{" "}
+          selected
+        </div>
+      </div>
+
+      <div className="w-full overflow-x-auto max-h-[600px] overflow-y-auto border border-gray-200 rounded">
+        <table className="text-left text-xs">
+          <thead className="sticky top-0 bg-white z-10">
+            {table.getHeaderGroups().map((headerGroup) => (
+              <tr key={headerGroup.id} className="border-b border-gray-300">
+                {headerGroup.headers.map((header) => (
+                  <th
+                    key={header.id}
+                    colSpan={header.colSpan}
+                    className={`px-2 py-1 whitespace-nowrap text-gray-600 ${
+                      header.subHeaders.length ? "text-center" : ""
+                    } ${
+                      header.column.getCanSort() && !header.isPlaceholder
+                        ? "cursor-pointer select-none hover:text-gray-900"
+                        : ""
+                    }`}
+                    onClick={
+                      header.isPlaceholder
+                        ? undefined
+                        : header.column.getToggleSortingHandler()
+                    }
+                  >
+                    {!header.isPlaceholder &&
+                      flexRender(
+                        header.column.columnDef.header,
+                        header.getContext()
+                      )}
+                    {!header.isPlaceholder &&
+                      ({ asc: " ▲", desc: " ▼" }[
+                        header.column.getIsSorted() as string
+                      ] ??
+                        "")}
+                  </th>
+                ))}
+              </tr>
+            ))}
+            <tr className="border-b border-gray-300">
+              {leafHeaders.map((header) => {
+                const column = header.column;
+                if (!column.getCanFilter()) return <th key={header.id} />;
+                if (column.id === "State") {
+                  return (
+                    <th key={header.id} className="px-2 py-1">
+                      <input
+                        type="text"
+                        value={(column.getFilterValue() as string) ?? ""}
+                        onChange={(e) => column.setFilterValue(e.target.value)}
+                        placeholder="Search"
+                        className="w-24 border border-gray-300 rounded px-1 py-0.5 font-normal"
+                      />
+                    </th>
+                  );
+                }
+                const [min, max] =
+                  (column.getFilterValue() as [number?, number?]) ?? [];
+                return (
+                  <th key={header.id} className="px-2 py-1">
+                    <div className="flex gap-1 font-normal">
+                      <input
+                        type="number"
+                        value={min ?? ""}
+                        onChange={(e) =>
+                          column.setFilterValue([
+                            numberOrUndefined(e.target.value),
+                            max,
+                          ])
+                        }
+                        placeholder="Min"
+                        className="w-16 border border-gray-300 rounded px-1 py-0.5"
+                      />
+                      <input
+                        type="number"
+                        value={max ?? ""}
+                        onChange={(e) =>
+                          column.setFilterValue([
+                            min,
+                            numberOrUndefined(e.target.value),
+                          ])
+                        }
+                        placeholder="Max"
+                        className="w-16 border border-gray-300 rounded px-1 py-0.5"
+                      />
+                    </div>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {topRows.map(renderRow)}
+            {topRows.length > 0 && (
+              <tr>
+                <td
+                  colSpan={leafHeaders.length}
+                  className="border-b-2 border-gray-300"
+                />
+              </tr>
+            )}
+            {centerRows.map(renderRow)}
+          </tbody>
+        </table>
+      </div>
+      <div className="text-xs text-gray-500">
+        Rank 1 is the best state on each metric. Cells are colored with the
+        map&apos;s palette. Click a column header to sort; checked states are
+        selected across the dashboard.
+      </div>
+    </div>
+  );
+};
+
+export default StateRankingTable;
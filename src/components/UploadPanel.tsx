@@ -0,0 +1,222 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  ColumnMapping,
+  StateData,
+  StateIdentifierType,
+  UploadedTable,
+} from "@/types";
+import {
+  detectIdentifierType,
+  detectNumericColumns,
+  identifierTypeLabels,
+  joinUploadedTable,
+  parseUploadedFile,
+} from "@/lib/upload";
+
+interface UploadPanelProps {
+  topoData: any;
+  onDatasetLoad: (name: string, data: StateData[]) => void;
+  onClose: () => void;
+}
+
+const UploadPanel: React.FC<UploadPanelProps> = ({
+  topoData,
+  onDatasetLoad,
+  onClose,
+}) => {
+  const [table, setTable] = useState<UploadedTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setError(null);
+      const parsed = await parseUploadedFile(file);
+      if (!parsed.rows.length) {
+        throw new Error("The file has no data rows");
+      }
+
+      // Pre-fill the mapping with our best guesses
+      const numericColumns = detectNumericColumns(parsed);
+      const idColumn =
+        parsed.columns.find((c) => !numericColumns.includes(c)) ??
+        parsed.columns[0];
+      const idType = detectIdentifierType(
+        idColumn,
+        parsed.rows.map((r) => r[idColumn])
+      );
+
+      setTable(parsed);
+      setMapping({
+        idColumn,
+        idType,
+        metricColumns: numericColumns.filter((c) => c !== idColumn),
+      });
+    } catch (err) {
+      setTable(null);
+      setMapping(null);
+      setError(`Could not read ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const handleIdColumnChange = (idColumn: string) => {
+    if (!table || !mapping) return;
+    setMapping({
+      idColumn,
+      idType: detectIdentifierType(
+        idColumn,
+        table.rows.map((r) => r[idColumn])
+      ),
+      metricColumns: mapping.metricColumns.filter((c) => c !== idColumn),
+    });
+  };
+
+  const toggleMetricColumn = (column: string) => {
+    if (!mapping) return;
+    setMapping({
+      ...mapping,
+      metricColumns: mapping.metricColumns.includes(column)
+        ? mapping.metricColumns.filter((c) => c !== column)
+        : [...mapping.metricColumns, column],
+    });
+  };
+
+  // Re-validate the join whenever the mapping changes
+  const report = useMemo(
+    () =>
+      table && mapping ? joinUploadedTable(table, mapping, topoData) : null,
+    [table, mapping, topoData]
+  );
+
+  const canApply =
+    !!report && report.data.length > 0 && !!mapping?.metricColumns.length;
+
+  return (
+    <div className="bg-white p-3 rounded-lg border border-gray-200 shadow text-sm text-gray-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold">Upload Your Own Data</h2>
+        <button
+          onClick={onClose}
+          className="px-2 py-1 text-sm bg-gray-500 text-white rounded hover:bg-gray-600"
+        >
+          Close
+        </button>
+      </div>
+
+      <div>
+        <div className="font-medium mb-1">1. Choose a CSV or XLSX file</div>
+        <input
+          type="file"
+          accept=".csv,.xlsx,text/csv"
+          onChange={handleFileChange}
+        />
+        {error && <div className="mt-1 text-red-500">{error}</div>}
+      </div>
+
+      {table && mapping && (
+        <>
+          <div>
+            <div className="font-medium mb-1">
+              2. Which column identifies the state?
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <select
+                value={mapping.idColumn}
+                onChange={(e) => handleIdColumnChange(e.target.value)}
+                className="border border-gray-300 rounded px-1 py-0.5"
+              >
+                {table.columns.map((column) => (
+                  <option key={column} value={column}>
+                    {column}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={mapping.idType}
+                onChange={(e) =>
+                  setMapping({
+                    ...mapping,
+                    idType: e.target.value as StateIdentifierType,
+                  })
+                }
+                className="border border-gray-300 rounded px-1 py-0.5"
+              >
+                {Object.entries(identifierTypeLabels).map(([type, label]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <div className="font-medium mb-1">
+              3. Which columns are metrics?
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {table.columns
+                .filter((c) => c !== mapping.idColumn)
+                .map((column) => (
+                  <div
+                    key={column}
+                    className={`px-2 py-0.5 text-xs border rounded cursor-pointer ${
+                      mapping.metricColumns.includes(column)
+                        ? "bg-blue-100 border-blue-300 text-blue-800"
+                        : "bg-gray-100 border-gray-300 hover:bg-gray-200 text-gray-800"
+                    }`}
+                    onClick={() => toggleMetricColumn(column)}
+                  >
+                    {column}
+                  </div>
+                ))}
+            </div>
+          </div>
+
+          {report && (
+            <div>
+              <div className="font-medium mb-1">4. Check the join</div>
+              <div>
+                {report.matchedRows} of {table.rows.length} rows matched a
+                jurisdiction on the map
+                {report.duplicates.length > 0 &&
+                  `, covering ${report.data.length} jurisdictions`}
+                .
+              </div>
+              {report.unmatched.length > 0 && (
+                <div className="text-red-500">
+                  Unmatched identifiers: {report.unmatched.join(", ")}
+                </div>
+              )}
+              {report.duplicates.length > 0 && (
+                <div className="text-amber-600">
+                  Duplicate rows (last one kept): {report.duplicates.join(", ")}
+                </div>
+              )}
+              {report.missing.length > 0 && (
+                <div className="text-gray-600">
+                  Not in the file: {report.missing.join(", ")}
+                </div>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={() => report && onDatasetLoad(table.fileName, report.data)}
+            disabled={!canApply}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+          >
+            Use This Dataset
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UploadPanel;
@@ -0,0 +1,115 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { MapValueMode } from "@/types";
+
+interface YearSliderProps {
+  years: number[];
+  selectedYear: number;
+  onYearChange: (year: number) => void;
+  valueMode: MapValueMode;
+  onValueModeChange: (mode: MapValueMode) => void;
+  baseYear: number;
+  onBaseYearChange: (year: number) => void;
+  playInterval?: number;
+}
+
+const YearSlider: React.FC<YearSliderProps> = ({
+  years,
+  selectedYear,
+  onYearChange,
+  valueMode,
+  onValueModeChange,
+  baseYear,
+  onBaseYearChange,
+  playInterval = 1500,
+}) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const yearIndex = Math.max(0, years.indexOf(selectedYear));
+  const hasMultipleYears = years.length > 1;
+
+  // Step through the vintages while playing, stopping at the last one
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    if (yearIndex >= years.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      onYearChange(years[yearIndex + 1]);
+    }, playInterval);
+
+    return () => clearTimeout(timer);
+  }, [isPlaying, yearIndex, years, playInterval, onYearChange]);
+
+  const togglePlay = () => {
+    // Restart from the first vintage when playing from the end
+    if (!isPlaying && yearIndex >= years.length - 1) {
+      onYearChange(years[0]);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 bg-white p-2 rounded border border-gray-200 text-sm text-gray-800">
+      <button
+        onClick={togglePlay}
+        disabled={!hasMultipleYears}
+        className="px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+      >
+        {isPlaying ? "❚❚ Pause" : "▶ Play"}
+      </button>
+
+      <label className="flex items-center gap-2">
+        <span className="font-medium">Year</span>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, years.length - 1)}
+          step={1}
+          value={yearIndex}
+          disabled={!hasMultipleYears}
+          onChange={(e) => {
+            setIsPlaying(false);
+            onYearChange(years[parseInt(e.target.value)]);
+          }}
+        />
+        <span className="font-semibold w-10">{selectedYear}</span>
+      </label>
+
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={valueMode === "change"}
+          disabled={!hasMultipleYears}
+          onChange={(e) =>
+            onValueModeChange(e.target.checked ? "change" : "level")
+          }
+        />
+        Change since
+      </label>
+      <select
+        value={baseYear}
+        disabled={!hasMultipleYears || valueMode !== "change"}
+        onChange={(e) => onBaseYearChange(parseInt(e.target.value))}
+        className="border border-gray-300 rounded px-1 py-0.5"
+      >
+        {years.map((year) => (
+          <option key={year} value={year}>
+            {year}
+          </option>
+        ))}
+      </select>
+      {!hasMultipleYears && (
+        <span className="text-xs text-gray-500">
+          Only {selectedYear} data is loaded, so there is no earlier year to
+          compare against
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default YearSlider;
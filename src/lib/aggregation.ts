@@ -0,0 +1,124 @@
+import * as d3 from "d3";
+import { AggregationMode, StateData } from "@/types";
+import { getMetricDefinition } from "@/lib/metrics";
+import { regions } from "@/lib/geography";
+
+export const nationalAggregateName = "National";
+
+export interface AggregateValue {
+  value: number; // NaN when no state has data
+  weighted: boolean; // False when unweighted or when weights were missing
+  weightTotal: number; // Sum of the weights used, NaN when unweighted
+  // Absolute count for percent metrics, e.g. households without broadband.
+  // NaN when unweighted, not a percentage, or weighted by a proxy column.
+  count: number;
+  states: number; // States with a value
+}
+
+export interface RegionAggregate {
+  name: string;
+  states: StateData[];
+  values: Record<string, AggregateValue>;
+}
+
+// True when every state with a value for the metric also has its weight
+export function hasWeights(states: StateData[], metric: string): boolean {
+  const weightKey = getMetricDefinition(metric).weight;
+  if (!weightKey) return false;
+
+  const withValues = states.filter((s) => !isNaN(s.values[metric] ?? NaN));
+  return (
+    withValues.length > 0 &&
+    withValues.every((s) => (s.counts?.[weightKey] ?? 0) > 0)
+  );
+}
+
+// Combine a metric across states. Weighted mode weights each state by the
+// metric's count column (households or population), so large states count
+// for more; it falls back to a simple mean when any weight is missing.
+// Weighting a median (income) gives an approximation, not the true median
+// of the pooled distribution.
+export function aggregateMetric(
+  states: StateData[],
+  metric: string,
+  mode: AggregationMode
+): AggregateValue {
+  const definition = getMetricDefinition(metric);
+  const valid = states.filter((s) => !isNaN(s.values[metric] ?? NaN));
+
+  if (mode === "weighted" && hasWeights(valid, metric)) {
+    const weightKey = definition.weight!;
+    const weightTotal = d3.sum(valid, (s) => s.counts[weightKey]);
+    const weightedSum = d3.sum(
+      valid,
+      (s) => s.values[metric] * s.counts[weightKey]
+    );
+    return {
+      value: weightedSum / weightTotal,
+      weighted: true,
+      weightTotal,
+      count:
+        definition.unit === "percent" && definition.weightIsUniverse
+          ? weightedSum / 100
+          : NaN,
+      states: valid.length,
+    };
+  }
+
+  return {
+    value: d3.mean(valid, (s) => s.values[metric]) ?? NaN,
+    weighted: false,
+    weightTotal: NaN,
+    count: NaN,
+    states: valid.length,
+  };
+}
+
+// How an aggregate was combined, for chart labels and notes
+export function describeWeighting(
+  metric: string,
+  aggregate: AggregateValue,
+  mode: AggregationMode
+): string {
+  if (aggregate.weighted) {
+    return `weighted by ${getMetricDefinition(metric).weight!.toLowerCase()}`;
+  }
+  return mode === "weighted"
+    ? "unweighted: no counts in this dataset"
+    : "unweighted";
+}
+
+function aggregateGroup(
+  name: string,
+  states: StateData[],
+  metrics: string[],
+  mode: AggregationMode
+): RegionAggregate {
+  return {
+    name,
+    states,
+    values: Object.fromEntries(
+      metrics.map((metric) => [metric, aggregateMetric(states, metric, mode)])
+    ),
+  };
+}
+
+// One aggregate per Census region, followed by one for every state passed
+// in (which includes DC and the territories when they are shown)
+export function aggregateRegions(
+  data: StateData[],
+  metrics: string[],
+  mode: AggregationMode
+): RegionAggregate[] {
+  return [
+    ...Object.entries(regions).map(([name, stateIds]) =>
+      aggregateGroup(
+        name,
+        data.filter((d) => stateIds.includes(d.state_id)),
+        metrics,
+        mode
+      )
+    ),
+    aggregateGroup(nationalAggregateName, data, metrics, mode),
+  ];
+}
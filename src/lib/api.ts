@@ -0,0 +1,301 @@
+import * as d3 from "d3";
+import {
+  ApiState,
+  ApiStatesResponse,
+  MetricDefinition,
+  StateData,
+  Vintage,
+} from "@/types";
+import { getMetricDefinition } from "@/lib/metrics";
+import { getRegionForState, regions } from "@/lib/geography";
+import { aggregateMetric } from "@/lib/aggregation";
+import { InequalityMeasures, measureInequality } from "@/lib/inequality";
+import { getMetrics, stateToFipsMap } from "@/lib/utils";
+
+export class ApiQueryError extends Error {}
+
+// Route params may arrive percent-encoded; metric names contain "%" so a
+// failed decode means the value was already decoded
+export function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export function toApiState(state: StateData, fields?: string[]): ApiState {
+  const keys = fields ?? Object.keys(state.values);
+  return {
+    id: state.state_id,
+    geoId: state.Geo_ID,
+    name: state.State,
+    region: getRegionForState(state.state_id),
+    values: Object.fromEntries(
+      keys.map((key) => {
+        const value = state.values[key];
+        return [key, value === undefined || isNaN(value) ? null : value];
+      })
+    ),
+    moe: Object.fromEntries(
+      Object.entries(state.moe).filter(([key]) => keys.includes(key))
+    ),
+    counts: state.counts,
+  };
+}
+
+export function fromApiState(state: ApiState): StateData {
+  return {
+    Geo_ID: state.geoId,
+    State: state.name,
+    state_id: state.id,
+    values: Object.fromEntries(
+      Object.entries(state.values).map(([key, value]) => [key, value ?? NaN])
+    ),
+    moe: state.moe,
+    counts: state.counts ?? {},
+  };
+}
+
+// Accepts a postal code (AL), FIPS code (01) or Geo_ID (0400000US01)
+export function findState(
+  data: StateData[],
+  id: string
+): StateData | undefined {
+  const upper = id.toUpperCase();
+  return data.find(
+    (d) =>
+      d.state_id === upper ||
+      d.Geo_ID.toUpperCase() === upper ||
+      stateToFipsMap[d.state_id] === id.padStart(2, "0")
+  );
+}
+
+function parseNumberParam(name: string, raw: string): number {
+  const value = Number(raw);
+  if (raw.trim() === "" || isNaN(value)) {
+    throw new ApiQueryError(`Parameter "${name}" must be a number`);
+  }
+  return value;
+}
+
+function assertMetric(metrics: string[], metric: string) {
+  if (!metrics.includes(metric)) {
+    throw new ApiQueryError(`Unknown metric "${metric}"`);
+  }
+}
+
+// ?limit= as a positive whole number; undefined when not given
+export function parseLimitParam(params: URLSearchParams): number | undefined {
+  const raw = params.get("limit");
+  if (raw === null) return undefined;
+  const limit = parseNumberParam("limit", raw);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new ApiQueryError(`Parameter "limit" must be a positive integer`);
+  }
+  return limit;
+}
+
+// ?<name>= as one of the given choices; the first choice when not given
+export function parseChoiceParam<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  choices: readonly T[]
+): T {
+  const raw = params.get(name);
+  if (raw === null) return choices[0];
+  if (!choices.includes(raw as T)) {
+    throw new ApiQueryError(
+      `Parameter "${name}" must be one of ${choices.join(", ")}`
+    );
+  }
+  return raw as T;
+}
+
+// ?fields= as a list of known metrics; undefined when not given
+export function parseFieldsParam(
+  data: StateData[],
+  params: URLSearchParams
+): string[] | undefined {
+  const metrics = getMetrics(data);
+  const fields = params.get("fields")?.split(",").filter(Boolean);
+  fields?.forEach((field) => assertMetric(metrics, field));
+  return fields;
+}
+
+// Apply the /api/states query parameters:
+//   region=South             Census region
+//   min:<metric>=80          keep states with metric >= 80 (max: for <=)
+//   sort=<metric>&order=asc  sort by a metric, descending by default
+//   fields=<m1>,<m2>         only return these metrics
+//   limit=10
+export function queryStates(
+  data: StateData[],
+  params: URLSearchParams
+): ApiState[] {
+  const metrics = getMetrics(data);
+  let result = [...data];
+
+  const region = params.get("region");
+  if (region) {
+    const members = regions[region];
+    if (!members) throw new ApiQueryError(`Unknown region "${region}"`);
+    result = result.filter((d) => members.includes(d.state_id));
+  }
+
+  params.forEach((raw, name) => {
+    const match = name.match(/^(min|max):(.+)$/);
+    if (!match) return;
+    const [, bound, metric] = match;
+    assertMetric(metrics, metric);
+    const threshold = parseNumberParam(name, raw);
+    result = result.filter((d) =>
+      bound === "min"
+        ? d.values[metric] >= threshold
+        : d.values[metric] <= threshold
+    );
+  });
+
+  const sort = params.get("sort");
+  if (sort) {
+    assertMetric(metrics, sort);
+    const order =
+      parseChoiceParam(params, "order", ["desc", "asc"] as const) === "asc"
+        ? d3.ascending
+        : d3.descending;
+    result.sort((a, b) => {
+      // Missing values always sort last
+      if (isNaN(a.values[sort])) return 1;
+      if (isNaN(b.values[sort])) return -1;
+      return order(a.values[sort], b.values[sort]);
+    });
+  }
+
+  const limit = parseLimitParam(params);
+  if (limit !== undefined) result = result.slice(0, limit);
+
+  const fields = parseFieldsParam(data, params);
+  return result.map((d) => toApiState(d, fields));
+}
+
+export interface MetricSummary extends MetricDefinition {
+  count: number;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  median: number | null;
+  weightedMean: number | null; // Household/population-weighted, if available
+}
+
+export function summarizeMetrics(data: StateData[]): MetricSummary[] {
+  return getMetrics(data).map((metric) => {
+    const values = data.map((d) => d.values[metric]).filter((v) => !isNaN(v));
+    const weighted = aggregateMetric(data, metric, "weighted");
+    return {
+      ...getMetricDefinition(metric),
+      count: values.length,
+      min: d3.min(values) ?? null,
+      max: d3.max(values) ?? null,
+      mean: d3.mean(values) ?? null,
+      median: d3.median(values) ?? null,
+      weightedMean: weighted.weighted ? weighted.value : null,
+    };
+  });
+}
+
+export interface RankingEntry {
+  rank: number;
+  id: string;
+  name: string;
+  value: number;
+}
+
+// Best-performing state first, using the metric's direction. Tied values
+// share a rank.
+export function rankStates(
+  data: StateData[],
+  metric: string,
+  order: "best" | "worst" = "best"
+): RankingEntry[] {
+  assertMetric(getMetrics(data), metric);
+  const higherIsBetter =
+    getMetricDefinition(metric).direction === "higher-is-better";
+  const bestFirst = higherIsBetter ? d3.descending : d3.ascending;
+
+  const sorted = data
+    .filter((d) => !isNaN(d.values[metric]))
+    .sort((a, b) => bestFirst(a.values[metric], b.values[metric]));
+
+  const ranked = sorted.map((d, i) => ({
+    rank: i + 1,
+    id: d.state_id,
+    name: d.State,
+    value: d.values[metric],
+  }));
+  ranked.forEach((entry, i) => {
+    if (i > 0 && entry.value === ranked[i - 1].value) {
+      entry.rank = ranked[i - 1].rank;
+    }
+  });
+
+  return order === "worst" ? ranked.reverse() : ranked;
+}
+
+// Apply the /api/inequality query parameters:
+//   weighting=unweighted     one weight per state instead of households
+//   fields=<m1>,<m2>         only measure these metrics
+export function queryInequality(
+  data: StateData[],
+  params: URLSearchParams
+): InequalityMeasures[] {
+  const metrics = getMetrics(data);
+
+  const weighting = parseChoiceParam(params, "weighting", [
+    "weighted",
+    "unweighted",
+  ] as const);
+
+  const fields = parseFieldsParam(data, params);
+  return (fields ?? metrics).flatMap(
+    (metric) => measureInequality(data, metric, weighting) ?? []
+  );
+}
+
+// Client-side loader that builds the dashboard's vintages from /api/states
+export async function fetchApiVintages(
+  baseUrl = "/api",
+  version?: string
+): Promise<Vintage[]> {
+  try {
+    const fetchYear = async (year?: number) => {
+      const query = new URLSearchParams();
+      if (year !== undefined) query.set("year", String(year));
+      if (version) query.set("version", version);
+      const response = await fetch(`${baseUrl}/states?${query}`);
+      if (!response.ok) {
+        throw new Error(`API responded with ${response.status}`);
+      }
+      return (await response.json()) as ApiStatesResponse;
+    };
+
+    const latest = await fetchYear();
+    const others = await Promise.all(
+      latest.years.filter((y) => y !== latest.year).map(fetchYear)
+    );
+
+    return [latest, ...others]
+      .map((r) => ({
+        year: r.year,
+        data: r.data.map(fromApiState),
+        source: {
+          ...r.source,
+          year: r.year,
+          url: `${baseUrl}/states?year=${r.year}`,
+        },
+      }))
+      .sort((a, b) => a.year - b.year);
+  } catch (error) {
+    console.error("Error fetching API data:", error);
+    return [];
+  }
+}
@@ -0,0 +1,151 @@
+import * as d3 from "d3";
+import { AggregationMode, Benchmark, BenchmarkKind, StateData } from "@/types";
+import { formatMetricValue, getMetricDefinition } from "@/lib/metrics";
+import { aggregateMetric } from "@/lib/aggregation";
+
+const storageKey = "digital-divide:benchmarks";
+
+export const benchmarkKindLabels: Record<BenchmarkKind, string> = {
+  goal: "Goal",
+  national: "National",
+  median: "Median state",
+  best: "Best state",
+};
+
+// Used for any metric without a saved benchmark
+export const defaultBenchmark: Benchmark = { kind: "median", goal: null };
+
+export function loadBenchmarks(): Record<string, Benchmark> {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(storageKey) ?? "{}");
+    return saved && typeof saved === "object" && !Array.isArray(saved)
+      ? saved
+      : {};
+  } catch (error) {
+    console.error("Error loading benchmarks:", error);
+    return {};
+  }
+}
+
+export function saveBenchmarks(benchmarks: Record<string, Benchmark>) {
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(benchmarks));
+  } catch (error) {
+    console.error("Error saving benchmarks:", error);
+  }
+}
+
+export interface BenchmarkGap {
+  state: StateData;
+  value: number;
+  difference: number; // Value minus target, in the metric's units
+  gap: number; // Distance short of the target; negative when ahead of it
+  met: boolean;
+  progress: number; // Share of the target reached, from 0 to 1
+}
+
+export interface BenchmarkAnalysis {
+  metric: string;
+  benchmark: Benchmark;
+  target: number;
+  label: string; // e.g. "Goal (95.00%)"
+  gaps: BenchmarkGap[]; // Furthest from the target first
+  byState: Record<string, BenchmarkGap>; // Keyed by state_id
+  metCount: number;
+}
+
+export function resolveTarget(
+  data: StateData[],
+  metric: string,
+  benchmark: Benchmark,
+  mode: AggregationMode
+): number {
+  const values = data.map((d) => d.values[metric]).filter((v) => isFinite(v));
+  if (!values.length) return NaN;
+
+  switch (benchmark.kind) {
+    case "goal":
+      return benchmark.goal ?? NaN;
+    case "national":
+      return aggregateMetric(data, metric, mode).value;
+    case "median":
+      return d3.median(values)!;
+    case "best":
+      return getMetricDefinition(metric).direction === "higher-is-worse"
+        ? d3.min(values)!
+        : d3.max(values)!;
+  }
+}
+
+// Gaps are oriented by the metric's direction, so a positive gap always
+// means the state is behind
+export function analyzeBenchmark(
+  data: StateData[],
+  metric: string,
+  benchmark: Benchmark,
+  mode: AggregationMode
+): BenchmarkAnalysis | null {
+  const target = resolveTarget(data, metric, benchmark, mode);
+  if (!isFinite(target)) return null;
+
+  const lowerIsBetter =
+    getMetricDefinition(metric).direction === "higher-is-worse";
+  const gaps = data
+    .filter((d) => isFinite(d.values[metric]))
+    .map((state) => {
+      const value = state.values[metric];
+      const difference = value - target;
+      const gap = lowerIsBetter ? difference : -difference;
+      const [reached, needed] = lowerIsBetter
+        ? [target, value]
+        : [value, target];
+      return {
+        state,
+        value,
+        difference,
+        gap,
+        met: gap <= 0,
+        progress:
+          gap <= 0
+            ? 1
+            : needed > 0
+            ? Math.max(0, Math.min(1, reached / needed))
+            : 0,
+      };
+    })
+    .sort((a, b) => b.gap - a.gap);
+
+  return {
+    metric,
+    benchmark,
+    target,
+    label: `${benchmarkKindLabels[benchmark.kind]} (${formatMetricValue(
+      target,
+      metric
+    )})`,
+    gaps,
+    byState: Object.fromEntries(gaps.map((g) => [g.state.state_id, g])),
+    metCount: gaps.filter((g) => g.met).length,
+  };
+}
+
+export function analyzeBenchmarks(
+  data: StateData[],
+  metrics: string[],
+  benchmarks: Record<string, Benchmark>,
+  mode: AggregationMode
+): Record<string, BenchmarkAnalysis> {
+  return Object.fromEntries(
+    metrics.flatMap((metric) => {
+      const analysis = analyzeBenchmark(
+        data,
+        metric,
+        benchmarks[metric] ?? defaultBenchmark,
+        mode
+      );
+      return analysis ? [[metric, analysis]] : [];
+    })
+  );
+}
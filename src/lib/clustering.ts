@@ -0,0 +1,174 @@
+import { seededRandom } from "./statistics";
+
+// A node of an agglomerative clustering tree. Leaves hold the index of the
+// item they represent; merges record the distance they were joined at.
+export interface ClusterNode {
+  index?: number;
+  children?: [ClusterNode, ClusterNode];
+  distance: number;
+  size: number;
+}
+
+// Average-linkage agglomerative clustering over a symmetric distance matrix.
+// NaN distances (e.g. pairs without enough data) are treated as the largest
+// possible distance so those items are merged last.
+export function agglomerate(distances: number[][]): ClusterNode | null {
+  const n = distances.length;
+  if (!n) return null;
+
+  const maxDistance = Math.max(
+    0,
+    ...distances.flat().filter((d) => isFinite(d))
+  );
+  const distance = (i: number, j: number) =>
+    isFinite(distances[i][j]) ? distances[i][j] : maxDistance;
+
+  let clusters = Array.from({ length: n }, (_, i) => ({
+    node: { index: i, distance: 0, size: 1 } as ClusterNode,
+    members: [i],
+  }));
+
+  const linkage = (a: number[], b: number[]) => {
+    let total = 0;
+    a.forEach((i) => b.forEach((j) => (total += distance(i, j))));
+    return total / (a.length * b.length);
+  };
+
+  while (clusters.length > 1) {
+    let best = { i: 0, j: 1, distance: Infinity };
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        const d = linkage(clusters[i].members, clusters[j].members);
+        if (d < best.distance) best = { i, j, distance: d };
+      }
+    }
+
+    const a = clusters[best.i];
+    const b = clusters[best.j];
+    const merged = {
+      node: {
+        children: [a.node, b.node],
+        distance: best.distance,
+        size: a.node.size + b.node.size,
+      } as ClusterNode,
+      members: [...a.members, ...b.members],
+    };
+    clusters = [
+      ...clusters.filter((_, k) => k !== best.i && k !== best.j),
+      merged,
+    ];
+  }
+
+  return clusters[0].node;
+}
+
+// Item indices in the left-to-right order of the tree's leaves, which keeps
+// similar items next to each other
+export function leafOrder(node: ClusterNode | null): number[] {
+  if (!node) return [];
+  if (!node.children) return [node.index!];
+  return [...leafOrder(node.children[0]), ...leafOrder(node.children[1])];
+}
+
+// Split the tree into k groups by undoing its last k - 1 merges. Returns
+// the item indices of each group.
+export function cutTree(node: ClusterNode | null, k: number): number[][] {
+  if (!node) return [];
+  let groups = [node];
+  while (groups.length < k) {
+    const widest = groups.reduce((a, b) => (b.distance > a.distance ? b : a));
+    if (!widest.children) break;
+    groups = [...groups.filter((g) => g !== widest), ...widest.children];
+  }
+  return groups.map(leafOrder);
+}
+
+function squaredDistance(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + (v - b[i]) ** 2, 0);
+}
+
+export function euclideanDistances(points: number[][]): number[][] {
+  return points.map((a) => points.map((b) => Math.sqrt(squaredDistance(a, b))));
+}
+
+// k-means with k-means++ seeding, keeping the best of several restarts.
+// Returns the cluster index of each point.
+export function kMeans(points: number[][], k: number, restarts = 10): number[] {
+  const n = points.length;
+  if (!n) return [];
+  k = Math.min(k, n);
+  const random = seededRandom(n * 31 + k);
+
+  let best = { labels: [] as number[], inertia: Infinity };
+  for (let run = 0; run < restarts; run++) {
+    // Each new center is picked with probability proportional to its
+    // squared distance from the nearest existing center
+    const centers = [points[Math.floor(random() * n)]];
+    while (centers.length < k) {
+      const weights = points.map((p) =>
+        Math.min(...centers.map((c) => squaredDistance(p, c)))
+      );
+      let target = random() * weights.reduce((a, b) => a + b, 0);
+      const next = weights.findIndex((w) => (target -= w) <= 0);
+      centers.push(points[next >= 0 ? next : n - 1]);
+    }
+
+    let labels = new Array<number>(n).fill(-1);
+    for (let iteration = 0; iteration < 100; iteration++) {
+      const next = points.map((p) => {
+        let closest = 0;
+        centers.forEach((c, j) => {
+          if (squaredDistance(p, c) < squaredDistance(p, centers[closest])) {
+            closest = j;
+          }
+        });
+        return closest;
+      });
+      if (next.every((label, i) => label === labels[i])) break;
+      labels = next;
+
+      centers.forEach((center, j) => {
+        const members = points.filter((_, i) => labels[i] === j);
+        if (!members.length) return; // Keep an emptied center where it was
+        centers[j] = center.map(
+          (_, d) => members.reduce((sum, p) => sum + p[d], 0) / members.length
+        );
+      });
+    }
+
+    const inertia = points.reduce(
+      (sum, p, i) => sum + squaredDistance(p, centers[labels[i]]),
+      0
+    );
+    if (inertia < best.inertia) best = { labels, inertia };
+  }
+  return best.labels;
+}
+
+// Silhouette of each point: how much closer it is to its own cluster than
+// to the nearest other one, from -1 (misplaced) to 1 (well separated).
+// Points alone in their cluster score 0.
+export function silhouetteScores(
+  distances: number[][],
+  labels: number[]
+): number[] {
+  const clusters = Array.from(new Set(labels));
+  return labels.map((label, i) => {
+    const meanDistance = (cluster: number) => {
+      const members = labels
+        .map((l, j) => (l === cluster && j !== i ? j : -1))
+        .filter((j) => j >= 0);
+      return members.length
+        ? members.reduce((sum, j) => sum + distances[i][j], 0) / members.length
+        : NaN;
+    };
+
+    const own = meanDistance(label);
+    if (isNaN(own)) return 0;
+    const nearest = Math.min(
+      ...clusters.filter((c) => c !== label).map(meanDistance)
+    );
+    if (!isFinite(nearest)) return 0;
+    return (nearest - own) / Math.max(own, nearest) || 0;
+  });
+}
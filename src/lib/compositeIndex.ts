@@ -0,0 +1,213 @@
+import * as d3 from "d3";
+import {
+  CompositeIndex,
+  IndexNormalization,
+  MetricDefinition,
+  MetricDirection,
+  StateData,
+} from "@/types";
+import {
+  getMetricDefinition,
+  isMoeColumn,
+  metricRegistry,
+} from "@/lib/metrics";
+import { rank } from "@/lib/statistics";
+
+const storageKey = "digital-divide:composite-index";
+
+export const defaultIndexName = "Digital Divide Index";
+
+export const normalizationLabels: Record<IndexNormalization, string> = {
+  "min-max": "Min-max (0–100)",
+  "z-score": "Z-score",
+  percentile: "Percentile (0–100)",
+};
+
+// A state's index with the part each component contributed. Contributions
+// add up to the index value.
+export interface IndexScore {
+  state: StateData;
+  value: number;
+  rank: number | null; // 1 is the best access; null without a score
+  contributions: Record<string, number>;
+  scores: Record<string, number>; // Normalized component values
+}
+
+export function loadCompositeIndex(): CompositeIndex | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(storageKey) ?? "null");
+    return saved && Array.isArray(saved.components) ? saved : null;
+  } catch (error) {
+    console.error("Error loading composite index:", error);
+    return null;
+  }
+}
+
+export function saveCompositeIndex(index: CompositeIndex | null) {
+  try {
+    if (index) {
+      window.localStorage.setItem(storageKey, JSON.stringify(index));
+    } else {
+      window.localStorage.removeItem(storageKey);
+    }
+  } catch (error) {
+    console.error("Error saving composite index:", error);
+  }
+}
+
+// Every registry metric in the dataset, equally weighted, in its own
+// direction
+export function defaultCompositeIndex(columns: string[]): CompositeIndex {
+  return {
+    name: defaultIndexName,
+    normalization: "min-max",
+    components: metricRegistry
+      .filter((m) => columns.includes(m.key))
+      .map((m) => ({ metric: m.key, weight: 1, direction: m.direction })),
+  };
+}
+
+export function toIndexDefinition(index: CompositeIndex): MetricDefinition {
+  return {
+    key: index.name,
+    label:
+      index.name.length > 20 ? index.name.substring(0, 17) + "..." : index.name,
+    unit: "rate",
+    format: ".1f",
+    range: index.normalization === "z-score" ? [-Infinity, Infinity] : [0, 100],
+    direction: "higher-is-better",
+  };
+}
+
+// Returns an error message for an invalid index, or null if it can be added
+// alongside the given columns
+export function validateCompositeIndex(
+  index: CompositeIndex,
+  availableColumns: string[]
+): string | null {
+  const name = index.name.trim();
+  if (!name) return "Give the index a name";
+  if (isMoeColumn(name)) return 'Names can\'t end in " MOE"';
+  if (availableColumns.includes(name)) {
+    return `A metric named "${name}" already exists`;
+  }
+  const components = index.components.filter((c) => c.weight > 0);
+  if (!components.length) return "Give at least one component a weight";
+  const missing = components.find((c) => !availableColumns.includes(c.metric));
+  if (missing) return `"${missing.metric}" is not in this dataset`;
+  return null;
+}
+
+// Normalized scores for one component, oriented so higher is always better.
+// Missing values stay NaN.
+function normalize(
+  values: number[],
+  normalization: IndexNormalization,
+  higherIsWorse: boolean
+): number[] {
+  const present = values.filter((v) => isFinite(v));
+  const sign = higherIsWorse ? -1 : 1;
+
+  if (normalization === "z-score") {
+    const mean = d3.mean(present) ?? 0;
+    const deviation = d3.deviation(present) || 1;
+    return values.map((v) => (sign * (v - mean)) / deviation);
+  }
+
+  if (normalization === "percentile") {
+    const ranks = rank(present);
+    const byValue = new Map(present.map((v, i) => [v, ranks[i]]));
+    return values.map((v) => {
+      if (!isFinite(v)) return NaN;
+      const percentile =
+        present.length > 1
+          ? ((byValue.get(v)! - 1) / (present.length - 1)) * 100
+          : 50;
+      return higherIsWorse ? 100 - percentile : percentile;
+    });
+  }
+
+  const [min = 0, max = 0] = d3.extent(present);
+  return values.map((v) => {
+    if (!isFinite(v)) return NaN;
+    const scaled = max > min ? ((v - min) / (max - min)) * 100 : 50;
+    return higherIsWorse ? 100 - scaled : scaled;
+  });
+}
+
+// Score and rank every state. A state missing any component has no score.
+// Components that aren't in the dataset are skipped.
+export function computeCompositeIndex(
+  data: StateData[],
+  index: CompositeIndex
+): IndexScore[] {
+  const columns = data.length ? Object.keys(data[0].values) : [];
+  const components = index.components.filter(
+    (c) => c.weight > 0 && columns.includes(c.metric)
+  );
+  const totalWeight = d3.sum(components, (c) => c.weight);
+
+  const normalized = components.map((c) =>
+    normalize(
+      data.map((d) => d.values[c.metric]),
+      index.normalization,
+      c.direction === "higher-is-worse"
+    )
+  );
+
+  const scored = data.map((state, i) => {
+    const scores: Record<string, number> = {};
+    const contributions: Record<string, number> = {};
+    components.forEach((c, k) => {
+      scores[c.metric] = normalized[k][i];
+      contributions[c.metric] = (normalized[k][i] * c.weight) / totalWeight;
+    });
+    const value = components.length
+      ? d3.sum(Object.values(contributions))
+      : NaN;
+    return {
+      state,
+      value: Object.values(scores).some(isNaN) ? NaN : value,
+      rank: null as number | null,
+      contributions,
+      scores,
+    };
+  });
+
+  // Best first, unscored states last; ties share a rank
+  const ranked = scored
+    .filter((s) => !isNaN(s.value))
+    .sort((a, b) => b.value - a.value);
+  ranked.forEach((s, i) => {
+    s.rank =
+      i > 0 && s.value === ranked[i - 1].value ? ranked[i - 1].rank : i + 1;
+  });
+  return [...ranked, ...scored.filter((s) => isNaN(s.value))];
+}
+
+// Add the index to every state's values so it can be mapped like any metric
+export function applyCompositeIndex(
+  data: StateData[],
+  index: CompositeIndex | null
+): StateData[] {
+  if (!data.length || !index) return data;
+
+  const values = new Map(
+    computeCompositeIndex(data, index).map((s) => [s.state, s.value])
+  );
+  return data.map((state) => ({
+    ...state,
+    values: { ...state.values, [index.name]: values.get(state) ?? NaN },
+  }));
+}
+
+// Label for a component, e.g. "% No Computer (inverted)"
+export function componentLabel(
+  metric: string,
+  direction: MetricDirection
+): string {
+  const label = getMetricDefinition(metric).label;
+  return direction === "higher-is-worse" ? `${label} (inverted)` : label;
+}
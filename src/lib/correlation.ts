@@ -0,0 +1,106 @@
+import * as d3 from "d3";
+import { CorrelationMethod, StateData } from "@/types";
+import { agglomerate, leafOrder } from "./clustering";
+import {
+  completePairs,
+  correlationPValue,
+  pearson,
+  rank,
+  spearman,
+} from "./statistics";
+
+export interface CorrelationCell {
+  r: number;
+  n: number; // States with values for both metrics
+  p: number; // Two-sided, against no correlation
+}
+
+export interface CorrelationMatrix {
+  metrics: string[];
+  cells: CorrelationCell[][]; // Indexed like metrics
+}
+
+export const correlationMethodLabels: Record<CorrelationMethod, string> = {
+  pearson: "Pearson",
+  spearman: "Spearman",
+};
+
+function columnValues(data: StateData[], metric: string): number[] {
+  return data.map((d) => d.values[metric] ?? NaN);
+}
+
+export function correlate(
+  xs: number[],
+  ys: number[],
+  method: CorrelationMethod
+): CorrelationCell {
+  const pairs = completePairs(xs, ys);
+  const n = pairs.xs.length;
+  const r =
+    n < 3
+      ? NaN
+      : method === "spearman"
+      ? spearman(pairs.xs, pairs.ys)
+      : pearson(pairs.xs, pairs.ys);
+  return { r, n, p: correlationPValue(r, n) };
+}
+
+export function computeCorrelationMatrix(
+  data: StateData[],
+  metrics: string[],
+  method: CorrelationMethod
+): CorrelationMatrix {
+  const columns = metrics.map((metric) => columnValues(data, metric));
+  const cells = columns.map((xs) =>
+    columns.map((ys) => correlate(xs, ys, method))
+  );
+  return { metrics, cells };
+}
+
+// Reorder the matrix so strongly related metrics sit together, clustering on
+// 1 - |r| so that strong negative correlations count as related too
+export function orderCorrelationMatrix(
+  matrix: CorrelationMatrix
+): CorrelationMatrix {
+  const distances = matrix.cells.map((row) =>
+    row.map((cell) => 1 - Math.abs(cell.r))
+  );
+  const order = leafOrder(agglomerate(distances));
+  return {
+    metrics: order.map((i) => matrix.metrics[i]),
+    cells: order.map((i) => order.map((j) => matrix.cells[i][j])),
+  };
+}
+
+// The states that contribute most to a correlation: those with the largest
+// product of standardized values (or ranks, for Spearman) in the direction
+// of the relationship
+export function getCorrelationDrivers(
+  data: StateData[],
+  metricA: string,
+  metricB: string,
+  method: CorrelationMethod,
+  count = 5
+): StateData[] {
+  const states = data.filter(
+    (d) => isFinite(d.values[metricA]) && isFinite(d.values[metricB])
+  );
+  if (states.length < 3) return [];
+
+  const standardize = (values: number[]) => {
+    const scored = method === "spearman" ? rank(values) : values;
+    const mean = d3.mean(scored) ?? 0;
+    const deviation = d3.deviation(scored) || 1;
+    return scored.map((v) => (v - mean) / deviation);
+  };
+  const za = standardize(states.map((d) => d.values[metricA]));
+  const zb = standardize(states.map((d) => d.values[metricB]));
+  const sign = Math.sign(d3.sum(za, (z, i) => z * zb[i])) || 1;
+
+  return states
+    .map((state, i) => ({ state, contribution: sign * za[i] * zb[i] }))
+    .filter((d) => d.contribution > 0)
+    .sort((a, b) => b.contribution - a.contribution)
+    .slice(0, count)
+    .map((d) => d.state);
+}
@@ -0,0 +1,284 @@
+import * as d3 from "d3";
+import { StateData, VintageSource } from "@/types";
+import {
+  countColumns,
+  getMetricDefinition,
+  idColumns,
+  isMoeColumn,
+} from "@/lib/metrics";
+import { fipsToStateMap, stateToFipsMap } from "@/lib/utils";
+import { verifyChecksum, yearColumn } from "@/lib/vintages";
+
+export type QualityIssueType =
+  | "load-error"
+  | "checksum"
+  | "missing"
+  | "non-numeric"
+  | "out-of-range"
+  | "duplicate-id"
+  | "unknown-id"
+  | "missing-state"
+  | "outlier";
+
+export interface QualityIssue {
+  type: QualityIssueType;
+  severity: "error" | "warning";
+  source: string;
+  row: number | null; // Line in the file, counting the header as line 1
+  column: string | null;
+  stateId: string | null;
+  value: string | null;
+  message: string;
+}
+
+export const qualityIssueLabels: Record<QualityIssueType, string> = {
+  "load-error": "File could not be loaded",
+  checksum: "Checksum mismatch",
+  missing: "Missing value",
+  "non-numeric": "Non-numeric value",
+  "out-of-range": "Out of range",
+  "duplicate-id": "Duplicate state",
+  "unknown-id": "Unknown state ID",
+  "missing-state": "State missing from file",
+  outlier: "Statistical outlier",
+};
+
+// Modified z-score above which a value is flagged (Iglewicz & Hoaglin)
+const outlierThreshold = 3.5;
+
+// Check one raw CSV file. Works on the unparsed cells so that blanks and
+// typos can be told apart from real zeros.
+export function checkDataQuality(
+  source: string,
+  rows: d3.DSVRowArray<string>,
+  topoData: any
+): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  const metricColumns = rows.columns.filter(
+    (c) => !idColumns.includes(c) && !isMoeColumn(c)
+  );
+  const issue = (
+    fields: Omit<QualityIssue, "source" | "severity">,
+    severity: QualityIssue["severity"] = "error"
+  ) => issues.push({ source, severity, ...fields });
+
+  // Identifiers: unknown, inconsistent and duplicated
+  const seen = new Map<string, number>();
+  rows.forEach((row, i) => {
+    const line = i + 2;
+    const stateId = row.state_id?.trim() ?? "";
+    if (!stateToFipsMap[stateId]) {
+      issue({
+        type: "unknown-id",
+        row: line,
+        column: "state_id",
+        stateId: stateId || null,
+        value: row.state_id ?? null,
+        message: `"${stateId}" is not a known state postal code`,
+      });
+      return;
+    }
+
+    const geoFips = row.Geo_ID?.match(/US(\d{2})$/)?.[1];
+    if (row.Geo_ID !== undefined && geoFips !== stateToFipsMap[stateId]) {
+      issue({
+        type: "unknown-id",
+        row: line,
+        column: "Geo_ID",
+        stateId,
+        value: row.Geo_ID,
+        message: `Geo_ID does not match state_id ${stateId} (FIPS ${stateToFipsMap[stateId]})`,
+      });
+    }
+
+    // Long-format files may repeat a state once per year
+    const key = `${stateId}|${row[yearColumn] ?? ""}`;
+    if (seen.has(key)) {
+      issue({
+        type: "duplicate-id",
+        row: line,
+        column: "state_id",
+        stateId,
+        value: stateId,
+        message: `${stateId} already appears on line ${seen.get(key)}`,
+      });
+    } else {
+      seen.set(key, line);
+    }
+  });
+
+  // Map shapes with no row in the file
+  const fileStates = new Set(rows.map((r) => r.state_id?.trim()));
+  (topoData?.objects?.states?.geometries ?? []).forEach((geo: any) => {
+    const stateId = fipsToStateMap[geo.id];
+    if (stateId && !fileStates.has(stateId)) {
+      issue(
+        {
+          type: "missing-state",
+          row: null,
+          column: null,
+          stateId,
+          value: null,
+          message: `${geo.properties.name} is on the map but not in the file`,
+        },
+        "warning"
+      );
+    }
+  });
+
+  // Cell values
+  metricColumns.forEach((column) => {
+    // Household and population totals only need to be non-negative
+    const isCount = countColumns.includes(column);
+    const [min, max] = isCount
+      ? [0, Infinity]
+      : getMetricDefinition(column).range;
+    const parsed: { line: number; stateId: string; value: number }[] = [];
+
+    rows.forEach((row, i) => {
+      const line = i + 2;
+      const raw = row[column]?.trim() ?? "";
+      const stateId = row.state_id?.trim() || null;
+      const base = { row: line, column, stateId, value: row[column] ?? null };
+
+      if (!raw) {
+        issue({ ...base, type: "missing", message: "Cell is empty" });
+        return;
+      }
+      const value = Number(raw);
+      if (isNaN(value)) {
+        issue({
+          ...base,
+          type: "non-numeric",
+          message: `"${raw}" is not a number`,
+        });
+        return;
+      }
+      if (value < min || value > max) {
+        issue({
+          ...base,
+          type: "out-of-range",
+          message: `${value} is outside the valid range ${min} to ${max}`,
+        });
+      }
+      parsed.push({ line, stateId: stateId ?? "", value });
+    });
+
+    // Outliers by modified z-score, robust to the outliers themselves
+    const values = parsed.map((p) => p.value);
+    const median = d3.median(values) ?? 0;
+    const mad = d3.median(values, (v) => Math.abs(v - median)) ?? 0;
+    if (mad === 0 || isCount) return;
+
+    parsed.forEach((p) => {
+      const score = (0.6745 * (p.value - median)) / mad;
+      if (Math.abs(score) > outlierThreshold) {
+        issue(
+          {
+            type: "outlier",
+            row: p.line,
+            column,
+            stateId: p.stateId || null,
+            value: String(p.value),
+            message: `Modified z-score ${score.toFixed(1)} (median ${median})`,
+          },
+          "warning"
+        );
+      }
+    });
+  });
+
+  return issues;
+}
+
+// Check data that is already loaded, such as an upload or the API's
+// response. Parsing has turned blanks and typos alike into NaN, so both are
+// reported as missing values, and rows are numbered in load order.
+export function checkStateData(
+  source: string,
+  data: StateData[],
+  topoData: any
+): QualityIssue[] {
+  const keys = (field: "values" | "counts") =>
+    Array.from(new Set(data.flatMap((d) => Object.keys(d[field]))));
+  const metricKeys = keys("values");
+  const countKeys = keys("counts");
+  const cell = (value: number | undefined) =>
+    value === undefined || isNaN(value) ? "" : String(value);
+
+  const rows = Object.assign(
+    data.map((d) => ({
+      // Uploads joined by name or postal code may have no Geo_ID to check
+      ...(d.Geo_ID ? { Geo_ID: d.Geo_ID } : {}),
+      State: d.State,
+      state_id: d.state_id,
+      ...Object.fromEntries(metricKeys.map((k) => [k, cell(d.values[k])])),
+      ...Object.fromEntries(countKeys.map((k) => [k, cell(d.counts[k])])),
+    })),
+    { columns: ["Geo_ID", "State", "state_id", ...metricKeys, ...countKeys] }
+  ) as d3.DSVRowArray<string>;
+
+  return checkDataQuality(source, rows, topoData);
+}
+
+// Load every file in the vintage manifest and check it
+export async function runDataQualityChecks(
+  manifestUrl: string,
+  topoData: any
+): Promise<QualityIssue[]> {
+  let sources: VintageSource[];
+  try {
+    const response = await fetch(manifestUrl);
+    sources = ((await response.json()) as { vintages: VintageSource[] })
+      .vintages;
+  } catch (error) {
+    return [loadError(manifestUrl, error)];
+  }
+
+  const results = await Promise.all(
+    sources.map(async (source) => {
+      try {
+        const response = await fetch(source.url);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const text = await response.text();
+        const issues = checkDataQuality(
+          source.url,
+          d3.csvParse(text),
+          topoData
+        );
+        if ((await verifyChecksum(text, source)) === "mismatch") {
+          issues.unshift({
+            type: "checksum",
+            severity: "error",
+            source: source.url,
+            row: null,
+            column: null,
+            stateId: null,
+            value: null,
+            message:
+              "The file has changed since its checksum was recorded in vintages.json",
+          });
+        }
+        return issues;
+      } catch (error) {
+        return [loadError(source.url, error)];
+      }
+    })
+  );
+  return results.flat();
+}
+
+function loadError(source: string, error: unknown): QualityIssue {
+  return {
+    type: "load-error",
+    severity: "error",
+    source,
+    row: null,
+    column: null,
+    stateId: null,
+    value: null,
+    message: (error as Error).message ?? String(error),
+  };
+}
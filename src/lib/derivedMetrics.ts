@@ -0,0 +1,110 @@
+import {
+  DerivedMetric,
+  MetricDefinition,
+  MetricUnit,
+  StateData,
+} from "@/types";
+import { compileFormula, validateFormula } from "@/lib/formula";
+import { isMoeColumn } from "@/lib/metrics";
+
+const storageKey = "digital-divide:derived-metrics";
+
+const unitFormats: Record<MetricUnit, string> = {
+  percent: ".2f",
+  dollars: "$,.0f",
+  rate: ",.2~f",
+};
+
+export const unitLabels: Record<MetricUnit, string> = {
+  percent: "Percent (%)",
+  dollars: "Dollars ($)",
+  rate: "Rate / ratio",
+};
+
+export function loadDerivedMetrics(): DerivedMetric[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(storageKey) ?? "[]");
+    // Skip stale or corrupted entries rather than failing on them later
+    return Array.isArray(saved)
+      ? saved.filter(
+          (metric) =>
+            typeof metric?.name === "string" &&
+            typeof metric.expression === "string" &&
+            metric.unit in unitFormats
+        )
+      : [];
+  } catch (error) {
+    console.error("Error loading derived metrics:", error);
+    return [];
+  }
+}
+
+export function saveDerivedMetrics(metrics: DerivedMetric[]) {
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(metrics));
+  } catch (error) {
+    console.error("Error saving derived metrics:", error);
+  }
+}
+
+export function toMetricDefinition(metric: DerivedMetric): MetricDefinition {
+  return {
+    key: metric.name,
+    label:
+      metric.name.length > 20
+        ? metric.name.substring(0, 17) + "..."
+        : metric.name,
+    unit: metric.unit,
+    format: unitFormats[metric.unit],
+    range: metric.unit === "percent" ? [0, 100] : [-Infinity, Infinity],
+    direction: metric.direction,
+  };
+}
+
+// Returns an error message for an invalid definition, or null if it can be
+// added alongside the given columns
+export function validateDerivedMetric(
+  metric: DerivedMetric,
+  availableColumns: string[]
+): string | null {
+  const name = metric.name.trim();
+  if (!name) return "Give the metric a name";
+  if (/[[\]]/.test(name)) return "Names can't contain square brackets";
+  if (isMoeColumn(name)) return 'Names can\'t end in " MOE"';
+  if (availableColumns.includes(name)) {
+    return `A metric named "${name}" already exists`;
+  }
+  return validateFormula(metric.expression, availableColumns);
+}
+
+// Add each derived metric to every state's values. Metrics are applied in
+// order, so a formula may use metrics defined before it. Definitions that
+// don't fit this dataset (e.g. an uploaded file without their columns) are
+// skipped.
+export function applyDerivedMetrics(
+  data: StateData[],
+  metrics: DerivedMetric[]
+): StateData[] {
+  if (!data.length || !metrics.length) return data;
+
+  const columns = Object.keys(data[0].values);
+  const formulas = metrics.flatMap((metric) => {
+    try {
+      const formula = compileFormula(metric.expression, columns);
+      columns.push(metric.name);
+      return [{ name: metric.name, formula }];
+    } catch {
+      return [];
+    }
+  });
+
+  return data.map((state) => {
+    const values = { ...state.values };
+    formulas.forEach(({ name, formula }) => {
+      values[name] = formula.evaluate(values);
+    });
+    return { ...state, values };
+  });
+}
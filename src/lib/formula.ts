@@ -0,0 +1,398 @@
+// A small expression language for derived metrics. Formulas are parsed into
+// a tree and evaluated by walking it, so nothing is ever passed to eval().
+//
+//   100 - [% Households with Broadband]
+//   [% Smartphone-Only Households] / [% Households Using Internet at Home] * 100
+//   if([Median Household Income] < 60000, 1, 0)
+//
+// Columns are referenced in square brackets. Supported: numbers, + - * / ^,
+// unary minus, comparisons (< <= > >= == !=), && || and the functions below.
+
+export class FormulaError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position === undefined ? message : `${message} (at ${position + 1})`);
+    this.name = "FormulaError";
+  }
+}
+
+type FormulaNode =
+  | { kind: "number"; value: number }
+  | { kind: "column"; name: string }
+  | { kind: "unary"; op: "-" | "!"; operand: FormulaNode }
+  | { kind: "binary"; op: string; left: FormulaNode; right: FormulaNode }
+  | { kind: "call"; name: string; args: FormulaNode[] };
+
+type Token =
+  | { type: "number"; value: number; position: number }
+  | { type: "column"; value: string; position: number }
+  | { type: "name"; value: string; position: number }
+  | { type: "op"; value: string; position: number };
+
+// Functions the language exposes, with their allowed argument counts
+const functions: Record<
+  string,
+  { minArgs: number; maxArgs: number; apply: (...args: number[]) => number }
+> = {
+  min: { minArgs: 1, maxArgs: Infinity, apply: Math.min },
+  max: { minArgs: 1, maxArgs: Infinity, apply: Math.max },
+  abs: { minArgs: 1, maxArgs: 1, apply: Math.abs },
+  sqrt: { minArgs: 1, maxArgs: 1, apply: Math.sqrt },
+  log: { minArgs: 1, maxArgs: 1, apply: Math.log },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: (value, digits = 0) => {
+      const factor = 10 ** digits;
+      return Math.round(value * factor) / factor;
+    },
+  },
+  if: {
+    minArgs: 3,
+    maxArgs: 3,
+    apply: (condition, whenTrue, whenFalse) =>
+      condition ? whenTrue : whenFalse,
+  },
+};
+
+export const formulaFunctions = Object.keys(functions);
+
+const operators = [
+  "<=",
+  ">=",
+  "==",
+  "!=",
+  "&&",
+  "||",
+  "+",
+  "-",
+  "*",
+  "/",
+  "^",
+  "<",
+  ">",
+  "!",
+  "(",
+  ")",
+  ",",
+];
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(expression.slice(i));
+      if (!match) throw new FormulaError("Invalid number", i);
+      tokens.push({ type: "number", value: parseFloat(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === "[") {
+      const end = expression.indexOf("]", i);
+      if (end < 0) throw new FormulaError("Unclosed column reference", i);
+      const name = expression.slice(i + 1, end).trim();
+      if (!name) throw new FormulaError("Empty column reference", i);
+      tokens.push({ type: "column", value: name, position: i });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[a-z_]/i.test(char)) {
+      const name = /^[a-z_]\w*/i.exec(expression.slice(i))![0];
+      tokens.push({ type: "name", value: name.toLowerCase(), position: i });
+      i += name.length;
+      continue;
+    }
+
+    const op = operators.find((o) => expression.startsWith(o, i));
+    if (!op) throw new FormulaError(`Unexpected character "${char}"`, i);
+    tokens.push({ type: "op", value: op, position: i });
+    i += op.length;
+  }
+
+  return tokens;
+}
+
+// Binary operators from loosest to tightest binding
+const precedence: string[][] = [
+  ["||"],
+  ["&&"],
+  ["==", "!="],
+  ["<", "<=", ">", ">="],
+  ["+", "-"],
+  ["*", "/"],
+];
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private expressionLength: number) {}
+
+  parse(): FormulaNode {
+    if (!this.tokens.length) throw new FormulaError("Formula is empty");
+    const node = this.parseBinary(0);
+    const extra = this.peek();
+    if (extra) {
+      throw new FormulaError(`Unexpected "${extra.value}"`, extra.position);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token?.type === "op" && token.value === value;
+  }
+
+  private expectOp(value: string) {
+    if (!this.isOp(value)) {
+      const token = this.peek();
+      throw new FormulaError(
+        `Expected "${value}"`,
+        token?.position ?? this.expressionLength
+      );
+    }
+    this.index++;
+  }
+
+  private parseBinary(level: number): FormulaNode {
+    if (level === precedence.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    while (precedence[level].some((op) => this.isOp(op))) {
+      const op = this.tokens[this.index++].value as string;
+      const right = this.parseBinary(level + 1);
+      left = { kind: "binary", op, left, right };
+    }
+    return left;
+  }
+
+  private parseUnary(): FormulaNode {
+    if (this.isOp("-") || this.isOp("!")) {
+      const op = this.tokens[this.index++].value as "-" | "!";
+      return { kind: "unary", op, operand: this.parseUnary() };
+    }
+    if (this.isOp("+")) {
+      this.index++;
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  // Exponentiation is right-associative and binds tighter than unary minus,
+  // so -2^2 is -4 and 2^-1 is 0.5
+  private parsePower(): FormulaNode {
+    const base = this.parsePrimary();
+    if (this.isOp("^")) {
+      this.index++;
+      return { kind: "binary", op: "^", left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.peek();
+    if (!token) {
+      throw new FormulaError(
+        "Unexpected end of formula",
+        this.expressionLength
+      );
+    }
+    this.index++;
+
+    switch (token.type) {
+      case "number":
+        return { kind: "number", value: token.value };
+      case "column":
+        return { kind: "column", name: token.value };
+      case "name":
+        return this.parseCall(token.value, token.position);
+      case "op":
+        if (token.value === "(") {
+          const node = this.parseBinary(0);
+          this.expectOp(")");
+          return node;
+        }
+        throw new FormulaError(`Unexpected "${token.value}"`, token.position);
+    }
+  }
+
+  private parseCall(name: string, position: number): FormulaNode {
+    // Look up own keys only, so names like "constructor" aren't callable
+    const fn = functions.hasOwnProperty(name) ? functions[name] : undefined;
+    if (!fn) {
+      throw new FormulaError(
+        `Unknown function "${name}" (column names go in [brackets])`,
+        position
+      );
+    }
+
+    this.expectOp("(");
+    const args: FormulaNode[] = [];
+    if (!this.isOp(")")) {
+      args.push(this.parseBinary(0));
+      while (this.isOp(",")) {
+        this.index++;
+        args.push(this.parseBinary(0));
+      }
+    }
+    this.expectOp(")");
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      throw new FormulaError(
+        `${name}() takes ${
+          fn.minArgs === fn.maxArgs
+            ? fn.minArgs
+            : fn.maxArgs === Infinity
+            ? `at least ${fn.minArgs}`
+            : `${fn.minArgs} to ${fn.maxArgs}`
+        } argument(s)`,
+        position
+      );
+    }
+    return { kind: "call", name, args };
+  }
+}
+
+function collectColumns(node: FormulaNode, columns: Set<string>) {
+  switch (node.kind) {
+    case "column":
+      columns.add(node.name);
+      break;
+    case "unary":
+      collectColumns(node.operand, columns);
+      break;
+    case "binary":
+      collectColumns(node.left, columns);
+      collectColumns(node.right, columns);
+      break;
+    case "call":
+      node.args.forEach((arg) => collectColumns(arg, columns));
+      break;
+  }
+}
+
+function applyBinary(op: string, a: number, b: number): number {
+  switch (op) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      return b === 0 ? NaN : a / b;
+    case "^":
+      return a ** b;
+    case "<":
+      return Number(a < b);
+    case "<=":
+      return Number(a <= b);
+    case ">":
+      return Number(a > b);
+    case ">=":
+      return Number(a >= b);
+    case "==":
+      return Number(a === b);
+    case "!=":
+      return Number(a !== b);
+    case "&&":
+      return Number(!!a && !!b);
+    case "||":
+      return Number(!!a || !!b);
+    default:
+      throw new FormulaError(`Unknown operator "${op}"`);
+  }
+}
+
+function evaluateNode(
+  node: FormulaNode,
+  values: Record<string, number>
+): number {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "column":
+      return values[node.name] ?? NaN;
+    case "unary": {
+      const operand = evaluateNode(node.operand, values);
+      return node.op === "-" ? -operand : Number(!operand);
+    }
+    case "binary":
+      return applyBinary(
+        node.op,
+        evaluateNode(node.left, values),
+        evaluateNode(node.right, values)
+      );
+    case "call":
+      // Only evaluate the branch if() picks, so a missing value in the
+      // other branch doesn't leak through
+      if (node.name === "if") {
+        const condition = evaluateNode(node.args[0], values);
+        if (isNaN(condition)) return NaN;
+        return evaluateNode(node.args[condition ? 1 : 2], values);
+      }
+      return functions[node.name].apply(
+        ...node.args.map((arg) => evaluateNode(arg, values))
+      );
+  }
+}
+
+export interface CompiledFormula {
+  expression: string;
+  columns: string[];
+  evaluate: (values: Record<string, number>) => number;
+}
+
+// Parse a formula, checking that every referenced column exists.
+// Throws a FormulaError describing the first problem found.
+export function compileFormula(
+  expression: string,
+  availableColumns: string[]
+): CompiledFormula {
+  const tree = new Parser(tokenize(expression), expression.length).parse();
+
+  const columns = new Set<string>();
+  collectColumns(tree, columns);
+  const unknown = Array.from(columns).filter(
+    (c) => !availableColumns.includes(c)
+  );
+  if (unknown.length) {
+    throw new FormulaError(`Unknown column: ${unknown.join(", ")}`);
+  }
+
+  return {
+    expression,
+    columns: Array.from(columns),
+    // Missing inputs and non-finite results are reported as missing data
+    evaluate: (values) => {
+      const result = evaluateNode(tree, values);
+      return isFinite(result) ? result : NaN;
+    },
+  };
+}
+
+// Returns an error message for an invalid formula, or null if it is valid
+export function validateFormula(
+  expression: string,
+  availableColumns: string[]
+): string | null {
+  try {
+    compileFormula(expression, availableColumns);
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
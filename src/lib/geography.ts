@@ -0,0 +1,134 @@
+import * as d3 from "d3";
+import { StateData, TopoJSONFeature } from "@/types";
+import { fetchTopoJSONData } from "@/lib/utils";
+
+// Census regions. DC belongs to the South; Puerto Rico and the island areas
+// are outside the regional breakdown.
+export const regions: Record<string, string[]> = {
+  Northeast: ["CT", "ME", "MA", "NH", "RI", "VT", "NJ", "NY", "PA"],
+  Midwest: [
+    "IL",
+    "IN",
+    "MI",
+    "OH",
+    "WI",
+    "IA",
+    "KS",
+    "MN",
+    "MO",
+    "NE",
+    "ND",
+    "SD",
+  ],
+  South: [
+    "DE",
+    "DC",
+    "FL",
+    "GA",
+    "MD",
+    "NC",
+    "SC",
+    "VA",
+    "WV",
+    "AL",
+    "KY",
+    "MS",
+    "TN",
+    "AR",
+    "LA",
+    "OK",
+    "TX",
+  ],
+  West: [
+    "AZ",
+    "CO",
+    "ID",
+    "MT",
+    "NV",
+    "NM",
+    "UT",
+    "WY",
+    "AK",
+    "CA",
+    "HI",
+    "OR",
+    "WA",
+  ],
+};
+
+// Jurisdictions ACS publishes that are not one of the 50 states
+export const nonStateJurisdictions = ["DC", "PR", "VI", "GU", "MP", "AS"];
+
+// Names for jurisdictions that are not in the states topology
+export const extraJurisdictionNames: Record<string, string> = {
+  PR: "Puerto Rico",
+  VI: "U.S. Virgin Islands",
+  GU: "Guam",
+  MP: "Northern Mariana Islands",
+  AS: "American Samoa",
+};
+
+export function isStateJurisdiction(stateId: string): boolean {
+  return !nonStateJurisdictions.includes(stateId);
+}
+
+export function getRegionForState(stateId: string): string | null {
+  const region = Object.entries(regions).find(([, states]) =>
+    states.includes(stateId)
+  );
+  return region ? region[0] : null;
+}
+
+export function filterJurisdictions(
+  data: StateData[],
+  includeNonStates: boolean
+): StateData[] {
+  return includeNonStates
+    ? data
+    : data.filter((d) => isStateJurisdiction(d.state_id));
+}
+
+// Puerto Rico and the U.S. Virgin Islands are not in the Albers USA
+// topology, so they are drawn in an inset to the right of Florida using
+// unprojected GeoJSON keyed by FIPS code.
+export const caribbeanInsetUrl = "/data/caribbean-territories-10m.json";
+
+export const caribbeanInsetExtent: [[number, number], [number, number]] = [
+  [850, 525],
+  [955, 585],
+];
+
+export interface CaribbeanInset {
+  features: TopoJSONFeature[];
+}
+
+let caribbeanInsetPromise: Promise<CaribbeanInset | null> | null = null;
+
+export function fetchCaribbeanInset(): Promise<CaribbeanInset | null> {
+  if (!caribbeanInsetPromise) {
+    caribbeanInsetPromise = fetchTopoJSONData(caribbeanInsetUrl).then((geo) => {
+      if (!geo) caribbeanInsetPromise = null;
+      return geo;
+    });
+  }
+  return caribbeanInsetPromise;
+}
+
+// Path generator for the state maps: inset features get a projection fitted
+// to the inset, the rest are already projected in the Albers topology
+export function createStateMapPath(
+  inset: CaribbeanInset | null
+): (feature: TopoJSONFeature) => string | null {
+  const statesPath = d3.geoPath();
+  const insetIds = new Set(inset?.features.map((f) => f.id));
+  const insetPath = d3.geoPath(
+    d3.geoMercator().fitExtent(caribbeanInsetExtent, {
+      type: "FeatureCollection",
+      features: (inset?.features ?? []) as d3.ExtendedFeature[],
+    })
+  );
+  return (feature) =>
+    (insetIds.has(feature.id) ? insetPath : statesPath)(
+      feature as d3.ExtendedFeature
+    );
+}
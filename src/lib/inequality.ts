@@ -0,0 +1,206 @@
+import * as d3 from "d3";
+import { AggregationMode, StateData } from "@/types";
+import { getMetricDefinition } from "@/lib/metrics";
+import { getRegionForState } from "@/lib/geography";
+import { hasWeights } from "@/lib/aggregation";
+
+// Jurisdictions outside the Census regions, like Puerto Rico, are grouped
+// together so the regional decomposition still adds up to the total
+export const otherRegionName = "Other";
+
+interface Observation {
+  value: number;
+  weight: number;
+  region: string;
+}
+
+export interface TheilDecomposition {
+  between: number; // Inequality between the regional means
+  within: number; // Inequality among states of the same region
+  betweenShare: number; // Share of the index due to regions, from 0 to 1
+}
+
+export interface RegionInequality {
+  region: string;
+  states: number;
+  weightShare: number; // Share of the households or states, from 0 to 1
+  mean: number;
+  theilT: number;
+  theilL: number;
+}
+
+export interface InequalityMeasures {
+  metric: string;
+  weighted: boolean; // False when unweighted or when weights were missing
+  states: number;
+  mean: number;
+  gini: number;
+  theilT: number; // NaN when any value is negative
+  theilL: number; // NaN when any value is zero or negative
+  cv: number;
+  ratio9010: number; // NaN when the 10th percentile is not positive
+  theilTDecomposition: TheilDecomposition;
+  theilLDecomposition: TheilDecomposition;
+  regions: RegionInequality[];
+}
+
+function mean(observations: Observation[]): number {
+  return (
+    d3.sum(observations, (o) => o.value * o.weight) /
+    d3.sum(observations, (o) => o.weight)
+  );
+}
+
+// Theil T (GE(1)); a zero value adds nothing, since x ln x tends to 0
+function theilT(observations: Observation[], mu: number): number {
+  if (!(mu > 0) || observations.some((o) => o.value < 0)) return NaN;
+  const total = d3.sum(observations, (o) => o.weight);
+  return d3.sum(observations, (o) =>
+    o.value > 0
+      ? (o.weight / total) * (o.value / mu) * Math.log(o.value / mu)
+      : 0
+  );
+}
+
+// Theil L (GE(0), mean log deviation)
+function theilL(observations: Observation[], mu: number): number {
+  if (observations.some((o) => o.value <= 0)) return NaN;
+  const total = d3.sum(observations, (o) => o.weight);
+  return d3.sum(
+    observations,
+    (o) => (o.weight / total) * Math.log(mu / o.value)
+  );
+}
+
+// Mean absolute difference between every pair, relative to twice the mean
+function gini(observations: Observation[], mu: number): number {
+  if (!(mu > 0)) return NaN;
+  const total = d3.sum(observations, (o) => o.weight);
+  let sum = 0;
+  observations.forEach((a) =>
+    observations.forEach((b) => {
+      sum += a.weight * b.weight * Math.abs(a.value - b.value);
+    })
+  );
+  return sum / (total * total * 2 * mu);
+}
+
+// Each state sits at the midpoint of its share of the cumulative weight, with
+// linear interpolation between states
+function quantile(sorted: Observation[], p: number): number {
+  const total = d3.sum(sorted, (o) => o.weight);
+  let cumulative = 0;
+  const positions = sorted.map((o) => {
+    const position = (cumulative + o.weight / 2) / total;
+    cumulative += o.weight;
+    return position;
+  });
+
+  if (p <= positions[0]) return sorted[0].value;
+  const i = d3.bisectRight(positions, p);
+  if (i >= sorted.length) return sorted[sorted.length - 1].value;
+  const t = (p - positions[i - 1]) / (positions[i] - positions[i - 1]);
+  return sorted[i - 1].value + t * (sorted[i].value - sorted[i - 1].value);
+}
+
+function decompose(
+  index: number,
+  regions: RegionInequality[],
+  mu: number,
+  kind: "T" | "L"
+): TheilDecomposition {
+  // T weights each region by its share of the metric's total, L by its share
+  // of the households or states
+  const between = d3.sum(regions, (r) =>
+    kind === "T"
+      ? r.weightShare * (r.mean / mu) * Math.log(r.mean / mu)
+      : r.weightShare * Math.log(mu / r.mean)
+  );
+  const within = d3.sum(regions, (r) =>
+    kind === "T"
+      ? r.weightShare * (r.mean / mu) * r.theilT
+      : r.weightShare * r.theilL
+  );
+  return {
+    between,
+    within,
+    betweenShare: index > 0 ? between / index : NaN,
+  };
+}
+
+// How unequal the states are on a metric. Weighted mode treats each state as
+// its households (or population), so large states count for more; it falls
+// back to one weight per state when any count is missing, like the national
+// aggregate. Only differences between state averages are measured, not
+// differences among households within a state.
+export function measureInequality(
+  data: StateData[],
+  metric: string,
+  mode: AggregationMode
+): InequalityMeasures | null {
+  const valid = data.filter((d) => isFinite(d.values[metric]));
+  if (valid.length < 2) return null;
+
+  const weighted = mode === "weighted" && hasWeights(valid, metric);
+  const weightKey = getMetricDefinition(metric).weight!;
+  const observations: Observation[] = valid
+    .map((d) => ({
+      value: d.values[metric],
+      weight: weighted ? d.counts[weightKey] : 1,
+      region: getRegionForState(d.state_id) ?? otherRegionName,
+    }))
+    .sort((a, b) => d3.ascending(a.value, b.value));
+
+  const mu = mean(observations);
+  const totalWeight = d3.sum(observations, (o) => o.weight);
+  const variance = d3.sum(
+    observations,
+    (o) => (o.weight / totalWeight) * (o.value - mu) ** 2
+  );
+  const p10 = quantile(observations, 0.1);
+  const indexT = theilT(observations, mu);
+  const indexL = theilL(observations, mu);
+
+  const regions = d3
+    .groups(observations, (o) => o.region)
+    .map(([region, members]) => {
+      const regionMean = mean(members);
+      return {
+        region,
+        states: members.length,
+        weightShare: d3.sum(members, (o) => o.weight) / totalWeight,
+        mean: regionMean,
+        theilT: theilT(members, regionMean),
+        theilL: theilL(members, regionMean),
+      };
+    })
+    .sort((a, b) => d3.descending(a.weightShare, b.weightShare));
+
+  return {
+    metric,
+    weighted,
+    states: observations.length,
+    mean: mu,
+    gini: gini(observations, mu),
+    theilT: indexT,
+    theilL: indexL,
+    cv: mu > 0 ? Math.sqrt(variance) / mu : NaN,
+    ratio9010: p10 > 0 ? quantile(observations, 0.9) / p10 : NaN,
+    theilTDecomposition: decompose(indexT, regions, mu, "T"),
+    theilLDecomposition: decompose(indexL, regions, mu, "L"),
+    regions,
+  };
+}
+
+export function measureInequalities(
+  data: StateData[],
+  metrics: string[],
+  mode: AggregationMode
+): Record<string, InequalityMeasures> {
+  return Object.fromEntries(
+    metrics.flatMap((metric) => {
+      const measures = measureInequality(data, metric, mode);
+      return measures ? [[metric, measures]] : [];
+    })
+  );
+}
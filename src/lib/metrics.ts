@@ -0,0 +1,215 @@
+import * as d3 from "d3";
+import { MetricDefinition } from "@/types";
+
+// Columns in the dashboard CSV that identify a state rather than measure it
+export const idColumns = ["Geo_ID", "State", "state_id", "Year"];
+
+// Columns holding totals used to weight regional and national aggregates.
+// They are kept out of the metric list.
+export const countColumns = ["Households", "Population"];
+
+// Every metric the dashboard knows how to label, format and scale.
+// Order matters: it is the default order of metric pickers and charts.
+// Metrics whose universe (e.g. adults 25+) has no count column in the data
+// are weighted by total population as the closest available base.
+export const metricRegistry: MetricDefinition[] = [
+  {
+    key: "% Households Without Computer",
+    label: "% No Computer",
+    unit: "percent",
+    format: ".2f",
+    range: [0, 100],
+    direction: "higher-is-worse",
+    weight: "Households",
+    weightIsUniverse: true,
+  },
+  {
+    key: "% Smartphone-Only Households",
+    label: "% Smartphone-Only",
+    unit: "percent",
+    format: ".2f",
+    range: [0, 100],
+    direction: "higher-is-worse",
+    weight: "Households",
+    weightIsUniverse: true,
+  },
+  {
+    key: "% Households with Broadband",
+    label: "% With Broadband",
+    unit: "percent",
+    format: ".2f",
+    range: [0, 100],
+    direction: "higher-is-better",
+    weight: "Households",
+    weightIsUniverse: true,
+  },
+  {
+    key: "% Households Using Internet at Home",
+    label: "% Use Internet at Home",
+    unit: "percent",
+    format: ".2f",
+    range: [0, 100],
+    direction: "higher-is-better",
+    weight: "Households",
+    weightIsUniverse: true,
+  },
+  {
+    key: "% Without High School Diploma",
+    label: "% No HS Diploma",
+    unit: "percent",
+    format: ".2f",
+    range: [0, 100],
+    direction: "higher-is-worse",
+    weight: "Population",
+  },
+  {
+    key: "% With Bachelor's or Higher",
+    label: "% Bachelor's+",
+    unit: "percent",
+    format: ".2f",
+    range: [0, 100],
+    direction: "higher-is-better",
+    weight: "Population",
+  },
+  {
+    key: "% School-Age (5–17) No Internet",
+    label: "% School-Age No Internet",
+    unit: "percent",
+    format: ".2f",
+    range: [0, 100],
+    direction: "higher-is-worse",
+    weight: "Population",
+  },
+  {
+    key: "% School-Age (5–17) Not Enrolled",
+    label: "% School-Age Not Enrolled",
+    unit: "percent",
+    format: ".2f",
+    range: [0, 100],
+    direction: "higher-is-worse",
+    weight: "Population",
+  },
+  {
+    key: "Median Household Income",
+    label: "Median HH Income",
+    unit: "dollars",
+    format: "$,.0f",
+    range: [0, 250000],
+    direction: "higher-is-better",
+    chartDivisor: 1000,
+    weight: "Households",
+  },
+  {
+    key: "% Below Poverty Line",
+    label: "% Below Poverty",
+    unit: "percent",
+    format: ".2f",
+    range: [0, 100],
+    direction: "higher-is-worse",
+    weight: "Population",
+  },
+  {
+    key: "Unemployment Rate (%)",
+    label: "Unemployment %",
+    unit: "rate",
+    format: ".2f",
+    range: [0, 100],
+    direction: "higher-is-worse",
+    weight: "Population",
+  },
+  {
+    key: "% With Public Assistance",
+    label: "% Public Assistance",
+    unit: "percent",
+    format: ".2f",
+    range: [0, 100],
+    direction: "higher-is-worse",
+    weight: "Households",
+    weightIsUniverse: true,
+  },
+];
+
+// Margin-of-error columns are named after their metric, e.g.
+// "% Households with Broadband MOE"
+export const moeSuffix = " MOE";
+
+export function isMoeColumn(key: string): boolean {
+  return key.endsWith(moeSuffix);
+}
+
+export function getMoeMetricKey(key: string): string {
+  return key.slice(0, -moeSuffix.length);
+}
+
+const registryByKey = new Map(metricRegistry.map((m) => [m.key, m]));
+
+// Build a best-guess definition for a CSV column the registry doesn't know
+function inferMetricDefinition(key: string): MetricDefinition {
+  const isPercent = key.includes("%");
+  return {
+    key,
+    label: key.length > 20 ? key.substring(0, 17) + "..." : key,
+    unit: isPercent ? "percent" : "rate",
+    format: isPercent ? ".2f" : ",.2~f",
+    range: isPercent ? [0, 100] : [-Infinity, Infinity],
+    direction: "higher-is-better",
+  };
+}
+
+// Definitions added at runtime, e.g. for user-defined derived metrics
+let customByKey = new Map<string, MetricDefinition>();
+
+export function registerMetricDefinitions(definitions: MetricDefinition[]) {
+  customByKey = new Map(definitions.map((m) => [m.key, m]));
+}
+
+export function getMetricDefinition(key: string): MetricDefinition {
+  return (
+    registryByKey.get(key) ?? customByKey.get(key) ?? inferMetricDefinition(key)
+  );
+}
+
+export function getMetricLabel(key: string): string {
+  return getMetricDefinition(key).label;
+}
+
+export function formatMetricValue(value: number, key: string): string {
+  return formatDefinitionValue(value, getMetricDefinition(key));
+}
+
+// Format with a definition that may not be registered yet
+export function formatDefinitionValue(
+  value: number,
+  definition: MetricDefinition
+): string {
+  if (isNaN(value)) return "N/A";
+  const formatted = d3.format(definition.format)(value);
+  return definition.unit === "percent" ? `${formatted}%` : formatted;
+}
+
+// Format a difference between two vintages, e.g. "+1.20 pts" or "-$1,500"
+export function formatMetricChange(value: number, key: string): string {
+  if (isNaN(value)) return "N/A";
+  const definition = getMetricDefinition(key);
+  const formatted = d3.format("+" + definition.format)(value);
+  return definition.unit === "percent" ? `${formatted} pts` : formatted;
+}
+
+// Value used when plotting a metric on a shared axis with percentages,
+// e.g. income is drawn in thousands of dollars
+export function getChartValue(value: number, key: string): number {
+  return value / (getMetricDefinition(key).chartDivisor ?? 1);
+}
+
+export function isChartScaled(key: string): boolean {
+  return (getMetricDefinition(key).chartDivisor ?? 1) !== 1;
+}
+
+// Order CSV columns by the registry, with unknown columns appended
+export function sortMetricKeys(keys: string[]): string[] {
+  const known = metricRegistry
+    .map((m) => m.key)
+    .filter((key) => keys.includes(key));
+  const unknown = keys.filter((key) => !registryByKey.has(key));
+  return [...known, ...unknown];
+}
@@ -0,0 +1,114 @@
+import { createContext, useContext } from "react";
+import * as d3 from "d3";
+import { NormalizationMode, StateData } from "@/types";
+import { formatValue } from "@/lib/utils";
+import { getChartValue } from "@/lib/metrics";
+
+export const normalizationModeLabels: Record<NormalizationMode, string> = {
+  raw: "Raw values",
+  "z-score": "Z-score",
+  percentile: "Percentile rank",
+  "min-max": "Min-max (0–100)",
+};
+
+const axisLabels: Record<NormalizationMode, string> = {
+  raw: "Value",
+  "z-score": "Standard deviations from the mean",
+  percentile: "Percentile rank among states",
+  "min-max": "Scaled 0–100 (lowest to highest state)",
+};
+
+export interface Normalizer {
+  mode: NormalizationMode;
+  axisLabel: string;
+  // Normalized value; raw mode returns the value unchanged
+  normalize: (value: number, metric: string) => number;
+  // For charts with several metrics on one axis. Raw values keep each
+  // metric's chart scaling, e.g. income in thousands.
+  chartValue: (value: number, metric: string) => number;
+  // A normalized value with its unit, e.g. "+1.20 SD"
+  format: (normalized: number) => string;
+  // The original value, with its normalized equivalent when there is one
+  describe: (value: number, metric: string) => string;
+}
+
+function ordinal(n: number): string {
+  const suffix =
+    Math.floor(n / 10) % 10 === 1
+      ? "th"
+      : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+// Normalize against the spread of each metric across the given states, so
+// every metric lands on a comparable scale
+export function createNormalizer(
+  data: StateData[],
+  mode: NormalizationMode
+): Normalizer {
+  const cache = new Map<
+    string,
+    { sorted: number[]; mean: number; deviation: number }
+  >();
+  const statsFor = (metric: string) => {
+    if (!cache.has(metric)) {
+      const sorted = data
+        .map((d) => d.values[metric])
+        .filter((v) => isFinite(v))
+        .sort(d3.ascending);
+      cache.set(metric, {
+        sorted,
+        mean: d3.mean(sorted) ?? 0,
+        deviation: d3.deviation(sorted) || 1,
+      });
+    }
+    return cache.get(metric)!;
+  };
+
+  const normalize = (value: number, metric: string) => {
+    if (mode === "raw" || isNaN(value)) return value;
+    const { sorted, mean, deviation } = statsFor(metric);
+    if (!sorted.length) return NaN;
+
+    if (mode === "z-score") return (value - mean) / deviation;
+    if (mode === "min-max") {
+      const [min, max] = [sorted[0], sorted[sorted.length - 1]];
+      return max > min ? ((value - min) / (max - min)) * 100 : 50;
+    }
+    // Share of states below the value, counting ties as half
+    const below = d3.bisectLeft(sorted, value);
+    const atOrBelow = d3.bisectRight(sorted, value);
+    return ((below + atOrBelow) / 2 / sorted.length) * 100;
+  };
+
+  const format = (normalized: number) => {
+    if (isNaN(normalized)) return "N/A";
+    if (mode === "z-score") return `${d3.format("+.2f")(normalized)} SD`;
+    if (mode === "percentile") {
+      return `${ordinal(Math.round(normalized))} percentile`;
+    }
+    return `${d3.format(".1f")(normalized)} / 100`;
+  };
+
+  return {
+    mode,
+    axisLabel: axisLabels[mode],
+    normalize,
+    chartValue: (value, metric) =>
+      mode === "raw" ? getChartValue(value, metric) : normalize(value, metric),
+    format,
+    describe: (value, metric) =>
+      mode === "raw" || isNaN(value)
+        ? formatValue(value, metric)
+        : `${format(normalize(value, metric))} (${formatValue(value, metric)})`,
+  };
+}
+
+// Provided by the dashboard; charts outside it show raw values
+export const NormalizationContext = createContext<Normalizer>(
+  createNormalizer([], "raw")
+);
+
+export function useNormalizer(): Normalizer {
+  return useContext(NormalizationContext);
+}
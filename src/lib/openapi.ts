@@ -0,0 +1,412 @@
+// OpenAPI description of the /api routes, served at /api/openapi
+const yearParam = {
+  name: "year",
+  in: "query",
+  description: "Data vintage; defaults to the latest",
+  schema: { type: "integer" },
+};
+
+const versionParam = {
+  name: "version",
+  in: "query",
+  description:
+    'Dataset version from public/data/vintages.json; defaults to "current"',
+  schema: { type: "string" },
+};
+
+const regionParam = {
+  name: "region",
+  in: "query",
+  description: "Census region",
+  schema: { type: "string", enum: ["Northeast", "Midwest", "South", "West"] },
+};
+
+const errorResponse = {
+  description: "Invalid query",
+  content: {
+    "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+  },
+};
+
+export const openApiDocument = {
+  openapi: "3.0.3",
+  info: {
+    title: "Digital Divide Data API",
+    version: "1.0.0",
+    description:
+      "State-level digital divide metrics, as loaded by the dashboard.",
+  },
+  paths: {
+    "/api/states": {
+      get: {
+        summary: "List states with their metrics",
+        parameters: [
+          yearParam,
+          versionParam,
+          regionParam,
+          {
+            name: "min:{metric}",
+            in: "query",
+            description: "Keep states whose metric is at least this value",
+            schema: { type: "number" },
+          },
+          {
+            name: "max:{metric}",
+            in: "query",
+            description: "Keep states whose metric is at most this value",
+            schema: { type: "number" },
+          },
+          {
+            name: "sort",
+            in: "query",
+            description: "Metric to sort by",
+            schema: { type: "string" },
+          },
+          {
+            name: "order",
+            in: "query",
+            schema: { type: "string", enum: ["asc", "desc"], default: "desc" },
+          },
+          {
+            name: "fields",
+            in: "query",
+            description: "Comma-separated metrics to include",
+            schema: { type: "string" },
+          },
+          {
+            name: "limit",
+            in: "query",
+            schema: { type: "integer", minimum: 1 },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Matching states",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/StatesResponse" },
+              },
+            },
+          },
+          "400": errorResponse,
+        },
+      },
+    },
+    "/api/states/{id}": {
+      get: {
+        summary: "Get one state",
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "Postal code, FIPS code or Geo_ID",
+            schema: { type: "string" },
+          },
+          yearParam,
+          versionParam,
+          {
+            name: "fields",
+            in: "query",
+            description: "Comma-separated metrics to include",
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The state",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    year: { type: "integer" },
+                    data: { $ref: "#/components/schemas/State" },
+                  },
+                },
+              },
+            },
+          },
+          "400": errorResponse,
+          "404": { description: "Unknown state" },
+        },
+      },
+    },
+    "/api/metrics": {
+      get: {
+        summary: "List metrics with definitions and summary statistics",
+        parameters: [yearParam, versionParam],
+        responses: {
+          "200": {
+            description: "Metrics",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    year: { type: "integer" },
+                    years: { type: "array", items: { type: "integer" } },
+                    data: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/Metric" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/api/metrics/{metric}/ranking": {
+      get: {
+        summary: "Rank states on a metric, best first",
+        parameters: [
+          {
+            name: "metric",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+          yearParam,
+          versionParam,
+          regionParam,
+          {
+            name: "order",
+            in: "query",
+            schema: {
+              type: "string",
+              enum: ["best", "worst"],
+              default: "best",
+            },
+          },
+          {
+            name: "limit",
+            in: "query",
+            schema: { type: "integer", minimum: 1 },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Ranked states",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    year: { type: "integer" },
+                    metric: { type: "string" },
+                    order: { type: "string" },
+                    data: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/RankingEntry" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "400": errorResponse,
+          "404": { description: "Unknown metric" },
+        },
+      },
+    },
+    "/api/inequality": {
+      get: {
+        summary: "Inequality across states for each metric",
+        parameters: [
+          yearParam,
+          versionParam,
+          {
+            name: "weighting",
+            in: "query",
+            description:
+              "Weight states by household or population counts when the dataset has them",
+            schema: {
+              type: "string",
+              enum: ["weighted", "unweighted"],
+              default: "weighted",
+            },
+          },
+          {
+            name: "fields",
+            in: "query",
+            description: "Comma-separated metrics to measure",
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Inequality measures",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    year: { type: "integer" },
+                    years: { type: "array", items: { type: "integer" } },
+                    version: { type: "string" },
+                    source: { $ref: "#/components/schemas/Provenance" },
+                    data: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/Inequality" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "400": errorResponse,
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Error: {
+        type: "object",
+        properties: { error: { type: "string" } },
+      },
+      State: {
+        type: "object",
+        properties: {
+          id: { type: "string", example: "AL" },
+          geoId: { type: "string", example: "0400000US01" },
+          name: { type: "string", example: "Alabama" },
+          region: { type: "string", nullable: true },
+          values: {
+            type: "object",
+            additionalProperties: { type: "number", nullable: true },
+          },
+          moe: {
+            type: "object",
+            description: "90% margins of error, where published",
+            additionalProperties: { type: "number" },
+          },
+          counts: {
+            type: "object",
+            description: "Household and population totals, where published",
+            additionalProperties: { type: "number" },
+          },
+        },
+      },
+      Provenance: {
+        type: "object",
+        description: "Where the vintage's numbers came from",
+        properties: {
+          version: { type: "string" },
+          source: { type: "string" },
+          tables: { type: "array", items: { type: "string" } },
+          retrieved: { type: "string", format: "date" },
+          license: { type: "string" },
+          sha256: { type: "string" },
+          notes: { type: "string" },
+        },
+      },
+      StatesResponse: {
+        type: "object",
+        properties: {
+          year: { type: "integer" },
+          years: { type: "array", items: { type: "integer" } },
+          version: { type: "string" },
+          source: { $ref: "#/components/schemas/Provenance" },
+          count: { type: "integer" },
+          data: {
+            type: "array",
+            items: { $ref: "#/components/schemas/State" },
+          },
+        },
+      },
+      Metric: {
+        type: "object",
+        properties: {
+          key: { type: "string" },
+          label: { type: "string" },
+          unit: { type: "string", enum: ["percent", "dollars", "rate"] },
+          format: { type: "string" },
+          range: { type: "array", items: { type: "number" } },
+          direction: {
+            type: "string",
+            enum: ["higher-is-better", "higher-is-worse"],
+          },
+          count: { type: "integer" },
+          min: { type: "number", nullable: true },
+          max: { type: "number", nullable: true },
+          mean: { type: "number", nullable: true },
+          median: { type: "number", nullable: true },
+          weightedMean: {
+            type: "number",
+            nullable: true,
+            description:
+              "Mean weighted by household or population counts, when the dataset has them",
+          },
+        },
+      },
+      TheilDecomposition: {
+        type: "object",
+        properties: {
+          between: { type: "number" },
+          within: { type: "number" },
+          betweenShare: {
+            type: "number",
+            nullable: true,
+            description:
+              "Share of the index due to differences between regions",
+          },
+        },
+      },
+      Inequality: {
+        type: "object",
+        description: "Measures that cannot be computed are null",
+        properties: {
+          metric: { type: "string" },
+          weighted: { type: "boolean" },
+          states: { type: "integer" },
+          mean: { type: "number" },
+          gini: { type: "number", nullable: true },
+          theilT: { type: "number", nullable: true },
+          theilL: { type: "number", nullable: true },
+          cv: {
+            type: "number",
+            nullable: true,
+            description: "Coefficient of variation",
+          },
+          ratio9010: {
+            type: "number",
+            nullable: true,
+            description: "90th percentile divided by the 10th",
+          },
+          theilTDecomposition: {
+            $ref: "#/components/schemas/TheilDecomposition",
+          },
+          theilLDecomposition: {
+            $ref: "#/components/schemas/TheilDecomposition",
+          },
+          regions: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                region: { type: "string" },
+                states: { type: "integer" },
+                weightShare: { type: "number" },
+                mean: { type: "number" },
+                theilT: { type: "number", nullable: true },
+                theilL: { type: "number", nullable: true },
+              },
+            },
+          },
+        },
+      },
+      RankingEntry: {
+        type: "object",
+        properties: {
+          rank: { type: "integer" },
+          id: { type: "string" },
+          name: { type: "string" },
+          value: { type: "number" },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,89 @@
+import * as d3 from "d3";
+import { StateData } from "@/types";
+import { getMetrics } from "@/lib/utils";
+import { symmetricEigen } from "./statistics";
+
+// Columns added when component scores are shown on the map
+export const pcaScoreColumns = ["PC1 Score", "PC2 Score"];
+
+export function isPcaScoreColumn(key: string): boolean {
+  return pcaScoreColumns.includes(key);
+}
+
+export interface PrincipalComponent {
+  eigenvalue: number;
+  explained: number; // Share of total variance, 0-1
+  loadings: number[]; // Indexed like the analysis metrics
+}
+
+export interface PcaResult {
+  metrics: string[];
+  components: PrincipalComponent[];
+  states: StateData[]; // States with every metric
+  scores: number[][]; // scores[i][k]: state i on component k
+}
+
+// Principal components of the standardized metrics, i.e. of their
+// correlation matrix. States missing any metric are left out.
+export function computePca(
+  data: StateData[],
+  metrics: string[]
+): PcaResult | null {
+  const states = data.filter((d) =>
+    metrics.every((m) => isFinite(d.values[m]))
+  );
+  if (metrics.length < 2 || states.length < 3) return null;
+
+  const columns = metrics.map((m) => {
+    const values = states.map((d) => d.values[m]);
+    const mean = d3.mean(values) ?? 0;
+    const deviation = d3.deviation(values) || 1;
+    return values.map((v) => (v - mean) / deviation);
+  });
+  const n = states.length;
+  const correlation = columns.map((a) =>
+    columns.map((b) => d3.sum(a, (v, i) => v * b[i]) / (n - 1))
+  );
+
+  const { values, vectors } = symmetricEigen(correlation);
+  const total = d3.sum(values);
+  const components = values.map((eigenvalue, k) => {
+    // Eigenvectors have no inherent sign; point each one so that most of
+    // its weight is positive, which keeps the axes stable between updates
+    const sign = d3.sum(vectors[k]) < 0 ? -1 : 1;
+    return {
+      eigenvalue: Math.max(eigenvalue, 0),
+      explained: total ? Math.max(eigenvalue, 0) / total : 0,
+      loadings: vectors[k].map((v) => v * sign),
+    };
+  });
+
+  const scores = states.map((_, i) =>
+    components.map((c) => d3.sum(c.loadings, (l, j) => l * columns[j][i]))
+  );
+  return { metrics, components, states, scores };
+}
+
+// Add PC1 and PC2 scores to each state so they can be mapped. The analysis
+// uses every other metric in the data.
+export function applyPcaScores(data: StateData[]): StateData[] {
+  const pca = computePca(
+    data,
+    getMetrics(data).filter((m) => !isPcaScoreColumn(m))
+  );
+  if (!pca) return data;
+
+  const scoresByState = new Map(pca.states.map((s, i) => [s, pca.scores[i]]));
+  return data.map((state) => {
+    const scores = scoresByState.get(state);
+    return {
+      ...state,
+      values: {
+        ...state.values,
+        ...Object.fromEntries(
+          pcaScoreColumns.map((column, k) => [column, scores?.[k] ?? NaN])
+        ),
+      },
+    };
+  });
+}
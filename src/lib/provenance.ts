@@ -0,0 +1,60 @@
+import { ChecksumStatus, DatasetProvenance, Vintage } from "@/types";
+import { currentVersion, getVersion } from "@/lib/vintages";
+
+// What the "Source / Data as of" footer under each chart shows
+export interface DataProvenance {
+  source: string;
+  asOf: string | null; // Date the data was retrieved, if recorded
+  version: string;
+  year?: number;
+  checksum?: ChecksumStatus;
+}
+
+export function getVintageProvenance(vintage: Vintage): DataProvenance {
+  const source = vintage.source;
+  const tables = source?.tables?.length ? ` (${source.tables.join(", ")})` : "";
+  return {
+    source: `${source?.source ?? "Unknown source"}${tables}`,
+    asOf: source?.retrieved ?? null,
+    version: source ? getVersion(source) : currentVersion,
+    year: vintage.year,
+    checksum: vintage.checksum,
+  };
+}
+
+export function getUploadProvenance(
+  fileName: string,
+  uploadedAt: Date
+): DataProvenance {
+  return {
+    source: `Uploaded file ${fileName}`,
+    asOf: uploadedAt.toISOString().slice(0, 10),
+    version: "uploaded",
+  };
+}
+
+export function formatProvenance(provenance: DataProvenance): string {
+  return [
+    `Source: ${provenance.source}${
+      provenance.year !== undefined ? `, ${provenance.year}` : ""
+    }`,
+    `Data as of: ${provenance.asOf ?? "not recorded"}`,
+    provenance.version !== currentVersion && `Version: ${provenance.version}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+// Manifest fields safe to publish through the API (no file paths)
+export function toApiProvenance(vintage: Vintage): DatasetProvenance {
+  const source = vintage.source;
+  return {
+    version: source ? getVersion(source) : currentVersion,
+    source: source?.source,
+    tables: source?.tables,
+    retrieved: source?.retrieved,
+    license: source?.license,
+    sha256: source?.sha256,
+    notes: source?.notes,
+  };
+}
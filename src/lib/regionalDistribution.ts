@@ -0,0 +1,103 @@
+import * as d3 from "d3";
+import { DistributionStyle, StateData } from "@/types";
+import { regions } from "@/lib/geography";
+import { GroupTest, kruskalWallis, oneWayAnova } from "./statistics";
+
+export const regionalSignificance = 0.05;
+
+export interface RegionGroup {
+  region: string;
+  states: StateData[];
+}
+
+export interface RegionalComparison {
+  metric: string;
+  groups: RegionGroup[];
+  anova: GroupTest | null;
+  kruskalWallis: GroupTest | null;
+  // States in a region but without a value for the metric
+  missing: StateData[];
+}
+
+export interface BoxStats {
+  q1: number;
+  median: number;
+  q3: number;
+  // Furthest values within 1.5 IQR of the box
+  lowerWhisker: number;
+  upperWhisker: number;
+  mean: number;
+}
+
+// Tukey box plot summary of a set of values
+export function boxStats(values: number[]): BoxStats | null {
+  const sorted = values.filter((v) => isFinite(v)).sort(d3.ascending);
+  if (!sorted.length) return null;
+
+  const q1 = d3.quantileSorted(sorted, 0.25)!;
+  const q3 = d3.quantileSorted(sorted, 0.75)!;
+  const fence = 1.5 * (q3 - q1);
+  return {
+    q1,
+    median: d3.quantileSorted(sorted, 0.5)!,
+    q3,
+    lowerWhisker: sorted.find((v) => v >= q1 - fence)!,
+    upperWhisker: [...sorted].reverse().find((v) => v <= q3 + fence)!,
+    mean: d3.mean(sorted)!,
+  };
+}
+
+// Group the states by Census region and test whether the regions differ on
+// the metric. Jurisdictions outside the regions, like Puerto Rico, are left
+// out.
+export function compareRegions(
+  data: StateData[],
+  metric: string
+): RegionalComparison {
+  const inRegion = (states: string[]) =>
+    data.filter((d) => states.includes(d.state_id));
+
+  const groups = Object.entries(regions).map(([region, states]) => ({
+    region,
+    states: inRegion(states).filter((d) => isFinite(d.values[metric])),
+  }));
+  const values = groups.map((g) => g.states.map((d) => d.values[metric]));
+
+  return {
+    metric,
+    groups,
+    anova: oneWayAnova(values),
+    kruskalWallis: kruskalWallis(values),
+    missing: inRegion(Object.values(regions).flat()).filter(
+      (d) => !isFinite(d.values[metric])
+    ),
+  };
+}
+
+export const distributionStyleLabels: Record<DistributionStyle, string> = {
+  box: "Box plot",
+  violin: "Violin",
+};
+
+// Gaussian kernel density of the values at each point, with Silverman's
+// rule-of-thumb bandwidth
+export function kernelDensity(
+  values: number[],
+  points: number[]
+): [number, number][] {
+  const n = values.length;
+  const deviation = d3.deviation(values) || 0;
+  const iqr =
+    (d3.quantile(values, 0.75) ?? 0) - (d3.quantile(values, 0.25) ?? 0);
+  const spread = Math.min(deviation, iqr / 1.34) || deviation;
+  if (n < 2 || !spread) return [];
+
+  const bandwidth = 0.9 * spread * n ** -0.2;
+  return points.map((x) => [
+    x,
+    d3.mean(values, (v) => {
+      const u = (x - v) / bandwidth;
+      return Math.exp(-0.5 * u * u) / Math.sqrt(2 * Math.PI);
+    })! / bandwidth,
+  ]);
+}
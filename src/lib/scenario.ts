@@ -0,0 +1,140 @@
+import * as d3 from "d3";
+import { ScenarioSettings, StateData } from "@/types";
+import { getMetricDefinition } from "@/lib/metrics";
+import { chartColors } from "@/lib/chartStyles";
+import { MultipleFit, multipleRegression, tCriticalValue } from "./statistics";
+
+// Interval level for predicted changes, matching the ACS margins of error
+export const scenarioConfidence = 0.9;
+
+// Predicted values are drawn in this color with dashed outlines
+export const scenarioColor = chartColors.accent3;
+
+// Used until the user picks their own, when the data has them
+export const defaultScenarioInputs = [
+  "% Below Poverty Line",
+  "% With Bachelor's or Higher",
+  "Median Household Income",
+  "Unemployment Rate (%)",
+];
+
+export const defaultScenarioOutcomes = [
+  "% Households with Broadband",
+  "% Households Without Computer",
+  "% Households Using Internet at Home",
+];
+
+export interface ScenarioModel {
+  outcome: string;
+  inputs: string[];
+  fit: MultipleFit;
+}
+
+export interface ScenarioPrediction {
+  metric: string;
+  current: number;
+  predicted: number;
+  change: number;
+  // Interval for the predicted value, from the uncertainty in the
+  // fitted coefficients
+  low: number;
+  high: number;
+  rSquared: number;
+  clamped: boolean; // Held to the metric's valid range, e.g. 100%
+}
+
+export interface ScenarioResult {
+  state: StateData;
+  changes: Record<string, number>;
+  predictions: Record<string, ScenarioPrediction>;
+  // Inputs pushed outside the range observed across states
+  extrapolated: string[];
+}
+
+// One regression per outcome on all the inputs, using the states that have
+// every value
+export function fitScenarioModels(
+  data: StateData[],
+  inputs: string[],
+  outcomes: string[]
+): Record<string, ScenarioModel | null> {
+  return Object.fromEntries(
+    outcomes.map((outcome) => {
+      const predictors = inputs.filter((m) => m !== outcome);
+      const complete = data.filter((d) =>
+        [outcome, ...predictors].every((m) => isFinite(d.values[m]))
+      );
+      const fit = multipleRegression(
+        complete.map((d) => predictors.map((m) => d.values[m])),
+        complete.map((d) => d.values[outcome])
+      );
+      return [outcome, fit && { outcome, inputs: predictors, fit }];
+    })
+  );
+}
+
+// Shift the state's actual value by the modeled effect of the changes, so
+// what the model doesn't explain about the state is kept
+export function runScenario(
+  models: Record<string, ScenarioModel | null>,
+  data: StateData[],
+  state: StateData,
+  changes: Record<string, number>
+): ScenarioResult {
+  const predictions: Record<string, ScenarioPrediction> = {};
+  Object.values(models).forEach((model) => {
+    if (!model) return;
+    const current = state.values[model.outcome];
+    if (!isFinite(current)) return;
+
+    const { fit } = model;
+    const delta = model.inputs.map((m) => changes[m] ?? 0);
+    const change = d3.sum(delta, (d, i) => d * fit.coefficients[i]);
+    const error = Math.sqrt(
+      d3.sum(delta, (di, i) =>
+        d3.sum(delta, (dj, j) => di * dj * fit.covariance[i][j])
+      )
+    );
+    const halfWidth = tCriticalValue(1 - scenarioConfidence, fit.df) * error;
+
+    const [min, max] = getMetricDefinition(model.outcome).range;
+    const clamp = (v: number) => Math.min(max, Math.max(min, v));
+    const predicted = clamp(current + change);
+    predictions[model.outcome] = {
+      metric: model.outcome,
+      current,
+      predicted,
+      change: predicted - current,
+      low: clamp(current + change - halfWidth),
+      high: clamp(current + change + halfWidth),
+      rSquared: fit.rSquared,
+      clamped: predicted !== current + change,
+    };
+  });
+
+  const extrapolated = Object.entries(changes)
+    .filter(([metric, change]) => {
+      if (!change) return false;
+      const [min, max] = d3.extent(data, (d) => d.values[metric]);
+      const value = state.values[metric] + change;
+      return min !== undefined && (value < min || value > max!);
+    })
+    .map(([metric]) => metric);
+
+  return { state, changes, predictions, extrapolated };
+}
+
+// Slider limit and step for an input: about two standard deviations either
+// way across states
+export function scenarioRange(
+  data: StateData[],
+  metric: string
+): { limit: number; step: number } {
+  const deviation = d3.deviation(data, (d) => d.values[metric]) || 1;
+  const [, limit] = d3.nice(0, 2 * deviation, 4);
+  return { limit, step: d3.tickStep(0, limit, 60) };
+}
+
+export function isScenarioActive(settings: ScenarioSettings): boolean {
+  return Object.values(settings.changes).some((change) => change !== 0);
+}
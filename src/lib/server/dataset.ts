@@ -0,0 +1,72 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { DatasetManifest, Vintage } from "@/types";
+import {
+  currentVersion,
+  getManifestVersions,
+  mergeVintages,
+  readVintageSource,
+  selectVersion,
+} from "@/lib/vintages";
+import { ApiQueryError } from "@/lib/api";
+
+const publicDir = path.join(process.cwd(), "public");
+
+function readPublicFile(url: string): Promise<string> {
+  return readFile(path.join(publicDir, url.replace(/^\//, "")), "utf8");
+}
+
+async function readManifest(): Promise<DatasetManifest> {
+  return JSON.parse(await readPublicFile("/data/vintages.json"));
+}
+
+const vintagePromises = new Map<string, Promise<Vintage[]>>();
+
+// Server-side counterpart of fetchVintages, reading public/data from disk.
+// Cached per dataset version for the lifetime of the server process.
+export function loadVintages(
+  version: string = currentVersion
+): Promise<Vintage[]> {
+  if (!vintagePromises.has(version)) {
+    vintagePromises.set(
+      version,
+      (async () => {
+        const manifest = await readManifest();
+        if (!getManifestVersions(manifest).includes(version)) {
+          throw new ApiQueryError(`Unknown dataset version "${version}"`);
+        }
+        const loaded = await Promise.all(
+          selectVersion(manifest, version).map(async (source) =>
+            readVintageSource(await readPublicFile(source.url), source)
+          )
+        );
+        return mergeVintages(loaded);
+      })().catch((error) => {
+        vintagePromises.delete(version);
+        throw error;
+      })
+    );
+  }
+  return vintagePromises.get(version)!;
+}
+
+// The vintage named by ?year= (default: the latest) of the dataset version
+// named by ?version= (default: the current data)
+export async function loadVintage(
+  params: URLSearchParams
+): Promise<{ vintage: Vintage; years: number[]; version: string }> {
+  const version = params.get("version") ?? currentVersion;
+  const vintages = await loadVintages(version);
+  const years = vintages.map((v) => v.year);
+  const year = params.get("year");
+
+  const vintage = year
+    ? vintages.find((v) => v.year === Number(year))
+    : vintages[vintages.length - 1];
+  if (!vintage) {
+    throw new ApiQueryError(
+      `No data for year ${year}; available: ${years.join(", ")}`
+    );
+  }
+  return { vintage, years, version };
+}
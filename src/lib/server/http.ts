@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { ApiQueryError } from "@/lib/api";
+
+// Bad query parameters are the caller's fault; anything else is ours
+export function errorResponse(error: unknown): NextResponse {
+  if (error instanceof ApiQueryError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  console.error("API error:", error);
+  return NextResponse.json(
+    { error: "Failed to load dataset" },
+    { status: 500 }
+  );
+}
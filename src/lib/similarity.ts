@@ -0,0 +1,81 @@
+import * as d3 from "d3";
+import { SimilarityMethod, StateData } from "@/types";
+import { symmetricPseudoInverse } from "./statistics";
+
+export const similarityMethodLabels: Record<SimilarityMethod, string> = {
+  euclidean: "Euclidean",
+  mahalanobis: "Mahalanobis (discounts correlated metrics)",
+};
+
+export interface MetricDifference {
+  metric: string;
+  difference: number; // Peer minus target, in the metric's own units
+  standardized: number; // The same difference in standard deviations
+}
+
+export interface SimilarState {
+  state: StateData;
+  distance: number;
+  differences: MetricDifference[]; // Largest standardized gap first
+}
+
+// Other states ranked by their distance from the target in standardized
+// metric space, closest first. Only states with every metric take part.
+export function findSimilarStates(
+  data: StateData[],
+  target: StateData,
+  metrics: string[],
+  method: SimilarityMethod
+): SimilarState[] {
+  const complete = (d: StateData) =>
+    metrics.every((m) => isFinite(d.values[m]));
+  if (!metrics.length || !complete(target)) return [];
+
+  const states = data.filter(complete);
+  const deviations = metrics.map(
+    (m) => d3.deviation(states, (d) => d.values[m]) || 1
+  );
+  const gaps = (d: StateData) =>
+    metrics.map((m, j) => (d.values[m] - target.values[m]) / deviations[j]);
+
+  // Mahalanobis distance uses the inverse correlation matrix, so metrics
+  // that move together aren't counted twice
+  let inverse: number[][] | null = null;
+  if (method === "mahalanobis" && states.length > 2) {
+    const columns = metrics.map((m, j) => {
+      const mean = d3.mean(states, (d) => d.values[m]) ?? 0;
+      return states.map((d) => (d.values[m] - mean) / deviations[j]);
+    });
+    const n = states.length;
+    inverse = symmetricPseudoInverse(
+      columns.map((a) =>
+        columns.map((b) => d3.sum(a, (v, i) => v * b[i]) / (n - 1))
+      )
+    );
+  }
+
+  const distance = (z: number[]) =>
+    Math.sqrt(
+      inverse
+        ? d3.sum(z, (zi, i) => d3.sum(z, (zj, j) => zi * inverse![i][j] * zj))
+        : d3.sum(z, (v) => v * v)
+    );
+
+  return states
+    .filter((d) => d.state_id !== target.state_id)
+    .map((state) => {
+      const z = gaps(state);
+      return {
+        state,
+        distance: distance(z),
+        differences: metrics
+          .map((metric, j) => ({
+            metric,
+            difference: state.values[metric] - target.values[metric],
+            standardized: z[j],
+          }))
+          .sort((a, b) => Math.abs(b.standardized) - Math.abs(a.standardized)),
+      };
+    })
+    .sort((a, b) => a.distance - b.distance);
+}
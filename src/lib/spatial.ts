@@ -0,0 +1,229 @@
+import * as d3 from "d3";
+import * as topojson from "topojson-client";
+import {
+  ContiguityStyle,
+  LisaCategory,
+  SpatialWeightsSettings,
+  StateData,
+} from "@/types";
+import { stateToFipsMap } from "@/lib/utils";
+import { seededRandom } from "./statistics";
+
+export const contiguityLabels: Record<ContiguityStyle, string> = {
+  queen: "Queen (shared border or corner)",
+  rook: "Rook (shared border only)",
+};
+
+// Nearest state by distance for the states with no land border. The map
+// topology draws both as insets, so this can't be measured from it.
+const islandLinks: Record<string, string> = {
+  "02": "53", // Alaska - Washington
+  "15": "06", // Hawaii - California
+};
+
+export const lisaSignificance = 0.05;
+export const permutationCount = 999;
+
+// GeoDa's usual LISA palette
+export const lisaColors: Record<LisaCategory, string> = {
+  "High-High": "#d7191c",
+  "Low-Low": "#2c7bb6",
+  "High-Low": "#fdae61",
+  "Low-High": "#abd9e9",
+  "Not significant": "#e5e7eb",
+};
+
+export const lisaCategories = Object.keys(lisaColors) as LisaCategory[];
+
+// Neighbors of each state in the topology, keyed by FIPS code
+export function buildContiguity(
+  topoData: any,
+  settings: SpatialWeightsSettings
+): Record<string, string[]> {
+  const geometries: any[] = topoData.objects.states.geometries;
+  const ids: string[] = geometries.map((g) => g.id);
+
+  // Arcs are shared exactly between the states on either side of a border
+  const neighbors = topojson
+    .neighbors(geometries)
+    .map((list) => new Set(list.map((j) => ids[j])));
+
+  if (settings.style === "queen") {
+    // States that only meet at a point, like the Four Corners, share a
+    // vertex but no arc
+    const statesByVertex = new Map<string, Set<number>>();
+    geometries.forEach((geometry, i) => {
+      const feature = topojson.feature(topoData, geometry) as any;
+      const polygons =
+        feature.geometry.type === "Polygon"
+          ? [feature.geometry.coordinates]
+          : feature.geometry.coordinates;
+      polygons.flat(2).forEach(([x, y]: [number, number]) => {
+        const key = `${x},${y}`;
+        if (!statesByVertex.has(key)) statesByVertex.set(key, new Set());
+        statesByVertex.get(key)!.add(i);
+      });
+    });
+    statesByVertex.forEach((states) =>
+      states.forEach((i) =>
+        states.forEach((j) => i !== j && neighbors[i].add(ids[j]))
+      )
+    );
+  }
+
+  const contiguity: Record<string, string[]> = {};
+  ids.forEach((id, i) => (contiguity[id] = Array.from(neighbors[i])));
+
+  if (settings.linkIslands) {
+    Object.entries(islandLinks).forEach(([island, nearest]) => {
+      if (!contiguity[island] || !contiguity[nearest]) return;
+      contiguity[island] = Array.from(
+        new Set([...contiguity[island], nearest])
+      );
+      contiguity[nearest] = Array.from(
+        new Set([...contiguity[nearest], island])
+      );
+    });
+  }
+  return contiguity;
+}
+
+export interface LocalMoran {
+  state: StateData;
+  z: number; // Standardized value
+  lag: number; // Mean standardized value of the neighbors
+  value: number; // Local Moran's I
+  p: number; // Pseudo p-value from conditional permutation
+  category: LisaCategory;
+  neighbors: number;
+}
+
+export interface SpatialAutocorrelation {
+  metric: string;
+  settings: SpatialWeightsSettings;
+  moransI: number;
+  expected: number; // E[I] under no spatial pattern
+  zScore: number; // Against the permutation distribution
+  p: number; // Pseudo p-value
+  locals: LocalMoran[];
+  byState: Record<string, LocalMoran>; // Keyed by state_id
+  isolated: StateData[]; // No neighbors with data, left out
+  missing: StateData[]; // No value for the metric, left out
+}
+
+// Share of permutations at least as extreme as the observed statistic, in
+// the direction it falls
+function pseudoPValue(observed: number, center: number, draws: number[]) {
+  const extreme = draws.filter((d) =>
+    observed >= center ? d >= observed : d <= observed
+  ).length;
+  return (extreme + 1) / (draws.length + 1);
+}
+
+function lisaCategory(z: number, lag: number, p: number): LisaCategory {
+  if (p > lisaSignificance) return "Not significant";
+  if (z >= 0) return lag >= 0 ? "High-High" : "High-Low";
+  return lag >= 0 ? "Low-High" : "Low-Low";
+}
+
+// Global and local Moran's I for one metric with row-standardized
+// contiguity weights. Significance comes from random permutations of the
+// values, seeded so results are stable between renders.
+export function spatialAutocorrelation(
+  data: StateData[],
+  metric: string,
+  contiguity: Record<string, string[]>,
+  settings: SpatialWeightsSettings
+): SpatialAutocorrelation | null {
+  const missing = data.filter((d) => !isFinite(d.values[metric]));
+  const withValues = data.filter((d) => isFinite(d.values[metric]));
+  const indexByFips = new Map(
+    withValues.map((d, i) => [stateToFipsMap[d.state_id] ?? d.state_id, i])
+  );
+
+  const neighborIndices = withValues.map((d) =>
+    (contiguity[stateToFipsMap[d.state_id] ?? d.state_id] ?? [])
+      .map((fips) => indexByFips.get(fips))
+      .filter((j): j is number => j !== undefined)
+  );
+  const isolated = withValues.filter((_, i) => !neighborIndices[i].length);
+
+  // Drop isolated states and re-index the neighbor lists to match
+  const kept = withValues
+    .map((_, i) => i)
+    .filter((i) => neighborIndices[i].length);
+  const position = new Map(kept.map((i, k) => [i, k]));
+  const states = kept.map((i) => withValues[i]);
+  const neighbors = kept.map((i) =>
+    neighborIndices[i]
+      .map((j) => position.get(j))
+      .filter((j): j is number => j !== undefined)
+  );
+  const n = states.length;
+  if (n < 3 || neighbors.some((list) => !list.length)) return null;
+
+  const values = states.map((d) => d.values[metric]);
+  const mean = d3.mean(values)!;
+  const deviation = Math.sqrt(d3.mean(values, (v) => (v - mean) ** 2)!);
+  if (!deviation) return null;
+  const z = values.map((v) => (v - mean) / deviation);
+
+  const lagOf = (zs: number[], i: number) =>
+    d3.mean(neighbors[i], (j) => zs[j])!;
+  // With row-standardized weights and z-scores, I is the mean of z * lag
+  const moransIOf = (zs: number[]) =>
+    d3.mean(zs, (zi, i) => zi * lagOf(zs, i))!;
+
+  const random = seededRandom(n * 131 + 7);
+  const shuffled = [...z];
+  const globalDraws = d3.range(permutationCount).map(() => {
+    d3.shuffler(random)(shuffled);
+    return moransIOf(shuffled);
+  });
+
+  const moransI = moransIOf(z);
+  const expected = -1 / (n - 1);
+  const drawMean = d3.mean(globalDraws)!;
+  const drawDeviation = d3.deviation(globalDraws) || 1;
+
+  // Conditional permutation: hold each state's value fixed and draw its
+  // neighbors at random from the other states
+  const locals = states.map((state, i) => {
+    const lag = lagOf(z, i);
+    const value = z[i] * lag;
+    const others = z.filter((_, j) => j !== i);
+    const k = neighbors[i].length;
+    const draws = d3.range(permutationCount).map(() => {
+      let sum = 0;
+      for (let m = 0; m < k; m++) {
+        const pick = m + Math.floor(random() * (others.length - m));
+        [others[m], others[pick]] = [others[pick], others[m]];
+        sum += others[m];
+      }
+      return (z[i] * sum) / k;
+    });
+    const p = pseudoPValue(value, 0, draws);
+    return {
+      state,
+      z: z[i],
+      lag,
+      value,
+      p,
+      category: lisaCategory(z[i], lag, p),
+      neighbors: k,
+    };
+  });
+
+  return {
+    metric,
+    settings,
+    moransI,
+    expected,
+    zScore: (moransI - drawMean) / drawDeviation,
+    p: pseudoPValue(moransI, expected, globalDraws),
+    locals,
+    byState: Object.fromEntries(locals.map((l) => [l.state.state_id, l])),
+    isolated,
+    missing,
+  };
+}
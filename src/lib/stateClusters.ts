@@ -0,0 +1,157 @@
+import * as d3 from "d3";
+import { ClusterMethod, ClusterSettings, StateData } from "@/types";
+import { chartColors } from "@/lib/chartStyles";
+import {
+  agglomerate,
+  cutTree,
+  euclideanDistances,
+  kMeans,
+  silhouetteScores,
+} from "./clustering";
+
+export const clusterMethodLabels: Record<ClusterMethod, string> = {
+  kmeans: "k-means",
+  hierarchical: "Hierarchical (average linkage)",
+};
+
+export const minClusters = 2;
+export const maxClusters = 8;
+
+export interface StateCluster {
+  id: number;
+  label: string; // e.g. "Profile 1"
+  color: string;
+  states: StateData[];
+  centroid: Record<string, number>; // Mean of each metric, in its own units
+  silhouette: number; // Mean over the cluster's states
+}
+
+export interface StateClustering {
+  settings: ClusterSettings;
+  clusters: StateCluster[]; // Largest first
+  assignments: Record<string, number>; // state_id -> cluster id
+  silhouette: number; // Mean over all clustered states
+  unclustered: StateData[]; // States missing one of the metrics
+}
+
+function clusterColor(id: number): string {
+  return chartColors.colorScale[id % chartColors.colorScale.length];
+}
+
+// States with every metric, and their values as z-scores so each metric
+// counts equally whatever its units
+function standardize(data: StateData[], metrics: string[]) {
+  const states = data.filter((d) =>
+    metrics.every((m) => isFinite(d.values[m]))
+  );
+  const stats = metrics.map((m) => ({
+    mean: d3.mean(states, (d) => d.values[m]) ?? 0,
+    deviation: d3.deviation(states, (d) => d.values[m]) || 1,
+  }));
+  const points = states.map((d) =>
+    metrics.map((m, j) => (d.values[m] - stats[j].mean) / stats[j].deviation)
+  );
+  return { states, points };
+}
+
+function clusterLabels(
+  points: number[][],
+  distances: number[][],
+  method: ClusterMethod,
+  k: number
+): number[] {
+  if (method === "kmeans") return kMeans(points, k);
+
+  const labels = new Array<number>(points.length).fill(0);
+  cutTree(agglomerate(distances), k).forEach((members, cluster) =>
+    members.forEach((i) => (labels[i] = cluster))
+  );
+  return labels;
+}
+
+export function clusterStates(
+  data: StateData[],
+  settings: ClusterSettings
+): StateClustering | null {
+  const { metrics, method, k } = settings;
+  if (!metrics.length) return null;
+
+  const { states, points } = standardize(data, metrics);
+  if (states.length <= k) return null;
+
+  const distances = euclideanDistances(points);
+  const labels = clusterLabels(points, distances, method, k);
+  const silhouettes = silhouetteScores(distances, labels);
+
+  // Number clusters by size so the same grouping keeps the same colors
+  const groups = d3
+    .groups(
+      states.map((state, i) => ({
+        state,
+        label: labels[i],
+        s: silhouettes[i],
+      })),
+      (d) => d.label
+    )
+    .sort((a, b) => b[1].length - a[1].length);
+
+  const clusters = groups.map(([, members], id) => ({
+    id,
+    label: `Profile ${id + 1}`,
+    color: clusterColor(id),
+    states: members.map((m) => m.state),
+    centroid: Object.fromEntries(
+      metrics.map((m) => [m, d3.mean(members, (d) => d.state.values[m]) ?? NaN])
+    ),
+    silhouette: d3.mean(members, (d) => d.s) ?? 0,
+  }));
+
+  const assignments: Record<string, number> = {};
+  clusters.forEach((c) =>
+    c.states.forEach((state) => (assignments[state.state_id] = c.id))
+  );
+
+  return {
+    settings,
+    clusters,
+    assignments,
+    silhouette: d3.mean(silhouettes) ?? 0,
+    unclustered: data.filter((d) => !(d.state_id in assignments)),
+  };
+}
+
+// Mean silhouette for each candidate k, to help choose one
+export function silhouetteByK(
+  data: StateData[],
+  metrics: string[],
+  method: ClusterMethod
+): { k: number; silhouette: number }[] {
+  if (!metrics.length) return [];
+
+  const { points } = standardize(data, metrics);
+  const distances = euclideanDistances(points);
+  return d3
+    .range(minClusters, Math.min(maxClusters, points.length - 1) + 1)
+    .map((k) => ({
+      k,
+      silhouette:
+        d3.mean(
+          silhouetteScores(
+            distances,
+            clusterLabels(points, distances, method, k)
+          )
+        ) ?? 0,
+    }));
+}
+
+// Cluster centroids shaped like states, so state charts can plot them
+export function centroidsAsStates(clustering: StateClustering): StateData[] {
+  return clustering.clusters.map((c) => ({
+    Geo_ID: "",
+    State: `${c.label} (${c.states.length})`,
+    state_id: `cluster-${c.id}`,
+    values: c.centroid,
+    moe: {},
+    counts: {},
+  }));
+}
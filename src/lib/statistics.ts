@@ -0,0 +1,489 @@
+import * as d3 from "d3";
+
+// Pairs where both values are present, so each statistic uses every state
+// that has data for the metrics involved
+export function completePairs(
+  xs: number[],
+  ys: number[]
+): { xs: number[]; ys: number[] } {
+  const pairs = { xs: [] as number[], ys: [] as number[] };
+  xs.forEach((x, i) => {
+    if (isFinite(x) && isFinite(ys[i])) {
+      pairs.xs.push(x);
+      pairs.ys.push(ys[i]);
+    }
+  });
+  return pairs;
+}
+
+export function pearson(xs: number[], ys: number[]): number {
+  const meanX = d3.mean(xs) ?? NaN;
+  const meanY = d3.mean(ys) ?? NaN;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - meanX) * (ys[i] - meanY);
+    sxx += (x - meanX) ** 2;
+    syy += (ys[i] - meanY) ** 2;
+  });
+  return sxx && syy ? sxy / Math.sqrt(sxx * syy) : NaN;
+}
+
+// 1-based ranks, with tied values sharing their average rank
+export function rank(values: number[]): number[] {
+  const order = d3.range(values.length).sort((a, b) => values[a] - values[b]);
+  const ranks = new Array<number>(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && values[order[j + 1]] === values[order[i]]) {
+      j++;
+    }
+    for (let k = i; k <= j; k++) ranks[order[k]] = (i + j) / 2 + 1;
+    i = j + 1;
+  }
+  return ranks;
+}
+
+export function spearman(xs: number[], ys: number[]): number {
+  return pearson(rank(xs), rank(ys));
+}
+
+// Lanczos approximation of ln Γ(x)
+export function logGamma(x: number): number {
+  const c = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  c.forEach((coefficient) => (series += coefficient / ++y));
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return h;
+}
+
+// Regularized incomplete beta function I_x(a, b)
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) -
+      logGamma(a) -
+      logGamma(b) +
+      a * Math.log(x) +
+      b * Math.log(1 - x)
+  );
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+// Two-sided p-value of a Student's t statistic
+export function tTestPValue(t: number, df: number): number {
+  if (!isFinite(t) || df <= 0) return NaN;
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+// p-value of a correlation coefficient against r = 0, using the t
+// approximation (also used for Spearman's rho)
+export function correlationPValue(r: number, n: number): number {
+  if (isNaN(r) || n < 3) return NaN;
+  if (Math.abs(r) >= 1) return 0;
+  const df = n - 2;
+  return tTestPValue(r * Math.sqrt(df / (1 - r * r)), df);
+}
+
+export function formatPValue(p: number): string {
+  if (isNaN(p)) return "N/A";
+  return p < 0.001 ? "< 0.001" : d3.format(".3f")(p);
+}
+
+// Two-sided critical value of Student's t, e.g. alpha = 0.05 for a 95%
+// interval. Found by bisection on the p-value.
+export function tCriticalValue(alpha: number, df: number): number {
+  if (df <= 0) return NaN;
+  let low = 0;
+  let high = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (tTestPValue(mid, df) > alpha) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+// Upper tail of an F statistic
+export function fTestPValue(f: number, df1: number, df2: number): number {
+  if (!isFinite(f) || df1 <= 0 || df2 <= 0) return NaN;
+  if (f <= 0) return 1;
+  return incompleteBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+}
+
+// Regularized upper incomplete gamma function Q(a, x), by its series below
+// a + 1 and its continued fraction above
+function incompleteGammaUpper(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const front = Math.exp(-x + a * Math.log(x) - logGamma(a));
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n <= 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-14) break;
+    }
+    return 1 - front * sum;
+  }
+
+  const tiny = 1e-30;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i <= 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return front * h;
+}
+
+// Upper tail of a chi-square statistic
+export function chiSquarePValue(x: number, df: number): number {
+  if (!isFinite(x) || df <= 0) return NaN;
+  return incompleteGammaUpper(df / 2, x / 2);
+}
+
+export interface GroupTest {
+  statistic: number;
+  df: number[];
+  p: number;
+  // Share of the variation explained by the groups: eta squared for ANOVA,
+  // epsilon squared for Kruskal-Wallis
+  effectSize: number;
+}
+
+// Groups with at least one value; null when there is nothing to compare
+function testableGroups(groups: number[][]): number[][] | null {
+  const nonEmpty = groups.filter((g) => g.length > 0);
+  const n = d3.sum(nonEmpty, (g) => g.length);
+  return nonEmpty.length >= 2 && n > nonEmpty.length ? nonEmpty : null;
+}
+
+// One-way ANOVA: do the group means differ?
+export function oneWayAnova(groups: number[][]): GroupTest | null {
+  const testable = testableGroups(groups);
+  if (!testable) return null;
+
+  const all = testable.flat();
+  const grandMean = d3.mean(all)!;
+  const between = d3.sum(
+    testable,
+    (g) => g.length * (d3.mean(g)! - grandMean) ** 2
+  );
+  const total = d3.sum(all, (v) => (v - grandMean) ** 2);
+  if (!total) return null;
+
+  const df1 = testable.length - 1;
+  const df2 = all.length - testable.length;
+  const within = total - between;
+  const f = within > 0 ? between / df1 / (within / df2) : Infinity;
+  return {
+    statistic: f,
+    df: [df1, df2],
+    p: isFinite(f) ? fTestPValue(f, df1, df2) : 0,
+    effectSize: between / total,
+  };
+}
+
+// Kruskal-Wallis H test on ranks, with the usual correction for ties. Less
+// sensitive than ANOVA to outlying states and skewed metrics.
+export function kruskalWallis(groups: number[][]): GroupTest | null {
+  const testable = testableGroups(groups);
+  if (!testable) return null;
+
+  const all = testable.flat();
+  const n = all.length;
+  const ranks = rank(all);
+  let offset = 0;
+  const rankSums = testable.map((g) => {
+    const sum = d3.sum(ranks.slice(offset, offset + g.length));
+    offset += g.length;
+    return sum;
+  });
+  const raw =
+    (12 / (n * (n + 1))) *
+      d3.sum(testable, (g, i) => rankSums[i] ** 2 / g.length) -
+    3 * (n + 1);
+
+  const tieCounts = d3.rollups(
+    all,
+    (v) => v.length,
+    (v) => v
+  );
+  const ties = 1 - d3.sum(tieCounts, ([, t]) => t ** 3 - t) / (n ** 3 - n);
+  if (ties <= 0) return null;
+
+  const h = raw / ties;
+  const df = testable.length - 1;
+  return {
+    statistic: h,
+    df: [df],
+    p: chiSquarePValue(h, df),
+    effectSize: h / (n - 1),
+  };
+}
+
+// Ordinary least squares fit of y = intercept + slope * x
+export interface LinearFit {
+  slope: number;
+  intercept: number;
+  rSquared: number;
+  n: number;
+  residualError: number; // Standard error of the residuals
+  meanX: number;
+  sxx: number; // Sum of squared deviations of x
+}
+
+export function linearRegression(xs: number[], ys: number[]): LinearFit | null {
+  const n = xs.length;
+  if (n < 3) return null;
+
+  const meanX = d3.mean(xs)!;
+  const meanY = d3.mean(ys)!;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  xs.forEach((x, i) => {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (ys[i] - meanY);
+    syy += (ys[i] - meanY) ** 2;
+  });
+  if (!sxx) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const sse = d3.sum(xs, (x, i) => (ys[i] - intercept - slope * x) ** 2);
+  return {
+    slope,
+    intercept,
+    rSquared: syy ? 1 - sse / syy : NaN,
+    n,
+    residualError: Math.sqrt(sse / (n - 2)),
+    meanX,
+    sxx,
+  };
+}
+
+export function predict(fit: LinearFit, x: number): number {
+  return fit.intercept + fit.slope * x;
+}
+
+// Half-width of the confidence interval for the fitted mean at x
+export function confidenceHalfWidth(
+  fit: LinearFit,
+  x: number,
+  level = 0.95
+): number {
+  const t = tCriticalValue(1 - level, fit.n - 2);
+  return (
+    t *
+    fit.residualError *
+    Math.sqrt(1 / fit.n + (x - fit.meanX) ** 2 / fit.sxx)
+  );
+}
+
+// Residual divided by its standard error, which accounts for the point's
+// leverage; values beyond ±2 are conventionally treated as outliers
+export function standardizedResidual(
+  fit: LinearFit,
+  x: number,
+  y: number
+): number {
+  const leverage = 1 / fit.n + (x - fit.meanX) ** 2 / fit.sxx;
+  return (y - predict(fit, x)) / (fit.residualError * Math.sqrt(1 - leverage));
+}
+
+// Eigenvalues and eigenvectors of a symmetric matrix by Jacobi rotations,
+// largest eigenvalue first. vectors[k] is the eigenvector of values[k].
+export function symmetricEigen(matrix: number[][]): {
+  values: number[];
+  vectors: number[][];
+} {
+  const n = matrix.length;
+  const a = matrix.map((row) => [...row]);
+  const v: number[][] = a.map((_, i) => a.map((_, j) => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] ** 2;
+    }
+    if (offDiagonal < 1e-20) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-15) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t =
+          Math.sign(theta || 1) /
+          (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = d3.range(n).sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map((i) => a[i][i]),
+    vectors: order.map((i) => v.map((row) => row[i])),
+  };
+}
+
+// Moore-Penrose inverse of a symmetric matrix. Directions with (near) zero
+// variance are dropped rather than blowing up, which matters when metrics
+// are exact complements of each other.
+export function symmetricPseudoInverse(matrix: number[][]): number[][] {
+  const { values, vectors } = symmetricEigen(matrix);
+  const tolerance = 1e-10 * Math.max(...values.map(Math.abs), 0);
+  return matrix.map((_, i) =>
+    matrix.map((_, j) =>
+      d3.sum(values, (value, k) =>
+        Math.abs(value) > tolerance
+          ? (vectors[k][i] * vectors[k][j]) / value
+          : 0
+      )
+    )
+  );
+}
+
+// Ordinary least squares with several predictors. Predictors are
+// standardized for the fit so income and percentages are equally well
+// conditioned; the results are in the original units.
+export interface MultipleFit {
+  intercept: number;
+  coefficients: number[];
+  covariance: number[][]; // Sampling covariance of the coefficients
+  rSquared: number;
+  n: number;
+  df: number; // Residual degrees of freedom
+  residualError: number;
+}
+
+export function multipleRegression(
+  rows: number[][],
+  ys: number[]
+): MultipleFit | null {
+  const n = rows.length;
+  const k = rows[0]?.length ?? 0;
+  const df = n - k - 1;
+  if (!k || df < 1) return null;
+
+  const columns = d3.range(k).map((j) => rows.map((row) => row[j]));
+  const means = columns.map((column) => d3.mean(column)!);
+  const deviations = columns.map((column) => d3.deviation(column) || 0);
+  if (deviations.some((sd) => !sd)) return null;
+
+  // Centered predictors are uncorrelated with the intercept, so the slopes
+  // can be solved on their own
+  const z = rows.map((row) =>
+    row.map((v, j) => (v - means[j]) / deviations[j])
+  );
+  const meanY = d3.mean(ys)!;
+  const crossProducts = d3
+    .range(k)
+    .map((i) => d3.range(k).map((j) => d3.sum(z, (row) => row[i] * row[j])));
+  const inverse = symmetricPseudoInverse(crossProducts);
+  const zy = d3.range(k).map((j) => d3.sum(z, (row, r) => row[j] * ys[r]));
+  const slopes = inverse.map((row) => d3.sum(row, (v, j) => v * zy[j]));
+
+  const fitted = z.map((row) => meanY + d3.sum(row, (v, j) => v * slopes[j]));
+  const sse = d3.sum(ys, (y, i) => (y - fitted[i]) ** 2);
+  const sst = d3.sum(ys, (y) => (y - meanY) ** 2);
+  const variance = sse / df;
+
+  const coefficients = slopes.map((b, j) => b / deviations[j]);
+  return {
+    intercept: meanY - d3.sum(coefficients, (b, j) => b * means[j]),
+    coefficients,
+    covariance: inverse.map((row, i) =>
+      row.map((v, j) => (variance * v) / (deviations[i] * deviations[j]))
+    ),
+    rSquared: sst ? 1 - sse / sst : NaN,
+    n,
+    df,
+    residualError: Math.sqrt(variance),
+  };
+}
+
+// Small seeded generator so randomized methods (k-means restarts,
+// permutation tests) give the same result on every render
+export function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,68 @@
+import { StateData } from "@/types";
+import { formatMetricValue } from "@/lib/metrics";
+
+// ACS margins of error are published at the 90% confidence level
+export const moeConfidenceLevel = 0.9;
+export const moeZScore = 1.645;
+
+export interface EstimateComparison {
+  difference: number;
+  moe: number; // Margin of error of the difference
+  zScore: number;
+  significant: boolean;
+}
+
+// NaN when the dataset has no margin of error for this metric
+export function getMoe(state: StateData, metric: string): number {
+  return state.moe[metric] ?? NaN;
+}
+
+export function hasMoe(states: StateData[], metric: string): boolean {
+  return states.some((s) => !isNaN(getMoe(s, metric)));
+}
+
+export function confidenceInterval(
+  value: number,
+  moe: number
+): [number, number] {
+  return [value - moe, value + moe];
+}
+
+// Census Bureau test for a difference between two ACS estimates:
+// significant when |a - b| exceeds the margin of error of the difference
+export function compareEstimates(
+  a: StateData,
+  b: StateData,
+  metric: string
+): EstimateComparison | null {
+  const moeA = getMoe(a, metric);
+  const moeB = getMoe(b, metric);
+  const difference = a.values[metric] - b.values[metric];
+  if (isNaN(moeA) || isNaN(moeB) || isNaN(difference)) return null;
+
+  const moe = Math.hypot(moeA, moeB);
+  const zScore = moe > 0 ? Math.abs(difference) / (moe / moeZScore) : Infinity;
+  return {
+    difference,
+    moe,
+    zScore,
+    significant: zScore > moeZScore,
+  };
+}
+
+// "85.62% ± 0.40% (90% CI 85.22%–86.02%)"
+export function formatWithMoe(
+  value: number,
+  moe: number,
+  metric: string
+): string {
+  if (isNaN(moe)) return formatMetricValue(value, metric);
+  const [low, high] = confidenceInterval(value, moe);
+  return `${formatMetricValue(value, metric)} ± ${formatMetricValue(
+    moe,
+    metric
+  )} (${moeConfidenceLevel * 100}% CI ${formatMetricValue(
+    low,
+    metric
+  )}–${formatMetricValue(high, metric)})`;
+}
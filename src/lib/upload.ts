@@ -0,0 +1,184 @@
+import * as d3 from "d3";
+import {
+  ColumnMapping,
+  JoinReport,
+  StateData,
+  StateIdentifierType,
+  UploadedTable,
+} from "@/types";
+import { fipsToStateMap, stateToFipsMap } from "@/lib/utils";
+import { countColumns, getMoeMetricKey, isMoeColumn } from "@/lib/metrics";
+import { extraJurisdictionNames } from "@/lib/geography";
+
+export const identifierTypeLabels: Record<StateIdentifierType, string> = {
+  name: "State name",
+  postal: "Postal code (e.g. AL)",
+  fips: "FIPS code (e.g. 01)",
+  geo_id: "Geo_ID (e.g. 0400000US01)",
+};
+
+export async function parseUploadedFile(file: File): Promise<UploadedTable> {
+  const isExcel = /\.xlsx$/i.test(file.name);
+
+  if (!isExcel) {
+    const rows = d3.csvParse(await file.text());
+    return {
+      fileName: file.name,
+      columns: rows.columns,
+      rows: rows.map((row) => ({ ...row } as Record<string, string>)),
+    };
+  }
+
+  // Only pull in the spreadsheet reader when someone uploads a workbook
+  const { readSheet } = await import("read-excel-file/browser");
+  const [header = [], ...body] = await readSheet(file);
+  const columns = header.map((cell, i) =>
+    cell === null ? `Column ${i + 1}` : String(cell)
+  );
+
+  return {
+    fileName: file.name,
+    columns,
+    rows: body.map((cells) =>
+      Object.fromEntries(
+        columns.map((column, i) => [
+          column,
+          cells[i] === null || cells[i] === undefined ? "" : String(cells[i]),
+        ])
+      )
+    ),
+  };
+}
+
+// Parse a spreadsheet cell, tolerating "$62,000" or "85.6%"
+export function parseNumericCell(raw: string | undefined): number {
+  const cleaned = (raw ?? "").replace(/[$,%\s]/g, "");
+  return cleaned ? Number(cleaned) : NaN;
+}
+
+// Guess how a column identifies states from its name and values
+export function detectIdentifierType(
+  column: string,
+  values: string[]
+): StateIdentifierType {
+  const sample = values.filter(Boolean).slice(0, 20);
+  if (!sample.length) return "name";
+  if (/geo_?id/i.test(column) || sample.every((v) => /US\d{2}$/.test(v))) {
+    return "geo_id";
+  }
+  if (/fips/i.test(column) || sample.every((v) => /^\d{1,2}$/.test(v))) {
+    return "fips";
+  }
+  if (sample.every((v) => /^[A-Za-z]{2}$/.test(v.trim()))) {
+    return "postal";
+  }
+  return "name";
+}
+
+// Columns where most non-empty cells parse as numbers
+export function detectNumericColumns(table: UploadedTable): string[] {
+  return table.columns.filter((column) => {
+    const cells = table.rows.map((r) => r[column]).filter((v) => v?.trim());
+    if (!cells.length) return false;
+    const numeric = cells.filter((v) => !isNaN(parseNumericCell(v)));
+    return numeric.length / cells.length >= 0.8;
+  });
+}
+
+// Postal code -> display name, from the TopoJSON plus the island areas
+export function getJurisdictionNames(topoData: any): Record<string, string> {
+  const names: Record<string, string> = { ...extraJurisdictionNames };
+  topoData?.objects?.states?.geometries.forEach((geo: any) => {
+    const stateId = fipsToStateMap[geo.id];
+    if (stateId) names[stateId] = geo.properties.name;
+  });
+  return names;
+}
+
+export function resolveStateId(
+  value: string,
+  idType: StateIdentifierType,
+  names: Record<string, string>
+): string | null {
+  const trimmed = value.trim();
+  switch (idType) {
+    case "postal": {
+      const code = trimmed.toUpperCase();
+      return stateToFipsMap[code] ? code : null;
+    }
+    case "fips":
+      return fipsToStateMap[trimmed.padStart(2, "0")] ?? null;
+    case "geo_id": {
+      const match = trimmed.match(/US(\d{2})$/);
+      return match ? fipsToStateMap[match[1]] ?? null : null;
+    }
+    case "name": {
+      const lower = trimmed.toLowerCase();
+      const entry = Object.entries(names).find(
+        ([, name]) => name.toLowerCase() === lower
+      );
+      return entry ? entry[0] : null;
+    }
+  }
+}
+
+// Join the uploaded rows to the map's jurisdictions and report what failed
+export function joinUploadedTable(
+  table: UploadedTable,
+  mapping: ColumnMapping,
+  topoData: any
+): JoinReport {
+  const names = getJurisdictionNames(topoData);
+  const byState = new Map<string, StateData>();
+  const unmatched: string[] = [];
+  const duplicates: string[] = [];
+  let matchedRows = 0;
+
+  table.rows.forEach((row) => {
+    const rawId = row[mapping.idColumn] ?? "";
+    const stateId = resolveStateId(rawId, mapping.idType, names);
+    if (!stateId) {
+      if (rawId.trim()) unmatched.push(rawId);
+      return;
+    }
+    matchedRows++;
+    if (byState.has(stateId)) duplicates.push(stateId);
+
+    // "<metric> MOE" columns become margins of error for their metric, and
+    // household/population totals become weights
+    const values: Record<string, number> = {};
+    const moe: Record<string, number> = {};
+    const counts: Record<string, number> = {};
+    mapping.metricColumns.forEach((column) => {
+      const value = parseNumericCell(row[column]);
+      if (isMoeColumn(column)) {
+        if (!isNaN(value)) moe[getMoeMetricKey(column)] = value;
+      } else if (countColumns.includes(column)) {
+        if (!isNaN(value)) counts[column] = value;
+      } else {
+        values[column] = value;
+      }
+    });
+
+    byState.set(stateId, {
+      Geo_ID: `0400000US${stateToFipsMap[stateId]}`,
+      State: names[stateId] ?? stateId,
+      state_id: stateId,
+      values,
+      moe,
+      counts,
+    });
+  });
+
+  const mapStates: string[] = (topoData?.objects?.states?.geometries ?? [])
+    .map((geo: any) => fipsToStateMap[geo.id])
+    .filter(Boolean);
+
+  return {
+    data: Array.from(byState.values()),
+    matchedRows,
+    unmatched,
+    duplicates: Array.from(new Set(duplicates)),
+    missing: mapStates.filter((stateId) => !byState.has(stateId)),
+  };
+}
@@ -2,6 +2,14 @@ import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 import * as d3 from "d3";
 import { StateData } from "@/types";
+import {
+  formatMetricValue,
+  getMoeMetricKey,
+  countColumns,
+  idColumns,
+  isMoeColumn,
+  sortMetricKeys,
+} from "@/lib/metrics";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -11,14 +19,74 @@ export async function fetchCSVData(url: string): Promise<StateData[]> {
   try {
     const response = await fetch(url);
     const text = await response.text();
-    const data = d3.csvParse(text) as unknown as StateData[];
-    return data;
+    return d3.csvParse(text).map(parseStateRow);
   } catch (error) {
     console.error("Error fetching CSV data:", error);
     return [];
   }
 }
 
+function parseCell(raw: string | undefined): number {
+  const trimmed = raw?.trim();
+  return trimmed ? Number(trimmed) : NaN;
+}
+
+// Parse every metric column of a raw CSV row, with NaN for blank cells
+export function parseMetricValues(
+  row: d3.DSVRowString
+): Record<string, number> {
+  const values: Record<string, number> = {};
+  Object.keys(row)
+    .filter(
+      (key) =>
+        !idColumns.includes(key) &&
+        !countColumns.includes(key) &&
+        !isMoeColumn(key)
+    )
+    .forEach((key) => {
+      values[key] = parseCell(row[key]);
+    });
+  return values;
+}
+
+// Parse the "<metric> MOE" columns of a raw CSV row, keyed by metric
+export function parseMoeValues(row: d3.DSVRowString): Record<string, number> {
+  const moe: Record<string, number> = {};
+  Object.keys(row)
+    .filter(isMoeColumn)
+    .forEach((key) => {
+      const value = parseCell(row[key]);
+      if (!isNaN(value)) moe[getMoeMetricKey(key)] = value;
+    });
+  return moe;
+}
+
+// Parse the household and population totals of a raw CSV row
+export function parseCountValues(
+  row: d3.DSVRowString
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  countColumns
+    .filter((key) => key in row)
+    .forEach((key) => {
+      const value = parseCell(row[key]);
+      if (!isNaN(value)) counts[key] = value;
+    });
+  return counts;
+}
+
+// Convert a raw CSV row into a typed record, parsing every metric once
+export function parseStateRow(row: d3.DSVRowString): StateData {
+  return {
+    Geo_ID: row.Geo_ID ?? "",
+    State: row.State ?? "",
+    state_id: row.state_id ?? "",
+    values: parseMetricValues(row),
+    moe: parseMoeValues(row),
+    counts: parseCountValues(row),
+  };
+}
+
 export async function fetchTopoJSONData(url: string): Promise<any> {
   try {
     const response = await fetch(url);
@@ -32,26 +100,20 @@ export async function fetchTopoJSONData(url: string): Promise<any> {
 export function getMetrics(data: StateData[]): string[] {
   if (!data.length) return [];
   
-  const firstState = data[0];
-  return Object.keys(firstState).filter(key => 
-    !["Geo_ID", "State", "state_id"].includes(key)
-  );
+  return sortMetricKeys(Object.keys(data[0].values));
 }
 
 export function getStateColor(value: number, colorScale: d3.ScaleQuantize<string, never>): string {
   return colorScale(value) || "#ccc";
 }
 
-export function formatValue(value: string, metricName: string): string {
-  if (metricName === "Median Household Income") {
-    return `$${parseInt(value).toLocaleString()}`;
-  }
-  return value;
+export function formatValue(value: number, metricName: string): string {
+  return formatMetricValue(value, metricName);
 }
 
 export const fipsToStateMap: Record<string, string> = {
   '01': 'AL', '02': 'AK', '04': 'AZ', '05': 'AR', '06': 'CA',
-  '08': 'CO', '09': 'CT', '10': 'DE', '12': 'FL', '13': 'GA',
+  '08': 'CO', '09': 'CT', '10': 'DE', '11': 'DC', '12': 'FL', '13': 'GA',
   '15': 'HI', '16': 'ID', '17': 'IL', '18': 'IN', '19': 'IA',
   '20': 'KS', '21': 'KY', '22': 'LA', '23': 'ME', '24': 'MD',
   '25': 'MA', '26': 'MI', '27': 'MN', '28': 'MS', '29': 'MO',
@@ -59,7 +121,8 @@ export const fipsToStateMap: Record<string, string> = {
   '35': 'NM', '36': 'NY', '37': 'NC', '38': 'ND', '39': 'OH',
   '40': 'OK', '41': 'OR', '42': 'PA', '44': 'RI', '45': 'SC',
   '46': 'SD', '47': 'TN', '48': 'TX', '49': 'UT', '50': 'VT',
-  '51': 'VA', '53': 'WA', '54': 'WV', '55': 'WI', '56': 'WY'
+  '51': 'VA', '53': 'WA', '54': 'WV', '55': 'WI', '56': 'WY',
+  '60': 'AS', '66': 'GU', '69': 'MP', '72': 'PR', '78': 'VI'
 };
 
 export const stateToFipsMap: Record<string, string> = 
@@ -0,0 +1,168 @@
+import * as d3 from "d3";
+import {
+  ChecksumStatus,
+  DatasetManifest,
+  StateData,
+  Vintage,
+  VintageSource,
+} from "@/types";
+import { parseStateRow } from "@/lib/utils";
+
+export const yearColumn = "Year";
+
+// Version name of the untagged manifest entries, i.e. the current data
+export const currentVersion = "current";
+
+export function getVersion(source: VintageSource): string {
+  return source.version ?? currentVersion;
+}
+
+// The current data first, then tagged versions in manifest order
+export function getManifestVersions(manifest: DatasetManifest): string[] {
+  return Array.from(
+    new Set([currentVersion, ...manifest.vintages.map(getVersion)])
+  );
+}
+
+// Files to load for a version: its own files, plus current files for years
+// the version doesn't cover
+export function selectVersion(
+  manifest: DatasetManifest,
+  version: string = currentVersion
+): VintageSource[] {
+  const current = manifest.vintages.filter(
+    (v) => getVersion(v) === currentVersion
+  );
+  if (version === currentVersion) return current;
+
+  const tagged = manifest.vintages.filter((v) => getVersion(v) === version);
+  const taggedYears = new Set(tagged.map((v) => v.year));
+  return [...current.filter((v) => !taggedYears.has(v.year)), ...tagged];
+}
+
+// Hex SHA-256 of a file's text, or null where Web Crypto is unavailable
+// (e.g. pages served over plain HTTP from another host)
+export async function sha256Hex(text: string): Promise<string | null> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return null;
+  const digest = await subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+export async function verifyChecksum(
+  text: string,
+  source: VintageSource
+): Promise<ChecksumStatus> {
+  if (!source.sha256) return "unchecked";
+  const actual = await sha256Hex(text);
+  if (actual === null) return "unchecked";
+  return actual === source.sha256.toLowerCase() ? "valid" : "mismatch";
+}
+
+// Split one CSV into vintages: either a snapshot for source.year, or a
+// long-format file with one row per state and year
+export function parseVintageCsv(
+  text: string,
+  source: VintageSource
+): Vintage[] {
+  const rows = d3.csvParse(text);
+
+  if (source.year !== undefined) {
+    return [{ year: source.year, data: rows.map(parseStateRow), source }];
+  }
+
+  if (!rows.columns.includes(yearColumn)) {
+    throw new Error(`${source.url} has no year and no "${yearColumn}" column`);
+  }
+  return d3
+    .groups(rows, (row) => Number(row[yearColumn]))
+    .filter(([year]) => !isNaN(year))
+    .map(([year, yearRows]) => ({
+      year,
+      data: yearRows.map(parseStateRow),
+      source,
+    }));
+}
+
+// Parse a file listed in the manifest, checking it against its checksum
+export async function readVintageSource(
+  text: string,
+  source: VintageSource
+): Promise<Vintage[]> {
+  const checksum = await verifyChecksum(text, source);
+  if (checksum === "mismatch") {
+    console.warn(`${source.url} does not match its checksum in the manifest`);
+  }
+  return parseVintageCsv(text, source).map((v) => ({ ...v, checksum }));
+}
+
+// Merge vintages from several sources, later sources winning on a tie
+export function mergeVintages(loaded: Vintage[][]): Vintage[] {
+  const byYear = new Map<number, Vintage>();
+  loaded.flat().forEach((v) => byYear.set(v.year, v));
+  return Array.from(byYear.values()).sort((a, b) => a.year - b.year);
+}
+
+async function fetchVintageSource(source: VintageSource): Promise<Vintage[]> {
+  const response = await fetch(source.url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${source.url}: ${response.status}`);
+  }
+  return readVintageSource(await response.text(), source);
+}
+
+export async function fetchManifest(
+  manifestUrl: string
+): Promise<DatasetManifest> {
+  const response = await fetch(manifestUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${manifestUrl}: ${response.status}`);
+  }
+  return (await response.json()) as DatasetManifest;
+}
+
+// Load every vintage of a dataset version, sorted by year
+export async function fetchVintages(
+  manifestUrl: string,
+  version?: string
+): Promise<Vintage[]> {
+  try {
+    const manifest = await fetchManifest(manifestUrl);
+    const loaded = await Promise.all(
+      selectVersion(manifest, version).map(fetchVintageSource)
+    );
+
+    return mergeVintages(loaded);
+  } catch (error) {
+    console.error("Error fetching vintages:", error);
+    return [];
+  }
+}
+
+// Per-state difference between two vintages (current minus base). States
+// missing from the base vintage get NaN for every metric. Margins of error
+// of the difference combine both vintages' margins.
+export function computeChange(
+  current: StateData[],
+  base: StateData[]
+): StateData[] {
+  const baseById = new Map(base.map((d) => [d.state_id, d]));
+
+  return current.map((state) => {
+    const baseState = baseById.get(state.state_id);
+    const values: Record<string, number> = {};
+    const moe: Record<string, number> = {};
+    Object.entries(state.values).forEach(([key, value]) => {
+      const baseValue = baseState?.values[key];
+      values[key] = baseValue === undefined ? NaN : value - baseValue;
+
+      const baseMoe = baseState?.moe[key];
+      if (state.moe[key] !== undefined && baseMoe !== undefined) {
+        moe[key] = Math.hypot(state.moe[key], baseMoe);
+      }
+    });
+    return { ...state, values, moe };
+  });
+}
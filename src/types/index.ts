@@ -1,20 +1,187 @@
+export type MetricUnit = "percent" | "dollars" | "rate";
+
+export type MetricDirection = "higher-is-better" | "higher-is-worse";
+
+export interface MetricDefinition {
+  key: string; // Column name in the CSV
+  label: string; // Short label for axes and chips
+  unit: MetricUnit;
+  format: string; // d3-format specifier
+  range: [number, number]; // Valid range of values
+  direction: MetricDirection;
+  chartDivisor?: number; // Divide by this when sharing an axis with percentages
+  weight?: string; // Count column used to weight aggregates, e.g. "Households"
+  // True when the weight column is the metric's own universe, so a weighted
+  // share can be turned into a count. Metrics weighted by a proxy (total
+  // population for adults 25+) leave it unset.
+  weightIsUniverse?: boolean;
+}
+
+// A user-defined metric computed from other columns with a formula
+export interface DerivedMetric {
+  name: string; // Used as the metric key, like a CSV column name
+  expression: string; // See src/lib/formula.ts for the syntax
+  unit: MetricUnit;
+  direction: MetricDirection;
+}
+
+export type IndexNormalization = "min-max" | "z-score" | "percentile";
+
+// Dashboard-wide scale for charts that show several metrics together
+export type NormalizationMode = "raw" | IndexNormalization;
+
+export interface IndexComponent {
+  metric: string;
+  weight: number; // Relative; weights are rescaled to sum to 1
+  direction: MetricDirection; // "higher-is-worse" components count against
+}
+
+// A composite index built from normalized, weighted metrics. Higher scores
+// mean better digital access.
+export interface CompositeIndex {
+  name: string; // Used as the metric key
+  components: IndexComponent[];
+  normalization: IndexNormalization;
+}
+
 export interface StateData {
   Geo_ID: string;
   State: string;
   state_id: string;
-  "% Households Without Computer": string;
-  "% Smartphone-Only Households": string;
-  "% Households with Broadband": string;
-  "% Households Using Internet at Home": string;
-  "% Without High School Diploma": string;
-  "% With Bachelor's or Higher": string;
-  "% School-Age (5–17) No Internet": string;
-  "% School-Age (5–17) Not Enrolled": string;
-  "Median Household Income": string;
-  "% Below Poverty Line": string;
-  "Unemployment Rate (%)": string;
-  "% With Public Assistance": string;
-  [key: string]: string; // Allow for dynamic key access
+  values: Record<string, number>; // Metric key -> value, NaN when missing
+  moe: Record<string, number>; // Metric key -> 90% margin of error, if published
+  counts: Record<string, number>; // Count column -> total, e.g. Households
+}
+
+// Where a data file's numbers came from, as recorded in the manifest
+export interface DatasetProvenance {
+  version?: string; // Untagged files are the current data
+  source?: string; // Publisher and product
+  tables?: string[]; // ACS table IDs
+  retrieved?: string; // ISO date the raw tables were downloaded
+  license?: string;
+  sha256?: string; // Checksum of the file, verified when it is loaded
+  notes?: string;
+}
+
+// One entry of public/data/vintages.json. Entries without a year point at a
+// long-format CSV whose "Year" column splits it into several vintages.
+export interface VintageSource extends DatasetProvenance {
+  year?: number;
+  url: string;
+}
+
+export interface DatasetManifest {
+  vintages: VintageSource[];
+}
+
+export type ChecksumStatus = "valid" | "mismatch" | "unchecked";
+
+export interface Vintage {
+  year: number;
+  data: StateData[];
+  source?: VintageSource;
+  checksum?: ChecksumStatus;
+}
+
+export type StateIdentifierType = "name" | "postal" | "fips" | "geo_id";
+
+// A user-supplied table before it is joined to the map
+export interface UploadedTable {
+  fileName: string;
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ColumnMapping {
+  idColumn: string;
+  idType: StateIdentifierType;
+  metricColumns: string[];
+}
+
+export interface JoinReport {
+  data: StateData[];
+  matchedRows: number; // Input rows that resolved to a jurisdiction
+  unmatched: string[]; // Identifier values that resolve to no jurisdiction
+  duplicates: string[]; // Jurisdictions with more than one row
+  missing: string[]; // Map jurisdictions with no row in the file
+}
+
+export type MapValueMode = "level" | "change";
+
+export type DataSource = "static" | "api";
+
+export type AggregationMode = "weighted" | "unweighted";
+
+export type CorrelationMethod = "pearson" | "spearman";
+
+export type ClusterMethod = "kmeans" | "hierarchical";
+
+// How states are grouped into need-based profiles
+export interface ClusterSettings {
+  metrics: string[]; // Standardized before clustering
+  method: ClusterMethod;
+  k: number;
+}
+
+// How distance between states is measured when looking for peers
+export type SimilarityMethod = "euclidean" | "mahalanobis";
+
+// Which shared boundaries make two states neighbors: any shared point
+// (queen) or a shared border line (rook)
+export type ContiguityStyle = "queen" | "rook";
+
+export interface SpatialWeightsSettings {
+  style: ContiguityStyle;
+  linkIslands: boolean; // Give Alaska and Hawaii their nearest state as a neighbor
+}
+
+export type LisaCategory =
+  | "High-High"
+  | "Low-Low"
+  | "High-Low"
+  | "Low-High"
+  | "Not significant";
+
+// How each region's spread is drawn in the regional distribution chart
+export type DistributionStyle = "box" | "violin";
+
+// A what-if change to one state's socioeconomic inputs, fed through
+// regressions fitted across all states
+export interface ScenarioSettings {
+  stateId: string | null;
+  inputs: string[];
+  outcomes: string[];
+  changes: Record<string, number>; // Change to each input, in its own units
+}
+
+// What a state's value is measured against in gap analysis
+export type BenchmarkKind = "goal" | "national" | "median" | "best";
+
+export interface Benchmark {
+  kind: BenchmarkKind;
+  goal: number | null; // Target for the "goal" kind, in the metric's units
+}
+
+// JSON shape of a state returned by the /api routes. Missing values are
+// null because JSON has no NaN.
+export interface ApiState {
+  id: string;
+  geoId: string;
+  name: string;
+  region: string | null;
+  values: Record<string, number | null>;
+  moe: Record<string, number>;
+  counts: Record<string, number>;
+}
+
+export interface ApiStatesResponse {
+  year: number;
+  years: number[];
+  version: string;
+  source: DatasetProvenance;
+  count: number;
+  data: ApiState[];
 }
 
 export interface TopoJSONFeature {